@@ -49,3 +49,9 @@ export const PINGOPS_CAPTURE_REQUEST_BODY = createContextKey(
 export const PINGOPS_CAPTURE_RESPONSE_BODY = createContextKey(
   "pingops-capture-response-body"
 );
+
+/**
+ * Context key for the GenAI usage totals of a trace.
+ * Set by startTrace, GenAI spans add their token usage and cost to it.
+ */
+export const PINGOPS_GENAI_USAGE = createContextKey("pingops-genai-usage");
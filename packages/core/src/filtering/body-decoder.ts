@@ -1,12 +1,27 @@
 /**
  * Minimal body handling: buffer to string for span attributes.
- * No decompression or truncation; for compressed responses the instrumentation
- * sends base64 + content-encoding so the backend can decompress.
+ * No truncation; for compressed responses the instrumentation sends
+ * base64 + content-encoding so the backend can decompress, unless in-process
+ * decompression is enabled (see decompressBody and decompressBodyHead).
  */
 
+import {
+  brotliDecompressSync,
+  constants,
+  gunzipSync,
+  inflateRawSync,
+  inflateSync,
+} from "node:zlib";
+import { createLogger } from "../logger";
+
+const log = createLogger("[PingOps BodyDecoder]");
+
 /** Span attribute for response content-encoding when body is sent as base64. */
 export const HTTP_RESPONSE_CONTENT_ENCODING = "http.response.content_encoding";
 
+/** Default maximum size of a decompressed body (bytes). */
+export const DEFAULT_MAX_DECOMPRESSED_BODY_SIZE = 64 * 1024;
+
 const COMPRESSED_ENCODINGS = new Set([
   "gzip",
   "br",
@@ -54,6 +69,198 @@ export function isCompressedContentEncoding(headerValue: unknown): boolean {
   return COMPRESSED_ENCODINGS.has(first);
 }
 
+/**
+ * Decodes one content-encoding, never producing more than maxOutputLength bytes
+ *
+ * With isPartial, the buffer is only the beginning of the encoded body and
+ * the bytes it encodes are returned rather than failing on its missing end.
+ */
+function decodeContentEncoding(
+  buffer: Buffer,
+  encoding: string,
+  maxOutputLength: number,
+  isPartial = false
+): Buffer {
+  const finishFlush = isPartial ? constants.Z_SYNC_FLUSH : undefined;
+  switch (encoding) {
+    case "gzip":
+    case "x-gzip":
+      return gunzipSync(buffer, { maxOutputLength, finishFlush });
+    case "deflate":
+    case "x-deflate":
+      try {
+        return inflateSync(buffer, { maxOutputLength, finishFlush });
+      } catch (error) {
+        if (isOutputTooLarge(error)) {
+          throw error;
+        }
+        // Some servers send raw deflate data without the zlib wrapper
+        return inflateRawSync(buffer, { maxOutputLength, finishFlush });
+      }
+    case "br":
+      return brotliDecompressSync(buffer, {
+        maxOutputLength,
+        finishFlush: isPartial ? constants.BROTLI_OPERATION_FLUSH : undefined,
+      });
+    case "identity":
+      return buffer;
+    default:
+      throw new Error(`Unsupported content-encoding: ${encoding}`);
+  }
+}
+
+/**
+ * Returns true for the error of a decoding stopped at its maximum output size
+ */
+function isOutputTooLarge(error: unknown): boolean {
+  return (
+    error instanceof RangeError &&
+    (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE"
+  );
+}
+
+/**
+ * Returns the content-encodings of a header value, in decoding order
+ */
+function parseContentEncodings(contentEncoding: unknown): string[] {
+  return (normalizeHeaderValue(contentEncoding) ?? "")
+    .split(",")
+    .map((encoding) => encoding.trim().toLowerCase())
+    .filter(Boolean)
+    .reverse();
+}
+
+function decodeContentEncodings(
+  buffer: Buffer,
+  encodings: string[],
+  maxSize: number,
+  isPartial = false
+): Buffer {
+  return encodings.reduce(
+    (decoded, encoding) =>
+      decodeContentEncoding(decoded, encoding, maxSize, isPartial),
+    buffer
+  );
+}
+
+/**
+ * Decompresses a body according to its content-encoding header (gzip, br,
+ * deflate, x-gzip, x-deflate, or a comma-separated list of them, decoded in
+ * reverse order).
+ *
+ * Inflation stops at maxSize bytes, so highly compressed bodies (zip bombs)
+ * cannot exhaust memory.
+ *
+ * @param buffer - Compressed body
+ * @param contentEncoding - Content-encoding header value
+ * @param maxSize - Maximum size of the decompressed body in bytes
+ * @returns The decompressed body, or null if an encoding is not supported,
+ * the body is corrupt or it exceeds maxSize
+ */
+export function decompressBody(
+  buffer: Buffer,
+  contentEncoding: unknown,
+  maxSize: number = DEFAULT_MAX_DECOMPRESSED_BODY_SIZE
+): Buffer | null {
+  try {
+    return decodeContentEncodings(
+      buffer,
+      parseContentEncodings(contentEncoding),
+      maxSize
+    );
+  } catch (error) {
+    log.debug("Failed to decompress body, falling back to base64", {
+      contentEncoding: normalizeHeaderValue(contentEncoding),
+      size: buffer.length,
+      maxSize,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Beginning of a decompressed body
+ */
+export interface DecompressedBodyHead {
+  /** Decompressed bytes, at most maxSize */
+  body: Buffer;
+  /** Whether the decompressed body is larger than the returned bytes */
+  isTruncated: boolean;
+}
+
+/**
+ * Decompresses a body up to maxSize bytes, keeping the beginning of bodies
+ * that decompress to more
+ *
+ * Inflation stops at twice maxSize bytes, so highly compressed bodies (zip
+ * bombs) cannot exhaust memory or CPU.
+ *
+ * @param buffer - Compressed body, or its beginning if isPartial
+ * @param contentEncoding - Content-encoding header value
+ * @param maxSize - Maximum size of the decompressed bytes
+ * @param isPartial - Whether buffer is only the beginning of the body
+ * @returns The decompressed bytes, or null if an encoding is not supported or
+ * the body is corrupt
+ */
+export function decompressBodyHead(
+  buffer: Buffer,
+  contentEncoding: unknown,
+  maxSize: number,
+  isPartial = false
+): DecompressedBodyHead | null {
+  const encodings = parseContentEncodings(contentEncoding);
+  try {
+    try {
+      const body = decodeContentEncodings(
+        buffer,
+        encodings,
+        maxSize,
+        isPartial
+      );
+      return { body, isTruncated: isPartial };
+    } catch (error) {
+      if (!isOutputTooLarge(error)) {
+        throw error;
+      }
+    }
+
+    // Decoding stops with an error once its maximum output size is exceeded,
+    // without its output: find the longest beginning of the body that decodes
+    // to at most twice maxSize bytes (a single compressed byte can decode to
+    // many) and keep maxSize bytes of it
+    let body: Buffer = Buffer.alloc(0);
+    let low = 0;
+    let high = buffer.length;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      try {
+        body = decodeContentEncodings(
+          buffer.subarray(0, middle),
+          encodings,
+          maxSize * 2,
+          true
+        );
+        low = middle;
+      } catch (error) {
+        if (!isOutputTooLarge(error)) {
+          throw error;
+        }
+        high = middle;
+      }
+    }
+    return { body: body.subarray(0, maxSize), isTruncated: true };
+  } catch (error) {
+    log.debug("Failed to decompress body", {
+      contentEncoding: normalizeHeaderValue(contentEncoding),
+      size: buffer.length,
+      maxSize,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
 /**
  * Converts a buffer to a UTF-8 string for use as request/response body on spans.
  * Returns null for null, undefined, or empty buffer.
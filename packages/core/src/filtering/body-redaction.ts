@@ -0,0 +1,587 @@
+/**
+ * JSON body redaction - redacts fields of captured JSON bodies by key name or JSONPath
+ */
+
+import { createLogger } from "../logger";
+import {
+  DEFAULT_REDACTION_CONFIG,
+  HeaderRedactionStrategy,
+  hashRedactedValue,
+  redactHeaderValue,
+} from "./sensitive-headers";
+import type { BodyTruncationMarker } from "./body-truncation";
+
+const log = createLogger("[PingOps BodyRedaction]");
+
+/**
+ * Default key name patterns for sensitive JSON body fields.
+ * Matched case-insensitively, ignoring `_` and `-` (so `card_number` also matches `cardNumber`).
+ */
+export const DEFAULT_SENSITIVE_BODY_KEYS = [
+  "password",
+  "passwd",
+  "secret",
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "auth_token",
+  "api_key",
+  "apikey",
+  "private_key",
+  "client_secret",
+  "authorization",
+  "ssn",
+  "card_number",
+  "cvv",
+  "cvc",
+] as const;
+
+/**
+ * Configuration for JSON body redaction
+ */
+export interface BodyRedactionConfig {
+  /**
+   * Key name patterns of fields to redact, at any depth. A key matches if it
+   * contains a pattern, case-insensitively and ignoring `_` and `-`.
+   * Defaults to DEFAULT_SENSITIVE_BODY_KEYS if not provided
+   */
+  sensitiveKeys?: readonly string[];
+
+  /**
+   * JSONPath expressions of fields to redact, e.g. `$.user.email`,
+   * `$.cards[*].number`, `$.items[0].sku` or `$..iban`
+   */
+  jsonPaths?: readonly string[];
+
+  /**
+   * Redaction strategy to use
+   * @default HeaderRedactionStrategy.REPLACE
+   */
+  strategy?: HeaderRedactionStrategy;
+
+  /**
+   * Redaction string used when strategy is REPLACE
+   * @default "[REDACTED]"
+   */
+  redactionString?: string;
+
+  /**
+   * Number of characters to show when strategy is PARTIAL or PARTIAL_END
+   * @default 4
+   */
+  visibleChars?: number;
+
+  /**
+   * HMAC key used when strategy is HASH
+   * @default PINGOPS_REDACTION_HASH_KEY environment variable, or a random per-process key
+   */
+  hashKey?: string;
+
+  /**
+   * Whether to enable redaction
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+type PathSegment =
+  | { type: "key"; key: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" }
+  | { type: "descendant" };
+
+type JsonPath = Array<string | number>;
+
+/**
+ * Parses the supported JSONPath subset: `$`, `.key`, `['key']`, `[0]`, `[*]`, `.*` and `..`
+ *
+ * @returns Segments, or null if the expression is not supported
+ */
+function parseJsonPath(expression: string): PathSegment[] | null {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith("$")) {
+    return null;
+  }
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+  while (i < trimmed.length) {
+    if (trimmed.startsWith("..", i)) {
+      segments.push({ type: "descendant" });
+      i += 2;
+      // `$..key` has no dot before the key, read it here
+      const match = /^(\*|[^.[\]]+)/.exec(trimmed.slice(i));
+      if (match) {
+        segments.push(
+          match[1] === "*"
+            ? { type: "wildcard" }
+            : { type: "key", key: match[1] }
+        );
+        i += match[1].length;
+      }
+      continue;
+    }
+
+    if (trimmed[i] === ".") {
+      const match = /^(\*|[^.[\]]+)/.exec(trimmed.slice(i + 1));
+      if (!match) {
+        return null;
+      }
+      segments.push(
+        match[1] === "*" ? { type: "wildcard" } : { type: "key", key: match[1] }
+      );
+      i += 1 + match[1].length;
+      continue;
+    }
+
+    if (trimmed[i] === "[") {
+      const match = /^\[\s*(\*|\d+|'[^']*'|"[^"]*")\s*\]/.exec(
+        trimmed.slice(i)
+      );
+      if (!match) {
+        return null;
+      }
+      const value = match[1];
+      if (value === "*") {
+        segments.push({ type: "wildcard" });
+      } else if (/^\d+$/.test(value)) {
+        segments.push({ type: "index", index: Number(value) });
+      } else {
+        segments.push({ type: "key", key: value.slice(1, -1) });
+      }
+      i += match[0].length;
+      continue;
+    }
+
+    return null;
+  }
+  return segments;
+}
+
+/**
+ * Returns true if a concrete path matches the parsed JSONPath segments
+ */
+function matchesJsonPath(segments: PathSegment[], path: JsonPath): boolean {
+  if (segments.length === 0) {
+    return path.length === 0;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment.type === "descendant") {
+    // Zero or more levels between the previous segment and the next one
+    for (let skip = 0; skip <= path.length; skip++) {
+      if (matchesJsonPath(rest, path.slice(skip))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (path.length === 0) {
+    return false;
+  }
+  const [head, ...tail] = path;
+  const segmentMatches =
+    segment.type === "wildcard" ||
+    (segment.type === "key" && head === segment.key) ||
+    (segment.type === "index" && head === segment.index);
+  return segmentMatches && matchesJsonPath(rest, tail);
+}
+
+/**
+ * Normalizes a key for matching: lowercase, without `_` and `-`
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[_-]/g, "");
+}
+
+/**
+ * Checks if a JSON key matches any sensitive key pattern
+ */
+export function isSensitiveBodyKey(
+  key: string,
+  patterns: readonly string[] = DEFAULT_SENSITIVE_BODY_KEYS
+): boolean {
+  const normalizedKey = normalizeKey(key);
+  if (normalizedKey.length === 0) {
+    return false;
+  }
+  return patterns.some((pattern) => {
+    const normalizedPattern = normalizeKey(pattern);
+    return (
+      normalizedPattern.length > 0 && normalizedKey.includes(normalizedPattern)
+    );
+  });
+}
+
+type RedactionContext = {
+  sensitiveKeys: readonly string[];
+  jsonPaths: PathSegment[][];
+  strategy: HeaderRedactionStrategy;
+  redactionString: string;
+  visibleChars: number;
+  hashKey: string;
+  redactedCount: number;
+};
+
+/**
+ * Sentinel returned for values removed by the REMOVE strategy
+ */
+const REMOVED = Symbol("removed");
+
+function redactJsonValue(value: unknown, context: RedactionContext): unknown {
+  if (context.strategy === HeaderRedactionStrategy.REMOVE) {
+    return REMOVED;
+  }
+  if (context.strategy === HeaderRedactionStrategy.HASH) {
+    return hashRedactedValue(
+      typeof value === "string" ? value : JSON.stringify(value),
+      context.hashKey
+    );
+  }
+  // Only scalars can be partially shown, objects and arrays are fully replaced
+  if (
+    (context.strategy === HeaderRedactionStrategy.PARTIAL ||
+      context.strategy === HeaderRedactionStrategy.PARTIAL_END) &&
+    (typeof value === "string" || typeof value === "number")
+  ) {
+    return redactHeaderValue(String(value), {
+      ...DEFAULT_REDACTION_CONFIG,
+      strategy: context.strategy,
+      redactionString: context.redactionString,
+      visibleChars: context.visibleChars,
+    });
+  }
+  return context.redactionString;
+}
+
+function shouldRedact(
+  key: string | number,
+  path: JsonPath,
+  context: RedactionContext
+): boolean {
+  return (
+    (typeof key === "string" &&
+      isSensitiveBodyKey(key, context.sensitiveKeys)) ||
+    context.jsonPaths.some((segments) => matchesJsonPath(segments, path))
+  );
+}
+
+/**
+ * Redacts the child `key` of a node, or recurses into it
+ */
+function redactChild(
+  key: string | number,
+  value: unknown,
+  path: JsonPath,
+  context: RedactionContext
+): unknown {
+  const childPath = [...path, key];
+  if (shouldRedact(key, childPath, context)) {
+    context.redactedCount++;
+    return redactJsonValue(value, context);
+  }
+  return redactNode(value, childPath, context);
+}
+
+function redactNode(
+  value: unknown,
+  path: JsonPath,
+  context: RedactionContext
+): unknown {
+  if (Array.isArray(value)) {
+    return value
+      .map((item: unknown, index) => redactChild(index, item, path, context))
+      .filter((item) => item !== REMOVED);
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const redacted = redactChild(key, item, path, context);
+      if (redacted !== REMOVED) {
+        result[key] = redacted;
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function createRedactionContext(config: BodyRedactionConfig): RedactionContext {
+  const jsonPaths: PathSegment[][] = [];
+  for (const expression of config.jsonPaths ?? []) {
+    const segments = parseJsonPath(expression);
+    if (segments) {
+      jsonPaths.push(segments);
+    } else {
+      log.warn("Unsupported JSONPath expression, ignoring", { expression });
+    }
+  }
+
+  return {
+    sensitiveKeys: config.sensitiveKeys ?? DEFAULT_SENSITIVE_BODY_KEYS,
+    jsonPaths,
+    strategy: config.strategy ?? DEFAULT_REDACTION_CONFIG.strategy,
+    redactionString:
+      config.redactionString ?? DEFAULT_REDACTION_CONFIG.redactionString,
+    visibleChars: config.visibleChars ?? DEFAULT_REDACTION_CONFIG.visibleChars,
+    hashKey: config.hashKey ?? DEFAULT_REDACTION_CONFIG.hashKey,
+    redactedCount: 0,
+  };
+}
+
+/**
+ * Value of a sensitive key found in partial JSON text
+ */
+type PartialMatch = {
+  keyStart: number;
+  valueStart: number;
+  valueEnd: number;
+};
+
+/**
+ * Returns the index of the closing quote of a string starting at `from`, or
+ * the text length if the string is not closed
+ */
+function findStringEnd(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === '"') {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Returns the end of the JSON value starting at `from`, or the text length if
+ * the value is cut
+ */
+function findValueEnd(text: string, from: number): number {
+  const first = text[from];
+  if (first === '"') {
+    return Math.min(findStringEnd(text, from + 1) + 1, text.length);
+  }
+  if (first === "{" || first === "[") {
+    let depth = 0;
+    for (let i = from; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        i = findStringEnd(text, i + 1);
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if ((char === "}" || char === "]") && --depth === 0) {
+        return i + 1;
+      }
+    }
+    return text.length;
+  }
+  const end = /[,}\]\s]/.exec(text.slice(from));
+  return end ? from + end.index : text.length;
+}
+
+/**
+ * Finds the values of sensitive keys in partial JSON text
+ *
+ * @param inString - Whether the text starts inside a string, for text cut
+ * at an unknown position
+ */
+function findPartialMatches(
+  text: string,
+  sensitiveKeys: readonly string[],
+  inString: boolean
+): PartialMatch[] {
+  const matches: PartialMatch[] = [];
+  let i = inString ? 0 : text.indexOf('"');
+  let keyStart = inString ? 0 : i;
+  while (i !== -1 && i < text.length) {
+    const contentStart = inString ? i : i + 1;
+    const end = findStringEnd(text, contentStart);
+    const key = text.slice(contentStart, end);
+    let next = end + 1;
+    while (next < text.length && /\s/.test(text[next])) {
+      next++;
+    }
+    if (text[next] === ":" && isSensitiveBodyKey(key, sensitiveKeys)) {
+      let valueStart = next + 1;
+      while (valueStart < text.length && /\s/.test(text[valueStart])) {
+        valueStart++;
+      }
+      const valueEnd = findValueEnd(text, valueStart);
+      if (valueEnd > valueStart) {
+        matches.push({ keyStart, valueStart, valueEnd });
+      }
+      next = valueEnd;
+    }
+    inString = false;
+    i = text.indexOf('"', next);
+    keyStart = i;
+  }
+  return matches;
+}
+
+/**
+ * Returns the key names to redact in partial JSON, or null if a JSONPath
+ * expression names no key and cannot be applied
+ *
+ * Paths cannot be resolved in partial JSON, so the last key of each JSONPath
+ * expression is redacted at any depth.
+ */
+function getPartialSensitiveKeys(
+  context: RedactionContext
+): readonly string[] | null {
+  const keys = [...context.sensitiveKeys];
+  for (const segments of context.jsonPaths) {
+    const lastKey = segments.filter((segment) => segment.type === "key").pop();
+    if (!lastKey) {
+      return null;
+    }
+    keys.push(lastKey.key);
+  }
+  return keys;
+}
+
+/**
+ * Redacts the values of sensitive keys in a part of a JSON document
+ */
+function redactPartialText(
+  text: string,
+  sensitiveKeys: readonly string[],
+  inStringStates: boolean[],
+  context: RedactionContext
+): string {
+  const matches = inStringStates
+    .flatMap((inString) => findPartialMatches(text, sensitiveKeys, inString))
+    .sort((a, b) => a.keyStart - b.keyStart);
+
+  let result = "";
+  let position = 0;
+  for (const match of matches) {
+    // Matches of the two parsing states may overlap, keep the first one
+    if (match.keyStart < position) {
+      continue;
+    }
+    context.redactedCount++;
+    const raw = text.slice(match.valueStart, match.valueEnd);
+    if (context.strategy === HeaderRedactionStrategy.REMOVE) {
+      result += text.slice(position, match.keyStart);
+      position = match.valueEnd;
+      // Drop the separator following the removed member
+      const separator = /^\s*,\s*/.exec(text.slice(position));
+      position += separator ? separator[0].length : 0;
+      continue;
+    }
+
+    let value: unknown = raw.startsWith('"') ? raw.slice(1) : raw;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Cut value, redacted as text
+    }
+    result +=
+      text.slice(position, match.valueStart) +
+      JSON.stringify(redactJsonValue(value, context));
+    position = match.valueEnd;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Redacts sensitive keys of a JSON body that cannot be parsed, e.g. truncated
+ * or NDJSON
+ *
+ * The head of a truncated body is scanned from its start. Its tail, after the
+ * truncation marker, starts at an unknown position, possibly inside a string,
+ * so it is scanned both ways.
+ */
+function redactPartialJsonBody(
+  body: string,
+  context: RedactionContext,
+  truncationMarker?: BodyTruncationMarker
+): string {
+  const sensitiveKeys = getPartialSensitiveKeys(context);
+  if (!sensitiveKeys) {
+    log.debug("JSONPath redaction not applicable to partial body");
+    context.redactedCount++;
+    return context.redactionString;
+  }
+
+  if (!truncationMarker) {
+    return redactPartialText(body, sensitiveKeys, [false], context);
+  }
+  const [markerStart, markerEnd] = truncationMarker;
+  return (
+    redactPartialText(
+      body.slice(0, markerStart),
+      sensitiveKeys,
+      [false],
+      context
+    ) +
+    body.slice(markerStart, markerEnd) +
+    redactPartialText(
+      body.slice(markerEnd),
+      sensitiveKeys,
+      [false, true],
+      context
+    )
+  );
+}
+
+/**
+ * Redacts sensitive fields of a JSON body
+ *
+ * Bodies that are not JSON objects or arrays (e.g. base64-encoded bodies)
+ * are returned unchanged. JSON bodies that cannot be parsed, such as
+ * truncated bodies, get the values of their sensitive keys redacted in place.
+ *
+ * @param body - Captured body
+ * @param config - Body redaction configuration
+ * @param truncationMarker - Offsets of the truncation marker of a truncated
+ * body, whose head and tail are redacted separately
+ * @returns Redacted body, re-serialized if any field was redacted
+ */
+export function redactJsonBody(
+  body: string,
+  config: BodyRedactionConfig,
+  truncationMarker?: BodyTruncationMarker
+): string {
+  if (config.enabled === false) {
+    return body;
+  }
+
+  const trimmed = body.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+    return body;
+  }
+
+  const context = createRedactionContext(config);
+  let parsed: unknown;
+  try {
+    // The head and tail of a truncated body may parse together when the
+    // marker falls inside a string, but they are not one JSON document
+    parsed = truncationMarker ? undefined : JSON.parse(trimmed);
+  } catch {
+    parsed = undefined;
+  }
+  if (parsed === undefined) {
+    log.debug("Body is not valid JSON, redacting sensitive keys in place");
+    const redacted = redactPartialJsonBody(body, context, truncationMarker);
+    if (context.redactedCount > 0) {
+      log.debug("Body fields redacted", {
+        redactedCount: context.redactedCount,
+      });
+    }
+    return redacted;
+  }
+
+  const redacted = redactNode(parsed, [], context);
+  if (context.redactedCount === 0) {
+    return body;
+  }
+
+  log.debug("Body fields redacted", { redactedCount: context.redactedCount });
+  return JSON.stringify(redacted);
+}
@@ -0,0 +1,115 @@
+/**
+ * Truncated bodies - the marker recorded between the kept head and tail of a
+ * body exceeding its size limit, and the span attributes locating it
+ *
+ * Body capture writes the marker and its offsets; body redaction uses the
+ * offsets to redact the head and the tail separately, never the marker text.
+ */
+
+/**
+ * Offsets of the truncation marker in a request/response body: [start, end],
+ * set by the instrumentations along with a truncated body
+ */
+export const PINGOPS_HTTP_REQUEST_BODY_TRUNCATION_MARKER =
+  "pingops.http.request.body.truncation_marker";
+export const PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER =
+  "pingops.http.response.body.truncation_marker";
+
+/**
+ * Whether the request/response body was truncated, set in span payloads in
+ * place of the marker offsets, which redaction and PII scrubbing invalidate
+ */
+export const PINGOPS_HTTP_REQUEST_BODY_TRUNCATED =
+  "pingops.http.request.body.truncated";
+export const PINGOPS_HTTP_RESPONSE_BODY_TRUNCATED =
+  "pingops.http.response.body.truncated";
+
+/**
+ * Offsets of the truncation marker in a truncated body: [start, end]
+ */
+export type BodyTruncationMarker = readonly [start: number, end: number];
+
+/**
+ * Kept head and tail of a body, separated by the truncation marker
+ */
+export interface TruncatedBody {
+  body: string;
+  marker: BodyTruncationMarker;
+}
+
+/**
+ * Returns the marker separating the kept head and tail of a truncated body
+ *
+ * The size and omitted byte count are unknown for decompressed bodies, whose
+ * inflation stops at the size limit.
+ */
+export function formatTruncationMarker(
+  bodyType: "request" | "response",
+  size?: number,
+  omitted?: number
+): string {
+  return `[truncated ${bodyType} body; size=${size ?? "unknown"}; omitted=${omitted ?? "unknown"}]`;
+}
+
+/**
+ * Joins the kept head and tail of a body with the truncation marker
+ */
+export function createTruncatedBody(
+  bodyType: "request" | "response",
+  head: string,
+  tail: string,
+  size?: number,
+  omitted?: number
+): TruncatedBody {
+  const marker = formatTruncationMarker(bodyType, size, omitted);
+  return {
+    body: head + marker + tail,
+    marker: [head.length, head.length + marker.length],
+  };
+}
+
+/**
+ * Returns the span attributes locating the truncation marker of a body and
+ * flagging it as truncated
+ */
+export function getBodyTruncationAttributes(bodyType: "request" | "response"): {
+  marker: string;
+  truncated: string;
+} {
+  return bodyType === "request"
+    ? {
+        marker: PINGOPS_HTTP_REQUEST_BODY_TRUNCATION_MARKER,
+        truncated: PINGOPS_HTTP_REQUEST_BODY_TRUNCATED,
+      }
+    : {
+        marker: PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER,
+        truncated: PINGOPS_HTTP_RESPONSE_BODY_TRUNCATED,
+      };
+}
+
+/**
+ * Reads the truncation marker offsets of a body from their span attribute
+ *
+ * @param body - Recorded body
+ * @param value - Value of the truncation marker attribute
+ * @returns The offsets, or undefined if unset or not within the body
+ */
+export function getBodyTruncationMarker(
+  body: string,
+  value: unknown
+): BodyTruncationMarker | undefined {
+  if (!Array.isArray(value) || value.length !== 2) {
+    return undefined;
+  }
+  const [start, end] = value as unknown[];
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(end) ||
+    (start as number) < 0 ||
+    (start as number) > (end as number) ||
+    (end as number) > body.length
+  ) {
+    return undefined;
+  }
+  return [start as number, end as number];
+}
@@ -0,0 +1,141 @@
+/**
+ * Content-type filtering - decides which request/response bodies are captured
+ * based on their media type
+ */
+
+import { createLogger } from "../logger";
+
+const log = createLogger("[PingOps ContentTypeFilter]");
+
+/**
+ * Media types that are always binary, whatever the body looks like
+ */
+const BINARY_CONTENT_TYPE_PATTERNS = [
+  "image/*",
+  "audio/*",
+  "video/*",
+  "font/*",
+  "application/octet-stream",
+  "application/pdf",
+  "application/zip",
+  "application/gzip",
+  "application/x-protobuf",
+  "application/protobuf",
+  "application/vnd.google.protobuf",
+  "application/grpc",
+  "application/grpc+proto",
+  "application/msgpack",
+  "application/x-msgpack",
+  "application/cbor",
+  "application/wasm",
+];
+
+/**
+ * Media types that are always text
+ */
+const TEXT_CONTENT_TYPE_PATTERNS = [
+  "text/*",
+  "application/json",
+  "application/*+json",
+  "application/xml",
+  "application/*+xml",
+  "application/javascript",
+  "application/x-www-form-urlencoded",
+  "application/graphql",
+  "application/x-ndjson",
+];
+
+/**
+ * Extracts the lowercased media type of a content-type header value
+ * (e.g. `application/json; charset=utf-8` gives `application/json`)
+ */
+export function getMediaType(contentType: unknown): string | undefined {
+  const value: unknown = Array.isArray(contentType)
+    ? contentType[0]
+    : contentType;
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const mediaType = value.split(";")[0].trim().toLowerCase();
+  return mediaType || undefined;
+}
+
+/**
+ * Checks if a media type matches a pattern: exact (`application/json`) or
+ * glob, where `*` matches any characters except `/` (`text/*`, `application/*+json`)
+ */
+function mediaTypeMatches(mediaType: string, pattern: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  if (!normalizedPattern.includes("*")) {
+    return mediaType === normalizedPattern;
+  }
+  const source = normalizedPattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^/]*");
+  return new RegExp(`^${source}$`).test(mediaType);
+}
+
+function matchesAny(mediaType: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => mediaTypeMatches(mediaType, pattern));
+}
+
+/**
+ * Determines if a body should be captured based on its content type
+ * - Deny list always wins
+ * - Allow list filters captured bodies (if specified, only capture these;
+ *   bodies without content type are not captured)
+ *
+ * @param contentType - Content-type header value
+ * @param bodyContentTypesAllowList - Optional media type patterns to capture
+ * @param bodyContentTypesDenyList - Optional media type patterns to never capture
+ * @returns true if the body should be captured
+ */
+export function isBodyContentTypeAllowed(
+  contentType: unknown,
+  bodyContentTypesAllowList?: string[],
+  bodyContentTypesDenyList?: string[]
+): boolean {
+  const mediaType = getMediaType(contentType);
+  if (
+    mediaType &&
+    bodyContentTypesDenyList &&
+    matchesAny(mediaType, bodyContentTypesDenyList)
+  ) {
+    log.debug("Body content type denied by deny list", { mediaType });
+    return false;
+  }
+  if (bodyContentTypesAllowList && bodyContentTypesAllowList.length > 0) {
+    const allowed =
+      mediaType !== undefined &&
+      matchesAny(mediaType, bodyContentTypesAllowList);
+    if (!allowed) {
+      log.debug("Body content type excluded (not in allow list)", {
+        mediaType,
+      });
+    }
+    return allowed;
+  }
+  return true;
+}
+
+/**
+ * Classifies a content type as binary or text
+ *
+ * @returns true for binary media types (images, PDFs, protobuf...), false for
+ * text media types (JSON, XML, forms...), undefined if the content type does
+ * not tell (missing or unknown)
+ */
+export function isBinaryContentType(contentType: unknown): boolean | undefined {
+  const mediaType = getMediaType(contentType);
+  if (!mediaType) {
+    return undefined;
+  }
+  if (matchesAny(mediaType, BINARY_CONTENT_TYPE_PATTERNS)) {
+    return true;
+  }
+  if (matchesAny(mediaType, TEXT_CONTENT_TYPE_PATTERNS)) {
+    return false;
+  }
+  return undefined;
+}
@@ -1,155 +1,416 @@
 /**
- * Domain filtering logic - applies allow/deny list rules
+ * Domain rule matching - compiled matchers for the domain, path and request
+ * conditions of domain rules
  */
 
+import { BlockList, isIP } from "node:net";
 import type { DomainRule } from "../types";
 import { createLogger } from "../logger";
 
 const log = createLogger("[PingOps DomainFilter]");
 
 /**
- * Extracts domain from a URL
+ * Request properties matched by the `methods`, `statusCodes`, `ports` and
+ * `schemes` conditions of domain rules
  */
-function extractDomain(url: string): string {
+export interface DomainRuleRequest {
+  /**
+   * HTTP method (case-insensitive)
+   */
+  method?: string;
+  /**
+   * HTTP response status code, if a response was received
+   */
+  statusCode?: number;
+  /**
+   * Port, defaults to the port of the URL (or the default port of its scheme)
+   */
+  port?: number;
+  /**
+   * URL scheme without `:` (e.g. `https`), defaults to the scheme of the URL
+   */
+  scheme?: string;
+}
+
+/**
+ * Precompiled matchers of a domain rule
+ */
+interface CompiledDomainRule {
+  matchesDomain: (domain: string) => boolean;
+  matchesPath: (path: string) => boolean;
+  matchesRequest: (request: DomainRuleRequest) => boolean;
+  matchesRequestAnyStatus: (request: DomainRuleRequest) => boolean;
+}
+
+const DEFAULT_PORTS: Record<string, number> = { http: 80, https: 443 };
+
+/**
+ * Private, loopback and link-local ranges (RFC 1918, RFC 6598, RFC 4193, RFC 3927)
+ */
+export const PRIVATE_NETWORK_CIDRS = [
+  "10.0.0.0/8",
+  "172.16.0.0/12",
+  "192.168.0.0/16",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+] as const;
+
+/**
+ * Deny list rules matching requests to private networks: IP literals in
+ * PRIVATE_NETWORK_CIDRS and `localhost`. Hostnames are not resolved.
+ */
+export const PRIVATE_NETWORK_RULES: readonly DomainRule[] = [
+  { cidrs: [...PRIVATE_NETWORK_CIDRS] },
+  { domain: ".localhost" },
+];
+
+/**
+ * Compiled matchers, keyed by rule so each rule is compiled once
+ */
+const compiledRules = new WeakMap<DomainRule, CompiledDomainRule>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a glob to a regular expression source
+ * `*` matches one or more characters except the separator, `**` matches anything
+ */
+function globToRegExpSource(glob: string, separator: string): string {
+  return glob
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map(escapeRegExp)
+        .join(`[^${escapeRegExp(separator)}]+`)
+    )
+    .join(".*");
+}
+
+/**
+ * Compiles a regex given as RegExp or string, logging invalid patterns
+ */
+function compileRegExp(
+  pattern: RegExp | string,
+  field: string
+): RegExp | undefined {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
   try {
-    const urlObj = new URL(url);
-    const domain = urlObj.hostname;
-    log.debug("Extracted domain from URL", { url, domain });
-    return domain;
-  } catch {
-    // If URL parsing fails, try to extract domain from string
-    const match = url.match(/^(?:https?:\/\/)?([^/]+)/);
-    const domain = match ? match[1] : "";
-    log.debug("Extracted domain from URL (fallback)", { url, domain });
-    return domain;
+    return new RegExp(pattern);
+  } catch (error) {
+    log.warn("Invalid regular expression in domain rule, rule ignored", {
+      field,
+      pattern,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
   }
 }
 
 /**
- * Checks if a domain matches a rule (exact or suffix match)
+ * Returns the IP address and family of an IP literal hostname (IPv6 may be
+ * in brackets), or undefined for other hostnames
  */
-function domainMatches(domain: string, ruleDomain: string): boolean {
-  // Exact match
-  if (domain === ruleDomain) {
-    log.debug("Domain exact match", { domain, ruleDomain });
-    return true;
+function parseIpLiteral(
+  hostname: string
+): { address: string; family: "ipv4" | "ipv6" } | undefined {
+  const address = hostname.replace(/^\[(.*)\]$/, "$1");
+  const version = isIP(address);
+  if (version === 0) {
+    return undefined;
   }
+  return { address, family: version === 4 ? "ipv4" : "ipv6" };
+}
 
-  // Suffix match (e.g., .github.com matches api.github.com)
-  if (ruleDomain.startsWith(".")) {
-    const matches =
-      domain.endsWith(ruleDomain) || domain === ruleDomain.slice(1);
-    log.debug("Domain suffix match check", { domain, ruleDomain, matches });
-    return matches;
+/**
+ * Compiles CIDR ranges (e.g. `10.0.0.0/8`, `fd00::/8`) into an IP literal matcher
+ * An address without prefix length matches that address only
+ */
+function compileCidrs(cidrs: string[]): (domain: string) => boolean {
+  const blockList = new BlockList();
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.trim().split("/");
+    const ip = parseIpLiteral(network);
+    const maxPrefix = ip?.family === "ipv4" ? 32 : 128;
+    const prefixLength = prefix === undefined ? maxPrefix : Number(prefix);
+    if (
+      !ip ||
+      !Number.isInteger(prefixLength) ||
+      prefixLength < 0 ||
+      prefixLength > maxPrefix
+    ) {
+      log.warn("Invalid CIDR in domain rule, range ignored", { cidr });
+      continue;
+    }
+    blockList.addSubnet(ip.address, prefixLength, ip.family);
   }
-
-  log.debug("Domain does not match", { domain, ruleDomain });
-  return false;
+  return (domain) => {
+    const ip = parseIpLiteral(domain);
+    return ip !== undefined && blockList.check(ip.address, ip.family);
+  };
 }
 
 /**
- * Checks if a path matches any of the allowed paths (prefix match)
+ * Compiles the `domain` of a rule: exact, suffix (leading dot) or glob match
  */
-function pathMatches(path: string, allowedPaths?: string[]): boolean {
-  if (!allowedPaths || allowedPaths.length === 0) {
-    log.debug("No path restrictions, all paths match", { path });
-    return true; // No path restrictions means all paths match
+function compileDomainPattern(ruleDomain: string): (domain: string) => boolean {
+  // Suffix match (e.g., .github.com matches github.com and api.github.com)
+  const isSuffix = ruleDomain.startsWith(".");
+  const pattern = isSuffix ? ruleDomain.slice(1) : ruleDomain;
+
+  if (!pattern.includes("*")) {
+    const normalizedPattern = pattern.toLowerCase();
+    return (domain) => {
+      const normalizedDomain = domain.toLowerCase();
+      return (
+        normalizedDomain === normalizedPattern ||
+        (isSuffix && normalizedDomain.endsWith(`.${normalizedPattern}`))
+      );
+    };
   }
 
-  const matches = allowedPaths.some((allowedPath) =>
-    path.startsWith(allowedPath)
+  const regex = new RegExp(
+    `^${isSuffix ? "(?:.+\\.)?" : ""}${globToRegExpSource(pattern, ".")}$`,
+    "i"
   );
-  log.debug("Path match check", { path, allowedPaths, matches });
+  return (domain) => regex.test(domain);
+}
+
+/**
+ * Compiles a path prefix, glob or not
+ */
+function compilePathPattern(allowedPath: string): (path: string) => boolean {
+  if (!allowedPath.includes("*")) {
+    return (path) => path.startsWith(allowedPath);
+  }
+  const regex = new RegExp(`^${globToRegExpSource(allowedPath, "/")}`);
+  return (path) => regex.test(path);
+}
+
+/**
+ * Compiles a status code condition: exact code (`404`), class (`5xx`) or
+ * inclusive range (`400-499`)
+ */
+function compileStatusCode(
+  statusCode: number | string
+): (code: number) => boolean {
+  if (typeof statusCode === "number") {
+    return (code) => code === statusCode;
+  }
+  const value = statusCode.trim().toLowerCase();
+  const classMatch = value.match(/^([1-5])xx$/);
+  if (classMatch) {
+    const statusClass = Number(classMatch[1]);
+    return (code) => Math.floor(code / 100) === statusClass;
+  }
+  const rangeMatch = value.match(/^(\d{3})\s*-\s*(\d{3})$/);
+  if (rangeMatch) {
+    const min = Number(rangeMatch[1]);
+    const max = Number(rangeMatch[2]);
+    return (code) => code >= min && code <= max;
+  }
+  if (/^\d{3}$/.test(value)) {
+    const exact = Number(value);
+    return (code) => code === exact;
+  }
+  log.warn("Invalid status code in domain rule, condition never matches", {
+    statusCode,
+  });
+  return () => false;
+}
+
+/**
+ * Compiles the matchers of a domain rule
+ * Every condition set on the rule must match; a rule without domain condition matches no domain
+ */
+function compileDomainRule(rule: DomainRule): CompiledDomainRule {
+  const domainMatchers: Array<(domain: string) => boolean> = [];
+  if (rule.domain) {
+    domainMatchers.push(compileDomainPattern(rule.domain));
+  }
+  if (rule.domainRegex !== undefined) {
+    const regex = compileRegExp(rule.domainRegex, "domainRegex");
+    domainMatchers.push(regex ? (domain) => regex.test(domain) : () => false);
+  }
+  if (rule.cidrs && rule.cidrs.length > 0) {
+    domainMatchers.push(compileCidrs(rule.cidrs));
+  }
+
+  const pathMatchers: Array<(path: string) => boolean> = [];
+  if (rule.paths && rule.paths.length > 0) {
+    const prefixMatchers = rule.paths.map(compilePathPattern);
+    pathMatchers.push((path) =>
+      prefixMatchers.some((matchesPrefix) => matchesPrefix(path))
+    );
+  }
+  if (rule.pathRegex !== undefined) {
+    const regex = compileRegExp(rule.pathRegex, "pathRegex");
+    pathMatchers.push(regex ? (path) => regex.test(path) : () => false);
+  }
+
+  const requestMatchers: Array<(request: DomainRuleRequest) => boolean> = [];
+  if (rule.methods && rule.methods.length > 0) {
+    const methods = rule.methods.map((method) => method.toUpperCase());
+    requestMatchers.push(
+      (request) =>
+        request.method !== undefined &&
+        methods.includes(request.method.toUpperCase())
+    );
+  }
+  let matchesStatusCode = (_request: DomainRuleRequest) => true;
+  if (rule.statusCodes && rule.statusCodes.length > 0) {
+    const statusMatchers = rule.statusCodes.map(compileStatusCode);
+    matchesStatusCode = (request) => {
+      const statusCode = request.statusCode;
+      return (
+        statusCode !== undefined &&
+        statusMatchers.some((matches) => matches(statusCode))
+      );
+    };
+  }
+  if (rule.ports && rule.ports.length > 0) {
+    const ports = rule.ports;
+    requestMatchers.push(
+      (request) => request.port !== undefined && ports.includes(request.port)
+    );
+  }
+  if (rule.schemes && rule.schemes.length > 0) {
+    const schemes = rule.schemes.map((scheme) =>
+      scheme.toLowerCase().replace(/:$/, "")
+    );
+    requestMatchers.push(
+      (request) =>
+        request.scheme !== undefined &&
+        schemes.includes(request.scheme.toLowerCase())
+    );
+  }
+
+  return {
+    matchesDomain: (domain) =>
+      domainMatchers.length > 0 &&
+      domainMatchers.every((matches) => matches(domain)),
+    // No path restrictions means all paths match
+    matchesPath: (path) => pathMatchers.every((matches) => matches(path)),
+    // No conditions means all requests match
+    matchesRequest: (request) =>
+      matchesStatusCode(request) &&
+      requestMatchers.every((matches) => matches(request)),
+    matchesRequestAnyStatus: (request) =>
+      requestMatchers.every((matches) => matches(request)),
+  };
+}
+
+function getCompiledDomainRule(rule: DomainRule): CompiledDomainRule {
+  let compiled = compiledRules.get(rule);
+  if (!compiled) {
+    compiled = compileDomainRule(rule);
+    compiledRules.set(rule, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Checks if a hostname matches the `domain`, `domainRegex` and `cidrs` of a rule
+ */
+export function domainRuleMatches(rule: DomainRule, domain: string): boolean {
+  const matches = getCompiledDomainRule(rule).matchesDomain(domain);
+  log.debug("Domain match check", {
+    domain,
+    ruleDomain: rule.domain,
+    ruleDomainRegex: rule.domainRegex?.toString(),
+    ruleCidrs: rule.cidrs,
+    matches,
+  });
+  return matches;
+}
+
+/**
+ * Checks if a path matches the `paths` and `pathRegex` of a rule
+ */
+export function domainRulePathMatches(rule: DomainRule, path: string): boolean {
+  const matches = getCompiledDomainRule(rule).matchesPath(path);
+  log.debug("Path match check", {
+    path,
+    allowedPaths: rule.paths,
+    pathRegex: rule.pathRegex?.toString(),
+    matches,
+  });
   return matches;
 }
 
 /**
- * Determines if a span should be captured based on domain rules
+ * Checks if a request matches the `methods`, `statusCodes`, `ports` and
+ * `schemes` of a rule. A condition on a property that is not known (e.g. no
+ * status code) does not match.
  */
-export function shouldCaptureSpan(
-  url: string,
-  domainAllowList?: DomainRule[],
-  domainDenyList?: DomainRule[]
+export function domainRuleRequestMatches(
+  rule: DomainRule,
+  request: DomainRuleRequest
 ): boolean {
-  log.debug("Checking domain filter rules", {
-    url,
-    hasAllowList: !!domainAllowList && domainAllowList.length > 0,
-    hasDenyList: !!domainDenyList && domainDenyList.length > 0,
-    allowListCount: domainAllowList?.length || 0,
-    denyListCount: domainDenyList?.length || 0,
+  const matches = getCompiledDomainRule(rule).matchesRequest(request);
+  log.debug("Request conditions match check", {
+    request,
+    methods: rule.methods,
+    statusCodes: rule.statusCodes,
+    ports: rule.ports,
+    schemes: rule.schemes,
+    matches,
   });
+  return matches;
+}
 
-  const domain = extractDomain(url);
+/**
+ * Checks if a request matches the `methods`, `ports` and `schemes` of a rule,
+ * ignoring its `statusCodes`, e.g. before the response is received
+ */
+export function domainRuleRequestMatchesAnyStatus(
+  rule: DomainRule,
+  request: DomainRuleRequest
+): boolean {
+  return getCompiledDomainRule(rule).matchesRequestAnyStatus(request);
+}
+
+/**
+ * Parts of a request URL matched by domain rules
+ */
+export interface DomainRuleLocation {
+  domain: string;
+  path: string;
+  scheme?: string;
+  port?: number;
+}
 
-  // Extract path from URL
-  let path = "/";
+/**
+ * Extracts the domain, path, scheme and port of a URL
+ * Falls back to string parsing for URLs without scheme
+ */
+export function parseRuleLocation(url: string): DomainRuleLocation {
   try {
     const urlObj = new URL(url);
-    path = urlObj.pathname;
+    const scheme = urlObj.protocol.slice(0, -1);
+    return {
+      domain: urlObj.hostname,
+      path: urlObj.pathname,
+      scheme,
+      port: urlObj.port ? Number(urlObj.port) : DEFAULT_PORTS[scheme],
+    };
   } catch {
-    // If URL parsing fails, try to extract path from string
+    // If URL parsing fails, try to extract domain and path from string
+    const domainMatch = url.match(/^(?:https?:\/\/)?(\[[^\]]*\]|[^/:]+)/);
     const pathMatch = url.match(/^(?:https?:\/\/)?[^/]+(\/.*)?$/);
-    path = pathMatch && pathMatch[1] ? pathMatch[1] : "/";
-  }
-
-  log.debug("Extracted domain and path", { url, domain, path });
-
-  // Deny list is evaluated first - if domain is denied, don't capture
-  if (domainDenyList) {
-    for (const rule of domainDenyList) {
-      if (domainMatches(domain, rule.domain)) {
-        log.info("Domain denied by deny list", {
-          domain,
-          ruleDomain: rule.domain,
-          url,
-        });
-        return false;
-      }
-    }
-    log.debug("Domain passed deny list check", { domain });
-  }
-
-  // If no allow list, capture all (except denied)
-  if (!domainAllowList || domainAllowList.length === 0) {
-    log.debug("No allow list configured, capturing span", { domain, url });
-    return true;
-  }
-
-  // Check if domain matches any allow list rule
-  for (const rule of domainAllowList) {
-    if (domainMatches(domain, rule.domain)) {
-      // If paths are specified, check path match
-      if (rule.paths && rule.paths.length > 0) {
-        const pathMatch = pathMatches(path, rule.paths);
-        if (pathMatch) {
-          log.info("Domain and path allowed by allow list", {
-            domain,
-            ruleDomain: rule.domain,
-            path,
-            allowedPaths: rule.paths,
-            url,
-          });
-          return true;
-        } else {
-          log.debug("Domain allowed but path not matched", {
-            domain,
-            ruleDomain: rule.domain,
-            path,
-            allowedPaths: rule.paths,
-          });
-        }
-      } else {
-        log.info("Domain allowed by allow list", {
-          domain,
-          ruleDomain: rule.domain,
-          url,
-        });
-        return true;
-      }
-    }
+    const location = {
+      domain: domainMatch ? domainMatch[1] : "",
+      path: pathMatch && pathMatch[1] ? pathMatch[1] : "/",
+    };
+    log.debug("Parsed URL with fallback", { url, ...location });
+    return location;
   }
-
-  // Domain not in allow list
-  log.info("Domain not in allow list, filtering out", { domain, url });
-  return false;
 }
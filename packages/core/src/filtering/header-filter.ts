@@ -3,9 +3,14 @@
  */
 
 import { createLogger } from "../logger";
-import type { HeaderRedactionConfig } from "./sensitive-headers";
+import type {
+  HeaderRedactionConfig,
+  SecretValueKind,
+} from "./sensitive-headers";
 import {
   DEFAULT_REDACTION_CONFIG,
+  detectSecretValue,
+  isSensitiveCookie,
   isSensitiveHeader,
   redactHeaderValue,
   HeaderRedactionStrategy,
@@ -25,6 +30,83 @@ function toHeaderString(value: unknown): string | undefined {
   return undefined;
 }
 
+/**
+ * Entry of the secret value detection report
+ */
+export interface SecretValueDetection {
+  /**
+   * Header name, lowercased
+   */
+  headerName: string;
+  /**
+   * Kind of secret detected in the value
+   */
+  kind: SecretValueKind;
+  /**
+   * Number of values redacted since the process started (or the last reset)
+   */
+  count: number;
+}
+
+/**
+ * Headers redacted by value, keyed by `<headerName>:<kind>`
+ */
+const secretValueDetections = new Map<string, SecretValueDetection>();
+
+function recordSecretValueDetection(
+  headerName: string,
+  kind: SecretValueKind
+): void {
+  const normalizedName = normalizeHeaderName(headerName);
+  const key = `${normalizedName}:${kind}`;
+  const existing = secretValueDetections.get(key);
+  if (existing) {
+    existing.count++;
+  } else {
+    secretValueDetections.set(key, {
+      headerName: normalizedName,
+      kind,
+      count: 1,
+    });
+  }
+}
+
+/**
+ * Returns the headers redacted because their value looked like a secret
+ * (see `HeaderRedactionConfig.detectSecretValues`), most frequent first.
+ * Use it to spot false positives and tune the redaction rules.
+ */
+export function getSecretValueDetectionReport(): SecretValueDetection[] {
+  return [...secretValueDetections.values()]
+    .map((detection) => ({ ...detection }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Clears the secret value detection report
+ */
+export function resetSecretValueDetectionReport(): void {
+  secretValueDetections.clear();
+}
+
+/**
+ * Returns the kind of secret found in a header value, if any
+ */
+function detectSecretHeaderValue(
+  value: string | string[] | undefined
+): SecretValueKind | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  for (const item of values) {
+    if (typeof item === "string") {
+      const kind = detectSecretValue(item);
+      if (kind) {
+        return kind;
+      }
+    }
+  }
+  return undefined;
+}
+
 /**
  * Normalizes header name to lowercase for case-insensitive matching
  */
@@ -56,15 +138,110 @@ function mergeRedactionConfig(
     redactionString:
       config.redactionString ?? DEFAULT_REDACTION_CONFIG.redactionString,
     visibleChars: config.visibleChars ?? DEFAULT_REDACTION_CONFIG.visibleChars,
+    hashKey: config.hashKey ?? DEFAULT_REDACTION_CONFIG.hashKey,
+    detectSecretValues:
+      config.detectSecretValues ?? DEFAULT_REDACTION_CONFIG.detectSecretValues,
+    cookies: config.cookies ?? DEFAULT_REDACTION_CONFIG.cookies,
     enabled: config.enabled ?? DEFAULT_REDACTION_CONFIG.enabled,
   };
 }
 
+/**
+ * Redacts the name=value pair of a cookie if the cookie is sensitive, or if
+ * its value looks like a secret and the cookie is not allow listed
+ *
+ * @returns The (possibly redacted) pair, or undefined if it should be removed
+ */
+function redactCookiePair(
+  pair: string,
+  redaction: Required<HeaderRedactionConfig>
+): string | undefined {
+  const separatorIndex = pair.indexOf("=");
+  if (separatorIndex === -1) {
+    return pair;
+  }
+  const cookieName = pair.slice(0, separatorIndex).trim();
+  const cookieValue = pair.slice(separatorIndex + 1);
+  const isAllowListed = redaction.cookies.allowList?.some(
+    (name) => name.toLowerCase() === cookieName.toLowerCase()
+  );
+  if (
+    !isSensitiveCookie(cookieName, redaction.cookies) &&
+    (isAllowListed || detectSecretValue(cookieValue) === undefined)
+  ) {
+    return pair;
+  }
+  if (redaction.strategy === HeaderRedactionStrategy.REMOVE) {
+    return undefined;
+  }
+  const redactedValue = redactHeaderValue(cookieValue, redaction) as string;
+  return `${cookieName}=${redactedValue}`;
+}
+
+/**
+ * Redacts the values of sensitive cookies in a Cookie or Set-Cookie header value
+ * - Cookie: every `name=value` pair of the list is checked
+ * - Set-Cookie: only the leading `name=value` pair is checked, attributes
+ *   (Path, Max-Age, SameSite...) are kept as is
+ *
+ * @returns The redacted value, or undefined if nothing is left
+ */
+function redactCookieValue(
+  value: string,
+  isSetCookie: boolean,
+  redaction: Required<HeaderRedactionConfig>
+): string | undefined {
+  if (isSetCookie) {
+    const attributesIndex = value.indexOf(";");
+    const pair =
+      attributesIndex === -1 ? value : value.slice(0, attributesIndex);
+    const redactedPair = redactCookiePair(pair, redaction);
+    if (redactedPair === undefined) {
+      return undefined;
+    }
+    return attributesIndex === -1
+      ? redactedPair
+      : redactedPair + value.slice(attributesIndex);
+  }
+
+  const pairs = value
+    .split(";")
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.length > 0)
+    .map((pair) => redactCookiePair(pair, redaction))
+    .filter((pair): pair is string => pair !== undefined);
+  return pairs.length > 0 ? pairs.join("; ") : undefined;
+}
+
+/**
+ * Redacts sensitive cookies of a Cookie or Set-Cookie header
+ *
+ * @returns The redacted header value, or undefined if no cookie is left
+ */
+function redactCookieHeader(
+  value: string | string[] | undefined,
+  isSetCookie: boolean,
+  redaction: Required<HeaderRedactionConfig>
+): string | string[] | undefined {
+  if (typeof value === "string") {
+    return redactCookieValue(value, isSetCookie, redaction);
+  }
+  if (Array.isArray(value)) {
+    const redacted = value
+      .map((item) => redactCookieValue(item, isSetCookie, redaction))
+      .filter((item): item is string => item !== undefined);
+    return redacted.length > 0 ? redacted : undefined;
+  }
+  return value;
+}
+
 /**
  * Filters headers based on allow/deny lists and applies redaction to sensitive headers
  * - Deny list always wins (if header is in deny list, exclude it)
  * - Allow list filters included headers (if specified, only include these)
  * - Sensitive headers are redacted after filtering (if redaction is enabled)
+ * - Cookie and Set-Cookie headers are redacted cookie by cookie if cookies is set (and cookies.enabled is not false)
+ * - Headers whose value looks like a secret are redacted too (if detectSecretValues is enabled)
  * - Case-insensitive matching
  *
  * @param headers - Headers to filter
@@ -99,6 +276,8 @@ export function filterHeaders(
   const deniedHeaders: string[] = [];
   const excludedHeaders: string[] = [];
   const redactedHeaders: string[] = [];
+  const redactedByValue: Array<{ headerName: string; kind: SecretValueKind }> =
+    [];
 
   for (const [name, value] of Object.entries(headers)) {
     const normalizedName = normalizeHeaderName(name);
@@ -125,21 +304,64 @@ export function filterHeaders(
       try {
         // Check if header matches sensitive patterns
         if (isSensitiveHeader(name, redaction.sensitivePatterns)) {
-          // Handle REMOVE strategy at filter level
-          if (redaction.strategy === HeaderRedactionStrategy.REMOVE) {
+          // Cookie headers keep cookie names and non-sensitive cookies
+          if (
+            (normalizedName === "cookie" || normalizedName === "set-cookie") &&
+            redaction.cookies.enabled !== false
+          ) {
+            finalValue = redactCookieHeader(
+              value,
+              normalizedName === "set-cookie",
+              redaction
+            );
+            if (finalValue === undefined) {
+              log.debug("Cookie header removed, no cookie left", {
+                headerName: name,
+              });
+              continue;
+            }
+            redactedHeaders.push(name);
+            log.debug("Sensitive cookie values redacted", {
+              headerName: name,
+              strategy: redaction.strategy,
+            });
+          } else if (redaction.strategy === HeaderRedactionStrategy.REMOVE) {
+            // Handle REMOVE strategy at filter level
             log.debug("Header removed by redaction strategy", {
               headerName: name,
             });
             continue;
+          } else {
+            // Redact the value
+            finalValue = redactHeaderValue(value, redaction);
+            redactedHeaders.push(name);
+            log.debug("Header value redacted", {
+              headerName: name,
+              strategy: redaction.strategy,
+            });
+          }
+        } else if (redaction.detectSecretValues) {
+          // Header name looks harmless, check whether the value is a secret
+          const kind = detectSecretHeaderValue(value);
+          if (kind) {
+            recordSecretValueDetection(name, kind);
+            redactedByValue.push({ headerName: name, kind });
+            if (redaction.strategy === HeaderRedactionStrategy.REMOVE) {
+              log.debug("Header removed by secret value detection", {
+                headerName: name,
+                kind,
+              });
+              continue;
+            }
+
+            finalValue = redactHeaderValue(value, redaction);
+            redactedHeaders.push(name);
+            log.debug("Header value redacted by secret value detection", {
+              headerName: name,
+              kind,
+              strategy: redaction.strategy,
+            });
           }
-
-          // Redact the value
-          finalValue = redactHeaderValue(value, redaction);
-          redactedHeaders.push(name);
-          log.debug("Header value redacted", {
-            headerName: name,
-            strategy: redaction.strategy,
-          });
         }
       } catch (error) {
         // Log error but don't fail - use original value as fallback
@@ -164,6 +386,7 @@ export function filterHeaders(
     deniedHeaders: deniedHeaders.length > 0 ? deniedHeaders : undefined,
     excludedHeaders: excludedHeaders.length > 0 ? excludedHeaders : undefined,
     redactedHeaders: redactedHeaders.length > 0 ? redactedHeaders : undefined,
+    redactedByValue: redactedByValue.length > 0 ? redactedByValue : undefined,
   });
 
   return filtered;
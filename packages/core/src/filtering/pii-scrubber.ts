@@ -0,0 +1,336 @@
+/**
+ * PII scrubbing - masks PII patterns in captured bodies, URLs and query strings
+ */
+
+import { createLogger } from "../logger";
+import { HTTP_RESPONSE_CONTENT_ENCODING } from "./body-decoder";
+
+const log = createLogger("[PingOps PiiScrubber]");
+
+/**
+ * Named pattern detecting a kind of PII
+ */
+export interface PiiPattern {
+  /**
+   * Pattern name, used in the default replacement (`[REDACTED:<name>]`)
+   */
+  name: string;
+
+  /**
+   * Pattern to detect. Always applied globally.
+   */
+  pattern: RegExp;
+
+  /**
+   * Optional check of a match (e.g. a checksum) to reduce false positives
+   */
+  validate?: (match: string) => boolean;
+
+  /**
+   * Replacement for matches of this pattern, overrides `PiiScrubbingConfig.replacement`
+   */
+  replacement?: string;
+}
+
+/**
+ * Names of the built-in PII patterns
+ */
+export type BuiltInPiiPatternName =
+  | "jwt"
+  | "awsAccessKey"
+  | "email"
+  | "creditCard"
+  | "iban"
+  | "phone";
+
+/**
+ * Configuration for PII scrubbing
+ */
+export interface PiiScrubbingConfig {
+  /**
+   * Built-in patterns to apply.
+   * Defaults to all built-in patterns if not provided
+   */
+  patterns?: BuiltInPiiPatternName[];
+
+  /**
+   * Additional named patterns, applied after the built-in ones
+   */
+  customPatterns?: PiiPattern[];
+
+  /**
+   * Replacement for matches. Defaults to `[REDACTED:<pattern name>]`
+   */
+  replacement?: string;
+
+  /**
+   * Whether to scrub request and response bodies.
+   * Bodies that cannot be scrubbed (sent base64-encoded) are removed.
+   * @default true
+   */
+  scrubBodies?: boolean;
+
+  /**
+   * Whether to scrub URLs and query strings
+   * @default true
+   */
+  scrubUrls?: boolean;
+
+  /**
+   * Whether to enable scrubbing
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Luhn checksum, used by payment card numbers
+ */
+function isValidLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 checksum, used by IBANs
+ */
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    const digits = code >= 65 ? String(code - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Built-in PII patterns, applied in this order
+ */
+export const BUILT_IN_PII_PATTERNS: Record<BuiltInPiiPatternName, PiiPattern> =
+  {
+    jwt: {
+      name: "jwt",
+      pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+    },
+    awsAccessKey: {
+      name: "awsAccessKey",
+      pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+    },
+    email: {
+      name: "email",
+      pattern: /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    },
+    creditCard: {
+      name: "creditCard",
+      // Major card networks start with 2-6; also skips millisecond timestamps
+      pattern: /\b[2-6](?:[ -]?\d){13,18}\b/g,
+      validate: isValidLuhn,
+    },
+    iban: {
+      name: "iban",
+      pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+      validate: isValidIban,
+    },
+    phone: {
+      name: "phone",
+      pattern:
+        /(?:\+\d{1,3}[ .-]?)?(?:\(\d{3}\)[ .-]?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b|\+[1-9]\d{7,14}\b/g,
+    },
+  };
+
+/**
+ * URL attributes scrubbed when `scrubUrls` is enabled
+ */
+const URL_ATTRIBUTES = ["url.full", "http.url", "http.target"];
+
+/**
+ * Query and path attributes scrubbed as plain strings when `scrubUrls` is enabled
+ */
+const URL_PART_ATTRIBUTES = ["url.query", "url.path"];
+
+const BODY_ATTRIBUTES = ["http.request.body", "http.response.body"];
+
+/**
+ * Returns the patterns of a scrubbing configuration
+ */
+function getPatterns(config: PiiScrubbingConfig): PiiPattern[] {
+  const builtIn = (
+    config.patterns ??
+    (Object.keys(BUILT_IN_PII_PATTERNS) as BuiltInPiiPatternName[])
+  ).map((name) => BUILT_IN_PII_PATTERNS[name]);
+  return [...builtIn, ...(config.customPatterns ?? [])];
+}
+
+/**
+ * Masks every PII match in a string
+ *
+ * @param value - String to scrub
+ * @param config - Scrubbing configuration (patterns and replacement)
+ * @returns Scrubbed string
+ */
+export function scrubPii(value: string, config: PiiScrubbingConfig): string {
+  let result = value;
+  for (const piiPattern of getPatterns(config)) {
+    const flags = piiPattern.pattern.flags.includes("g")
+      ? piiPattern.pattern.flags
+      : `${piiPattern.pattern.flags}g`;
+    const pattern = new RegExp(piiPattern.pattern.source, flags);
+    result = result.replace(pattern, (match) => {
+      if (piiPattern.validate && !piiPattern.validate(match)) {
+        return match;
+      }
+      return (
+        piiPattern.replacement ??
+        config.replacement ??
+        `[REDACTED:${piiPattern.name}]`
+      );
+    });
+  }
+  return result;
+}
+
+/**
+ * Decodes a URL component, or returns it unchanged if it is not valid percent-encoding
+ */
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Masks PII in the segments of a URL path. Segments are decoded before
+ * matching, so percent-encoded PII is detected.
+ */
+function scrubPath(path: string, config: PiiScrubbingConfig): string {
+  return path
+    .split("/")
+    .map((segment) => {
+      const decoded = safeDecodeURIComponent(segment);
+      const scrubbed = scrubPii(decoded, config);
+      return scrubbed === decoded ? segment : encodeURIComponent(scrubbed);
+    })
+    .join("/");
+}
+
+/**
+ * Masks PII in the values of a query string (without leading `?`)
+ */
+function scrubQuery(query: string, config: PiiScrubbingConfig): string {
+  return query
+    .split("&")
+    .map((pair) => {
+      const separatorIndex = pair.indexOf("=");
+      if (separatorIndex === -1) {
+        return pair;
+      }
+      const name = pair.slice(0, separatorIndex);
+      const value = pair.slice(separatorIndex + 1);
+      const decoded = safeDecodeURIComponent(value.replace(/\+/g, " "));
+      const scrubbed = scrubPii(decoded, config);
+      return scrubbed === decoded
+        ? pair
+        : `${name}=${encodeURIComponent(scrubbed)}`;
+    })
+    .join("&");
+}
+
+/**
+ * Masks PII in the path segments, query parameter values and credentials of a URL
+ */
+export function scrubUrl(url: string, config: PiiScrubbingConfig): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Relative target (e.g. http.target) or invalid URL
+    const queryIndex = url.indexOf("?");
+    return queryIndex === -1
+      ? scrubPath(url, config)
+      : `${scrubPath(url.slice(0, queryIndex), config)}?${scrubQuery(url.slice(queryIndex + 1), config)}`;
+  }
+
+  parsed.pathname = scrubPath(parsed.pathname, config);
+  if (parsed.search) {
+    parsed.search = scrubQuery(parsed.search.slice(1), config);
+  }
+  if (parsed.username || parsed.password) {
+    parsed.username = scrubPath(parsed.username, config);
+    parsed.password = scrubPath(parsed.password, config);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Scrubs PII from the URL and body attributes of a span, in place
+ *
+ * @param attributes - Span attributes, already filtered
+ * @param config - Scrubbing configuration
+ */
+export function scrubPiiFromAttributes(
+  attributes: Record<string, unknown>,
+  config: PiiScrubbingConfig
+): void {
+  if (config.enabled === false) {
+    return;
+  }
+
+  if (config.scrubUrls ?? true) {
+    for (const key of URL_ATTRIBUTES) {
+      const value = attributes[key];
+      if (typeof value === "string") {
+        attributes[key] = scrubUrl(value, config);
+      }
+    }
+    for (const key of URL_PART_ATTRIBUTES) {
+      const value = attributes[key];
+      if (typeof value === "string") {
+        attributes[key] =
+          key === "url.query"
+            ? scrubQuery(value, config)
+            : scrubPath(value, config);
+      }
+    }
+  }
+
+  if (config.scrubBodies ?? true) {
+    // Compressed response bodies are sent base64-encoded and cannot be scrubbed
+    if (
+      attributes[HTTP_RESPONSE_CONTENT_ENCODING] !== undefined &&
+      attributes["http.response.body"] !== undefined
+    ) {
+      log.debug("Removing encoded response body that cannot be scrubbed");
+      delete attributes["http.response.body"];
+    }
+    for (const key of BODY_ATTRIBUTES) {
+      const value = attributes[key];
+      if (typeof value === "string") {
+        attributes[key] = scrubPii(value, config);
+      }
+    }
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Query parameter filtering - applies allow/deny list rules and redaction to
+ * URL query strings, and strips userinfo credentials from URLs
+ */
+
+import { createLogger } from "../logger";
+import type { HeaderRedactionConfig } from "./sensitive-headers";
+import {
+  DEFAULT_REDACTION_CONFIG,
+  HeaderRedactionStrategy,
+  redactHeaderValue,
+} from "./sensitive-headers";
+
+const log = createLogger("[PingOps QueryFilter]");
+
+/**
+ * Default patterns for sensitive query parameters that should be redacted
+ * These are matched case-insensitively, like DEFAULT_SENSITIVE_HEADER_PATTERNS
+ */
+export const DEFAULT_SENSITIVE_QUERY_PARAM_PATTERNS = [
+  // API Keys & Access Tokens
+  "api_key",
+  "api-key",
+  "apikey",
+  "access_key",
+  "accesskey",
+  "secret",
+  "private_key",
+  "client_secret",
+
+  // Tokens & Sessions
+  "token",
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "auth_token",
+  "authorization",
+  "session",
+  "sessionid",
+  "password",
+  "passwd",
+
+  // Signatures (e.g. pre-signed URLs)
+  "signature",
+  "x-amz-signature",
+  "x-amz-credential",
+  "x-amz-security-token",
+  "x-goog-signature",
+  "x-goog-credential",
+] as const;
+
+/**
+ * Checks if a query parameter name matches any sensitive pattern
+ * Uses case-insensitive matching: the name matches if it contains a pattern
+ *
+ * @param paramName - The decoded parameter name to check
+ * @param patterns - Array of patterns to match against (defaults to DEFAULT_SENSITIVE_QUERY_PARAM_PATTERNS)
+ * @returns true if the parameter matches any sensitive pattern
+ */
+export function isSensitiveQueryParam(
+  paramName: string,
+  patterns: readonly string[] = DEFAULT_SENSITIVE_QUERY_PARAM_PATTERNS
+): boolean {
+  const normalizedName = paramName.toLowerCase().trim();
+  if (normalizedName.length === 0) {
+    return false;
+  }
+  return patterns.some((pattern) => {
+    const normalizedPattern = pattern.toLowerCase().trim();
+    return (
+      normalizedPattern.length > 0 && normalizedName.includes(normalizedPattern)
+    );
+  });
+}
+
+/**
+ * Span attributes holding a full URL or a path with query string
+ */
+const URL_ATTRIBUTES = ["url.full", "http.url", "http.target"];
+
+/**
+ * Merges query parameter redaction config with defaults
+ */
+function mergeQueryRedactionConfig(
+  config?: HeaderRedactionConfig
+): Required<HeaderRedactionConfig> {
+  return {
+    sensitivePatterns:
+      config?.sensitivePatterns ?? DEFAULT_SENSITIVE_QUERY_PARAM_PATTERNS,
+    strategy: config?.strategy ?? DEFAULT_REDACTION_CONFIG.strategy,
+    redactionString:
+      config?.redactionString ?? DEFAULT_REDACTION_CONFIG.redactionString,
+    visibleChars: config?.visibleChars ?? DEFAULT_REDACTION_CONFIG.visibleChars,
+    hashKey: config?.hashKey ?? DEFAULT_REDACTION_CONFIG.hashKey,
+    detectSecretValues:
+      config?.detectSecretValues ?? DEFAULT_REDACTION_CONFIG.detectSecretValues,
+    cookies: DEFAULT_REDACTION_CONFIG.cookies,
+    enabled: config?.enabled ?? DEFAULT_REDACTION_CONFIG.enabled,
+  };
+}
+
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Encodes a redacted value, keeping the brackets of the redaction string and
+ * the colon of hashed values readable
+ */
+function encodeRedactedValue(value: string): string {
+  return encodeURIComponent(value).replace(/%(5B|5D|3A)/g, (encoded) =>
+    decodeURIComponent(encoded)
+  );
+}
+
+/**
+ * Filters the parameters of a query string (without leading `?`)
+ * - Deny list always wins (if parameter is in deny list, remove it)
+ * - Allow list filters included parameters (if specified, only keep these)
+ * - Sensitive parameters are redacted after filtering (if redaction is enabled)
+ * - Case-insensitive matching on decoded parameter names
+ *
+ * @param query - Raw query string
+ * @param queryParamsAllowList - Optional allow list of parameter names to keep
+ * @param queryParamsDenyList - Optional deny list of parameter names to remove
+ * @param redactionConfig - Optional configuration for parameter value redaction
+ * @returns Filtered query string, unchanged parameters keep their original encoding
+ */
+export function filterQueryString(
+  query: string,
+  queryParamsAllowList?: string[],
+  queryParamsDenyList?: string[],
+  redactionConfig?: HeaderRedactionConfig
+): string {
+  const redaction = mergeQueryRedactionConfig(redactionConfig);
+  const normalizedDenyList =
+    queryParamsDenyList?.map((name) => name.toLowerCase()) ?? [];
+  const normalizedAllowList =
+    queryParamsAllowList?.map((name) => name.toLowerCase()) ?? [];
+
+  const filtered: string[] = [];
+  for (const pair of query.split("&")) {
+    if (pair.length === 0) {
+      continue;
+    }
+    const separatorIndex = pair.indexOf("=");
+    const rawName =
+      separatorIndex === -1 ? pair : pair.slice(0, separatorIndex);
+    const name = safeDecodeURIComponent(rawName);
+    const normalizedName = name.toLowerCase();
+
+    // Deny list always wins
+    if (normalizedDenyList.includes(normalizedName)) {
+      log.debug("Query parameter denied by deny list", { paramName: name });
+      continue;
+    }
+
+    // If allow list exists, only keep parameters in the list
+    if (
+      normalizedAllowList.length > 0 &&
+      !normalizedAllowList.includes(normalizedName)
+    ) {
+      log.debug("Query parameter excluded (not in allow list)", {
+        paramName: name,
+      });
+      continue;
+    }
+
+    if (
+      !redaction.enabled ||
+      separatorIndex === -1 ||
+      !isSensitiveQueryParam(name, redaction.sensitivePatterns)
+    ) {
+      filtered.push(pair);
+      continue;
+    }
+
+    if (redaction.strategy === HeaderRedactionStrategy.REMOVE) {
+      log.debug("Query parameter removed by redaction strategy", {
+        paramName: name,
+      });
+      continue;
+    }
+
+    const value = safeDecodeURIComponent(pair.slice(separatorIndex + 1));
+    const redacted = redactHeaderValue(value, redaction) as string;
+    filtered.push(`${rawName}=${encodeRedactedValue(redacted)}`);
+    log.debug("Query parameter value redacted", {
+      paramName: name,
+      strategy: redaction.strategy,
+    });
+  }
+  return filtered.join("&");
+}
+
+/**
+ * Strips userinfo credentials and filters the query string of a URL
+ *
+ * Works on absolute URLs and on targets (`/path?query`). The rest of the URL
+ * is kept as is, including the fragment.
+ *
+ * @returns Filtered URL
+ */
+export function filterUrl(
+  url: string,
+  queryParamsAllowList?: string[],
+  queryParamsDenyList?: string[],
+  redactionConfig?: HeaderRedactionConfig
+): string {
+  // Strip `user:password@` from the authority
+  const withoutUserinfo = url.replace(
+    /^([a-z][a-z\d+.-]*:\/\/)[^/?#@]*@/i,
+    "$1"
+  );
+
+  const fragmentIndex = withoutUserinfo.indexOf("#");
+  const fragment =
+    fragmentIndex === -1 ? "" : withoutUserinfo.slice(fragmentIndex);
+  const withoutFragment =
+    fragmentIndex === -1
+      ? withoutUserinfo
+      : withoutUserinfo.slice(0, fragmentIndex);
+  const queryIndex = withoutFragment.indexOf("?");
+  if (queryIndex === -1) {
+    return withoutUserinfo;
+  }
+
+  const query = filterQueryString(
+    withoutFragment.slice(queryIndex + 1),
+    queryParamsAllowList,
+    queryParamsDenyList,
+    redactionConfig
+  );
+  return `${withoutFragment.slice(0, queryIndex)}${query ? `?${query}` : ""}${fragment}`;
+}
+
+/**
+ * Applies query parameter filtering to every URL attribute of a span, in place
+ * (`url.full`, `http.url`, `http.target` and `url.query`)
+ */
+export function filterUrlAttributes(
+  attributes: Record<string, unknown>,
+  queryParamsAllowList?: string[],
+  queryParamsDenyList?: string[],
+  redactionConfig?: HeaderRedactionConfig
+): void {
+  for (const key of URL_ATTRIBUTES) {
+    const value = attributes[key];
+    if (typeof value === "string") {
+      attributes[key] = filterUrl(
+        value,
+        queryParamsAllowList,
+        queryParamsDenyList,
+        redactionConfig
+      );
+    }
+  }
+
+  const query = attributes["url.query"];
+  if (typeof query === "string") {
+    const filteredQuery = filterQueryString(
+      query,
+      queryParamsAllowList,
+      queryParamsDenyList,
+      redactionConfig
+    );
+    if (filteredQuery) {
+      attributes["url.query"] = filteredQuery;
+    } else {
+      delete attributes["url.query"];
+    }
+  }
+}
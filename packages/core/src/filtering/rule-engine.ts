@@ -0,0 +1,320 @@
+/**
+ * Domain rule engine - resolves the capture policy of a request from the
+ * domain allow/deny lists and the global configuration
+ *
+ * Used by the span processor, the span extractor, the sampler and the HTTP
+ * instrumentations, so they all make the same decisions for a URL.
+ */
+
+import type { DomainRule } from "../types";
+import type { BodyRedactionConfig } from "./body-redaction";
+import { createLogger } from "../logger";
+import {
+  domainRuleMatches,
+  domainRulePathMatches,
+  domainRuleRequestMatches,
+  domainRuleRequestMatchesAnyStatus,
+  parseRuleLocation,
+  type DomainRuleLocation,
+  type DomainRuleRequest,
+} from "./domain-filter";
+
+const log = createLogger("[PingOps RuleEngine]");
+
+/**
+ * Global settings that domain rules override
+ */
+export interface DomainPolicyDefaults {
+  headersAllowList?: string[];
+  headersDenyList?: string[];
+  queryParamsAllowList?: string[];
+  queryParamsDenyList?: string[];
+  captureRequestBody?: boolean;
+  captureResponseBody?: boolean;
+  bodyContentTypesAllowList?: string[];
+  bodyContentTypesDenyList?: string[];
+  bodyRedaction?: BodyRedactionConfig;
+  sampleRate?: number;
+}
+
+/**
+ * Policy resolved for a request: the matching rule merged with the global settings
+ */
+export interface DomainPolicy {
+  /**
+   * Whether the request passes the domain allow/deny lists
+   */
+  capture: boolean;
+  /**
+   * First allow list rule matching the request, if any
+   */
+  rule?: DomainRule;
+  headersAllowList?: string[];
+  headersDenyList?: string[];
+  queryParamsAllowList?: string[];
+  queryParamsDenyList?: string[];
+  /**
+   * Priority: domain rule > global config > default (false)
+   */
+  captureRequestBody: boolean;
+  /**
+   * Priority: domain rule > global config > default (false)
+   */
+  captureResponseBody: boolean;
+  bodyContentTypesAllowList?: string[];
+  bodyContentTypesDenyList?: string[];
+  bodyRedaction?: BodyRedactionConfig;
+  sampleRate?: number;
+}
+
+/**
+ * Rules matching the domain and path of a request, before request conditions
+ */
+interface LocationRules {
+  allowRules: DomainRule[];
+  denyRules: DomainRule[];
+}
+
+const DEFAULT_MAX_CACHE_SIZE = 1000;
+
+/**
+ * Completes the request conditions with the port and scheme of its URL
+ */
+function getRequestInfo(
+  request: DomainRuleRequest,
+  location: DomainRuleLocation
+): DomainRuleRequest {
+  return {
+    ...request,
+    port: request.port ?? location.port,
+    scheme: request.scheme ?? location.scheme,
+  };
+}
+
+/**
+ * Compiled domain allow/deny lists
+ *
+ * Rules matching a host and path are cached, so only the method, status code,
+ * port and scheme conditions are evaluated on repeated requests.
+ */
+export class DomainRuleEngine {
+  private readonly cache = new Map<string, LocationRules>();
+
+  constructor(
+    private readonly domainAllowList: DomainRule[] = [],
+    private readonly domainDenyList: DomainRule[] = [],
+    private readonly maxCacheSize = DEFAULT_MAX_CACHE_SIZE
+  ) {}
+
+  /**
+   * Resolves the policy of a request
+   *
+   * @param url - Request URL, no rule applies to requests without URL
+   * @param request - Method and status code of the request, matched by rule conditions
+   * @param defaults - Global settings, used when the matching rule does not set them
+   */
+  resolve(
+    url: string | undefined,
+    request: DomainRuleRequest = {},
+    defaults: DomainPolicyDefaults = {}
+  ): DomainPolicy {
+    const rule = url === undefined ? undefined : this.findRule(url, request);
+    return {
+      capture: rule !== null && (rule !== undefined || !this.hasAllowList()),
+      rule: rule ?? undefined,
+      headersAllowList: rule?.headersAllowList ?? defaults.headersAllowList,
+      headersDenyList: rule?.headersDenyList ?? defaults.headersDenyList,
+      queryParamsAllowList:
+        rule?.queryParamsAllowList ?? defaults.queryParamsAllowList,
+      queryParamsDenyList:
+        rule?.queryParamsDenyList ?? defaults.queryParamsDenyList,
+      captureRequestBody:
+        rule?.captureRequestBody ?? defaults.captureRequestBody ?? false,
+      captureResponseBody:
+        rule?.captureResponseBody ?? defaults.captureResponseBody ?? false,
+      bodyContentTypesAllowList:
+        rule?.bodyContentTypesAllowList ?? defaults.bodyContentTypesAllowList,
+      bodyContentTypesDenyList:
+        rule?.bodyContentTypesDenyList ?? defaults.bodyContentTypesDenyList,
+      bodyRedaction: rule?.bodyRedaction ?? defaults.bodyRedaction,
+      sampleRate: rule?.sampleRate ?? defaults.sampleRate,
+    };
+  }
+
+  /**
+   * Returns true if the request body may be captured once the response status
+   * code is known
+   *
+   * Rules with `statusCodes` only match once the response is received, after
+   * the request body was sent. Until then, the request body is kept if such a
+   * rule captures it; the span extractor drops it on export if the rule does
+   * not match the status code.
+   *
+   * @param url - Request URL
+   * @param request - Method and status code of the request, if known
+   * @param defaults - Global settings, used when a rule does not set them
+   */
+  mayCaptureRequestBody(
+    url: string | undefined,
+    request: DomainRuleRequest = {},
+    defaults: DomainPolicyDefaults = {}
+  ): boolean {
+    if (this.resolve(url, request, defaults).captureRequestBody) {
+      return true;
+    }
+    if (url === undefined || request.statusCode !== undefined) {
+      return false;
+    }
+
+    const location = parseRuleLocation(url);
+    const requestInfo = getRequestInfo(request, location);
+    return this.getLocationRules(
+      location.domain,
+      location.path
+    ).allowRules.some(
+      (rule) =>
+        rule.statusCodes !== undefined &&
+        rule.statusCodes.length > 0 &&
+        (rule.captureRequestBody ?? defaults.captureRequestBody ?? false) &&
+        domainRuleRequestMatchesAnyStatus(rule, requestInfo)
+    );
+  }
+
+  private hasAllowList(): boolean {
+    return this.domainAllowList.length > 0;
+  }
+
+  /**
+   * Finds the first allow list rule matching a request
+   *
+   * @returns The rule, undefined if no allow list rule matches, or null if the
+   * request is denied
+   */
+  private findRule(
+    url: string,
+    request: DomainRuleRequest
+  ): DomainRule | undefined | null {
+    const location = parseRuleLocation(url);
+    const requestInfo = getRequestInfo(request, location);
+    const { allowRules, denyRules } = this.getLocationRules(
+      location.domain,
+      location.path
+    );
+
+    const deniedBy = denyRules.find((denyRule) =>
+      domainRuleRequestMatches(denyRule, requestInfo)
+    );
+    if (deniedBy) {
+      log.info("Request denied by deny list", {
+        domain: location.domain,
+        ruleDomain: deniedBy.domain,
+        path: location.path,
+        url,
+      });
+      return null;
+    }
+
+    const rule = allowRules.find((allowRule) =>
+      domainRuleRequestMatches(allowRule, requestInfo)
+    );
+    log.debug("Domain rules resolved", {
+      domain: location.domain,
+      path: location.path,
+      requestInfo,
+      ruleDomain: rule?.domain,
+      matched: rule !== undefined,
+    });
+    return rule;
+  }
+
+  /**
+   * Returns the rules matching a domain and path, from the cache if possible
+   */
+  private getLocationRules(domain: string, path: string): LocationRules {
+    const key = `${domain}${path}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const matchesLocation = (rule: DomainRule) =>
+      domainRuleMatches(rule, domain) && domainRulePathMatches(rule, path);
+    const locationRules: LocationRules = {
+      allowRules: this.domainAllowList.filter(matchesLocation),
+      denyRules: this.domainDenyList.filter(matchesLocation),
+    };
+
+    // Evict the oldest entry once the cache is full
+    if (this.cache.size >= this.maxCacheSize) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+    this.cache.set(key, locationRules);
+    return locationRules;
+  }
+}
+
+const NO_RULES: DomainRule[] = [];
+
+/**
+ * Engines of the configured rule lists, keyed by allow list then deny list
+ */
+const engines = new WeakMap<
+  DomainRule[],
+  WeakMap<DomainRule[], DomainRuleEngine>
+>();
+
+/**
+ * Returns the engine of a pair of rule lists, compiled once per pair
+ */
+export function getDomainRuleEngine(
+  domainAllowList?: DomainRule[],
+  domainDenyList?: DomainRule[]
+): DomainRuleEngine {
+  const allowList = domainAllowList ?? NO_RULES;
+  const denyList = domainDenyList ?? NO_RULES;
+  let enginesByDenyList = engines.get(allowList);
+  if (!enginesByDenyList) {
+    enginesByDenyList = new WeakMap();
+    engines.set(allowList, enginesByDenyList);
+  }
+  let engine = enginesByDenyList.get(denyList);
+  if (!engine) {
+    engine = new DomainRuleEngine(allowList, denyList);
+    enginesByDenyList.set(denyList, engine);
+  }
+  return engine;
+}
+
+/**
+ * Determines if a span should be captured based on domain rules
+ *
+ * @param url - Request URL
+ * @param domainAllowList - Rules of requests to capture
+ * @param domainDenyList - Rules of requests to drop, evaluated first
+ * @param request - Method and status code of the request, matched by rule conditions
+ */
+export function shouldCaptureSpan(
+  url: string,
+  domainAllowList?: DomainRule[],
+  domainDenyList?: DomainRule[],
+  request: DomainRuleRequest = {}
+): boolean {
+  return getDomainRuleEngine(domainAllowList, domainDenyList).resolve(
+    url,
+    request
+  ).capture;
+}
+
+/**
+ * Gets domain rule configuration for a given URL
+ */
+export function getDomainRule(
+  url: string,
+  domainAllowList?: DomainRule[],
+  request: DomainRuleRequest = {}
+): DomainRule | undefined {
+  return getDomainRuleEngine(domainAllowList).resolve(url, request).rule;
+}
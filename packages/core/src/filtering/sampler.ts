@@ -0,0 +1,196 @@
+/**
+ * Sampling decisions for captured spans
+ *
+ * Ratio decisions are derived from the trace ID only, so every span of a trace
+ * gets the same decision for a given rate, and a trace kept at a lower rate is
+ * also kept at any higher rate.
+ *
+ * A trace is kept as a whole if any of its spans keeps it: the span processor
+ * holds the spans of a trace not kept yet, and exports them once a later span
+ * (an error, a slow request or a request to a domain sampled at a higher rate)
+ * keeps the trace. Spans of traces no span can keep are dropped right away.
+ */
+
+import { SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import type { DomainRule } from "../types";
+import { createLogger } from "../logger";
+import {
+  getHttpMethodFromAttributes,
+  getHttpStatusCodeFromAttributes,
+  getHttpUrlFromAttributes,
+} from "../utils/http-attributes";
+import { getDomainRuleEngine } from "./rule-engine";
+
+const log = createLogger("[PingOps Sampler]");
+
+/**
+ * Sampling configuration
+ */
+export interface SamplingConfig {
+  /**
+   * Fraction of traces to keep, between 0 and 1.
+   * Overridden per domain by `DomainRule.sampleRate`.
+   * @defaultValue 1
+   */
+  ratio?: number;
+
+  /**
+   * Always keep traces containing a failed request (status >= 400, error
+   * status or exception).
+   * @defaultValue true
+   */
+  alwaysKeepErrors?: boolean;
+
+  /**
+   * Always keep traces containing a request whose duration is at least this
+   * many milliseconds.
+   */
+  slowRequestThresholdMs?: number;
+
+  /**
+   * Time in milliseconds during which the spans of a trace not kept yet are
+   * held, waiting for a later span to keep the trace. Spans of a trace kept
+   * after this window are dropped, as their earlier spans were.
+   * @defaultValue 30000
+   */
+  traceTimeoutMillis?: number;
+
+  /**
+   * Maximum number of traces held at once. When full, the oldest trace is
+   * dropped, including its later spans.
+   * @defaultValue 1000
+   */
+  maxTraces?: number;
+
+  /**
+   * Maximum number of spans held per trace. A trace exceeding it is dropped,
+   * including its later spans.
+   * @defaultValue 100
+   */
+  maxSpansPerTrace?: number;
+}
+
+/**
+ * Maps a trace ID to a number in [0, 1)
+ */
+function traceIdToUnitInterval(traceId: string): number {
+  const value = parseInt(traceId.slice(-8), 16);
+  return Number.isNaN(value) ? 0 : value / 0x100000000;
+}
+
+/**
+ * Returns true if the trace is sampled at the given rate.
+ * Deterministic per trace ID.
+ */
+export function isTraceSampled(traceId: string, rate: number): boolean {
+  if (rate >= 1) {
+    return true;
+  }
+  if (rate <= 0) {
+    return false;
+  }
+  return traceIdToUnitInterval(traceId) < rate;
+}
+
+/**
+ * Returns true if a span of the trace may still keep it: errors or slow
+ * requests are always kept, or the trace is sampled at the highest rate of the
+ * configuration (global ratio or domain rule sample rate).
+ *
+ * Spans of traces for which this returns false never need to be held.
+ */
+export function canTraceBeKept(
+  traceId: string,
+  sampling?: SamplingConfig,
+  domainAllowList?: DomainRule[]
+): boolean {
+  if (
+    !sampling ||
+    (sampling.alwaysKeepErrors ?? true) ||
+    sampling.slowRequestThresholdMs !== undefined
+  ) {
+    return true;
+  }
+
+  const maxRate = Math.max(
+    sampling.ratio ?? 1,
+    ...(domainAllowList ?? []).map((rule) => rule.sampleRate ?? 0)
+  );
+  return isTraceSampled(traceId, maxRate);
+}
+
+/**
+ * Returns true if the span is a failed request: status code >= 400,
+ * error status or a recorded exception
+ */
+export function isErrorSpan(span: ReadableSpan): boolean {
+  const statusCode = Number(
+    span.attributes["http.response.status_code"] ??
+      span.attributes["http.status_code"]
+  );
+  return (
+    statusCode >= 400 ||
+    span.status.code === SpanStatusCode.ERROR ||
+    (span.events ?? []).some((event) => event.name === "exception")
+  );
+}
+
+function getDurationMs(span: ReadableSpan): number {
+  return span.duration[0] * 1000 + span.duration[1] / 1000000;
+}
+
+/**
+ * Determines if a span keeps its trace according to the sampling configuration
+ *
+ * Priority: errors and slow requests are always kept, then the domain rule
+ * sample rate, then the global ratio. Spans returning false are exported only
+ * if another span of their trace keeps it.
+ */
+export function shouldSampleSpan(
+  span: ReadableSpan,
+  sampling?: SamplingConfig,
+  domainAllowList?: DomainRule[]
+): boolean {
+  if (!sampling) {
+    return true;
+  }
+
+  if ((sampling.alwaysKeepErrors ?? true) && isErrorSpan(span)) {
+    log.debug("Keeping error span", { spanName: span.name });
+    return true;
+  }
+
+  if (
+    sampling.slowRequestThresholdMs !== undefined &&
+    getDurationMs(span) >= sampling.slowRequestThresholdMs
+  ) {
+    log.debug("Keeping slow span", {
+      spanName: span.name,
+      durationMs: getDurationMs(span),
+      thresholdMs: sampling.slowRequestThresholdMs,
+    });
+    return true;
+  }
+
+  const policy = getDomainRuleEngine(domainAllowList).resolve(
+    getHttpUrlFromAttributes(span.attributes),
+    {
+      method: getHttpMethodFromAttributes(span.attributes),
+      statusCode: getHttpStatusCodeFromAttributes(span.attributes),
+    },
+    { sampleRate: sampling.ratio ?? 1 }
+  );
+  const rate = policy.sampleRate ?? 1;
+  const traceId = span.spanContext().traceId;
+  const sampled = isTraceSampled(traceId, rate);
+
+  log.debug("Sampling decision", {
+    spanName: span.name,
+    traceId,
+    rate,
+    ruleDomain: policy.rule?.domain,
+    sampled,
+  });
+  return sampled;
+}
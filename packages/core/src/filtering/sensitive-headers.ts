@@ -2,6 +2,11 @@
  * Sensitive header patterns and redaction configuration
  */
 
+import { createHmac, randomBytes } from "node:crypto";
+import { createLogger } from "../logger";
+
+const log = createLogger("[PingOps Redaction]");
+
 /**
  * Default patterns for sensitive headers that should be redacted
  * These are matched case-insensitively
@@ -72,6 +77,26 @@ export const DEFAULT_SENSITIVE_HEADER_PATTERNS = [
   "x-service-key",
 ] as const;
 
+/**
+ * Default patterns for sensitive cookie names whose values should be redacted
+ * These are matched case-insensitively, as substrings of the cookie name
+ */
+export const DEFAULT_SENSITIVE_COOKIE_PATTERNS = [
+  "session",
+  "sess",
+  "sid",
+  "token",
+  "auth",
+  "jwt",
+  "csrf",
+  "xsrf",
+  "secret",
+  "password",
+  "remember",
+  "login",
+  "credential",
+] as const;
+
 /**
  * Redaction strategies for sensitive header values
  */
@@ -92,6 +117,39 @@ export enum HeaderRedactionStrategy {
    * Remove the header entirely (same as deny list)
    */
   REMOVE = "remove",
+  /**
+   * Replace the value with a keyed HMAC-SHA256 digest, so identical values
+   * can be correlated without exposing them
+   */
+  HASH = "hash",
+}
+
+/**
+ * Configuration for per-cookie redaction of Cookie and Set-Cookie headers
+ */
+export interface CookieRedactionConfig {
+  /**
+   * Patterns to match sensitive cookie names (case-insensitive)
+   * Defaults to DEFAULT_SENSITIVE_COOKIE_PATTERNS if not provided
+   */
+  sensitivePatterns?: readonly string[];
+
+  /**
+   * Cookie names whose values are always kept, even if they look like secrets
+   */
+  allowList?: string[];
+
+  /**
+   * Cookie names whose values are always redacted (takes precedence over allowList)
+   */
+  denyList?: string[];
+
+  /**
+   * Whether to redact cookies one by one. When disabled, Cookie and Set-Cookie
+   * headers are redacted as a whole like any other sensitive header.
+   * @default true when `cookies` is set
+   */
+  enabled?: boolean;
 }
 
 /**
@@ -122,6 +180,28 @@ export interface HeaderRedactionConfig {
    */
   visibleChars?: number;
 
+  /**
+   * HMAC key used when strategy is HASH. Use the same key across services to
+   * correlate values between them.
+   * @default PINGOPS_REDACTION_HASH_KEY environment variable, or a random per-process key
+   */
+  hashKey?: string;
+
+  /**
+   * Also redact headers whose value looks like a secret (JWT, Bearer/Basic
+   * credentials, known API key prefixes or high-entropy tokens), whatever their name
+   * @default false
+   */
+  detectSecretValues?: boolean;
+
+  /**
+   * Opt-in per-cookie redaction of Cookie and Set-Cookie headers: cookie names
+   * and Set-Cookie attributes are kept, only values of sensitive cookies and
+   * values that look like secrets (see detectSecretValue) are redacted.
+   * If not provided, Cookie and Set-Cookie headers are redacted as a whole.
+   */
+  cookies?: CookieRedactionConfig;
+
   /**
    * Whether to enable redaction
    * @default true
@@ -131,15 +211,126 @@ export interface HeaderRedactionConfig {
 
 /**
  * Default redaction configuration
+ * An empty hashKey resolves to the default HMAC key (see getDefaultHashKey)
  */
 export const DEFAULT_REDACTION_CONFIG: Required<HeaderRedactionConfig> = {
   sensitivePatterns: DEFAULT_SENSITIVE_HEADER_PATTERNS,
   strategy: HeaderRedactionStrategy.REPLACE,
   redactionString: "[REDACTED]",
   visibleChars: 4,
+  hashKey: "",
+  detectSecretValues: false,
+  cookies: { enabled: false },
   enabled: true,
 };
 
+/**
+ * Kind of secret detected in a header value
+ */
+export type SecretValueKind =
+  | "jwt"
+  | "bearer"
+  | "basic"
+  | "knownPrefix"
+  | "highEntropy";
+
+/**
+ * Known API key and token prefixes
+ * (OpenAI/Stripe, GitHub, GitLab, Slack, AWS, Google)
+ */
+const KNOWN_SECRET_PREFIX_PATTERN =
+  /^(?:sk-|sk_live_|sk_test_|rk_live_|rk_test_|ghp_|gho_|ghs_|ghu_|ghr_|github_pat_|glpat-|xox[abpr]-|AKIA|ASIA|AIza)[\w-]{10,}$/;
+
+const JWT_PATTERN = /^eyJ[\w-]+\.eyJ[\w-]+\.[\w-]*$/;
+
+/**
+ * Candidate for entropy check: long token mixing upper case, lower case and digits.
+ * Hex-only values (UUIDs, trace IDs, hashes) are not considered secrets.
+ */
+const HIGH_ENTROPY_CANDIDATE_PATTERN = /^[A-Za-z0-9+/_=-]{32,}$/;
+const HIGH_ENTROPY_THRESHOLD = 4;
+
+/**
+ * Shannon entropy in bits per character
+ */
+function getShannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Detects header values that look like secrets, whatever the header name
+ *
+ * @param value - The header value to check
+ * @returns The kind of secret detected, or undefined if the value looks harmless
+ */
+export function detectSecretValue(value: string): SecretValueKind | undefined {
+  const trimmedValue = value.trim();
+  if (/^bearer\s+\S+/i.test(trimmedValue)) {
+    return "bearer";
+  }
+  if (/^basic\s+\S+/i.test(trimmedValue)) {
+    return "basic";
+  }
+  if (JWT_PATTERN.test(trimmedValue)) {
+    return "jwt";
+  }
+  if (KNOWN_SECRET_PREFIX_PATTERN.test(trimmedValue)) {
+    return "knownPrefix";
+  }
+  if (
+    HIGH_ENTROPY_CANDIDATE_PATTERN.test(trimmedValue) &&
+    /[a-z]/.test(trimmedValue) &&
+    /[A-Z]/.test(trimmedValue) &&
+    /\d/.test(trimmedValue) &&
+    getShannonEntropy(trimmedValue) >= HIGH_ENTROPY_THRESHOLD
+  ) {
+    return "highEntropy";
+  }
+  return undefined;
+}
+
+let defaultHashKey: string | undefined;
+
+/**
+ * Returns the HMAC key used by the HASH strategy when none is configured:
+ * PINGOPS_REDACTION_HASH_KEY, or a random key generated once per process
+ */
+export function getDefaultHashKey(): string {
+  if (process.env.PINGOPS_REDACTION_HASH_KEY) {
+    return process.env.PINGOPS_REDACTION_HASH_KEY;
+  }
+  if (!defaultHashKey) {
+    log.warn(
+      "No hash key configured for HASH redaction, using a random per-process key. Set PINGOPS_REDACTION_HASH_KEY to correlate values across processes."
+    );
+    defaultHashKey = randomBytes(32).toString("hex");
+  }
+  return defaultHashKey;
+}
+
+/**
+ * Hashes a value with HMAC-SHA256
+ *
+ * @param value - The value to hash
+ * @param hashKey - HMAC key, defaults to getDefaultHashKey()
+ * @returns `hmac-sha256:` followed by the first 32 hex characters of the digest
+ */
+export function hashRedactedValue(value: string, hashKey?: string): string {
+  const digest = createHmac("sha256", hashKey || getDefaultHashKey())
+    .update(value)
+    .digest("hex");
+  return `hmac-sha256:${digest.slice(0, 32)}`;
+}
+
 /**
  * Checks if a header name matches any sensitive pattern
  * Uses case-insensitive matching with exact match, prefix/suffix, and substring matching
@@ -200,6 +391,36 @@ export function isSensitiveHeader(
   });
 }
 
+/**
+ * Checks if a cookie should have its value redacted
+ * - Deny list always wins, then allow list
+ * - Otherwise, the cookie name is matched against sensitive patterns (case-insensitive substring)
+ *
+ * @param cookieName - The cookie name to check
+ * @param config - Cookie redaction configuration
+ * @returns true if the cookie value should be redacted
+ */
+export function isSensitiveCookie(
+  cookieName: string,
+  config: CookieRedactionConfig = {}
+): boolean {
+  const normalizedName = cookieName.toLowerCase().trim();
+  if (config.denyList?.some((name) => name.toLowerCase() === normalizedName)) {
+    return true;
+  }
+  if (config.allowList?.some((name) => name.toLowerCase() === normalizedName)) {
+    return false;
+  }
+  const patterns =
+    config.sensitivePatterns ?? DEFAULT_SENSITIVE_COOKIE_PATTERNS;
+  return patterns.some((pattern) => {
+    const normalizedPattern = pattern.toLowerCase().trim();
+    return (
+      normalizedPattern.length > 0 && normalizedName.includes(normalizedPattern)
+    );
+  });
+}
+
 /**
  * Redacts a header value based on the configuration
  */
@@ -267,6 +488,9 @@ function redactSingleValue(
         trimmedValue.substring(trimmedValue.length - visibleChars)
       );
 
+    case HeaderRedactionStrategy.HASH:
+      return hashRedactedValue(trimmedValue, config.hashKey);
+
     case HeaderRedactionStrategy.REMOVE:
       // This should be handled at the filter level, not here
       // But if we reach here, return redaction string as fallback
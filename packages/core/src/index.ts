@@ -5,11 +5,22 @@
 export * from "./types";
 export * from "./filtering/span-filter";
 export * from "./filtering/domain-filter";
+export * from "./filtering/rule-engine";
 export * from "./filtering/header-filter";
+export * from "./filtering/query-filter";
 export * from "./filtering/sensitive-headers";
+export * from "./filtering/body-redaction";
+export * from "./filtering/body-truncation";
+export * from "./filtering/pii-scrubber";
 export * from "./filtering/body-decoder";
+export * from "./filtering/content-type-filter";
+export * from "./filtering/sampler";
 export * from "./utils/span-extractor";
+export * from "./utils/har";
 export * from "./utils/http-attributes";
+export * from "./utils/stream-parser";
+export * from "./utils/genai-attributes";
+export * from "./utils/genai-cost";
 export * from "./utils/context-extractor";
 export * from "./logger";
 export * from "./context-keys";
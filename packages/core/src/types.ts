@@ -2,15 +2,90 @@
  * Shared type definitions for PingOps SDK
  */
 
+import type { BodyRedactionConfig } from "./filtering/body-redaction";
+
 export interface DomainRule {
-  domain: string;
+  /**
+   * Domain to match: exact (`api.github.com`), suffix (`.github.com`) or glob
+   * (`*.s3.*.amazonaws.com`, `*` matches one label, `**` any number of labels)
+   */
+  domain?: string;
+  /**
+   * Regular expression tested against the hostname. When set with `domain`,
+   * both must match.
+   */
+  domainRegex?: RegExp | string;
+  /**
+   * CIDR ranges (IPv4 or IPv6, e.g. `10.0.0.0/8`) matched against requests to
+   * IP literals. Hostnames are not resolved.
+   */
+  cidrs?: string[];
+  /**
+   * Path prefixes to match, globs allowed (`/v1/users/*`, `*` matches one
+   * segment, `**` any number of segments)
+   */
   paths?: string[];
+  /**
+   * Regular expression tested against the path. When set with `paths`, both
+   * must match.
+   */
+  pathRegex?: RegExp | string;
+  /**
+   * HTTP methods to match (case-insensitive), e.g. `["POST"]`
+   */
+  methods?: string[];
+  /**
+   * Response status codes to match: exact (`404`), class (`"5xx"`) or range (`"400-499"`).
+   * With `captureRequestBody`, request bodies are kept until the status code is
+   * known, and dropped on export if it does not match.
+   */
+  statusCodes?: Array<number | string>;
+  /**
+   * Ports to match. URLs without port use the default port of their scheme.
+   */
+  ports?: number[];
+  /**
+   * URL schemes to match, e.g. `["https"]`
+   */
+  schemes?: string[];
   headersAllowList?: string[];
   headersDenyList?: string[];
+  /**
+   * Query parameters to keep for this domain, overrides the global `queryParamsAllowList`
+   */
+  queryParamsAllowList?: string[];
+  /**
+   * Query parameters to remove for this domain, overrides the global `queryParamsDenyList`
+   */
+  queryParamsDenyList?: string[];
   captureRequestBody?: boolean;
   captureResponseBody?: boolean;
+  /**
+   * Media types of bodies to capture for this domain (e.g. `application/json`,
+   * `text/*`), overrides the global `bodyContentTypesAllowList`
+   */
+  bodyContentTypesAllowList?: string[];
+  /**
+   * Media types of bodies to never capture for this domain, overrides the
+   * global `bodyContentTypesDenyList`
+   */
+  bodyContentTypesDenyList?: string[];
+  /**
+   * JSON body redaction for this domain, overrides the global `bodyRedaction`
+   */
+  bodyRedaction?: BodyRedactionConfig;
+  /**
+   * Fraction of traces to keep for this domain (0 to 1), overrides `sampling.ratio`
+   */
+  sampleRate?: number;
 }
 
+/**
+ * What to capture of a body larger than the configured maximum size: a
+ * placeholder (`drop`), its head, or its head and tail
+ */
+export type BodyTruncationStrategy = "drop" | "head" | "head-tail";
+
 export interface SpanPayload {
   traceId: string;
   spanId: string;
@@ -0,0 +1,287 @@
+/**
+ * GenAI semantic-convention attributes of LLM provider HTTP APIs (OpenAI,
+ * Anthropic, Azure OpenAI, Mistral, Gemini), extracted from request URLs and
+ * parsed request/response bodies, including streamed responses.
+ */
+
+import type { Attributes, AttributeValue } from "@opentelemetry/api";
+
+export const GEN_AI_SYSTEM = "gen_ai.system";
+export const GEN_AI_OPERATION_NAME = "gen_ai.operation.name";
+export const GEN_AI_REQUEST_MODEL = "gen_ai.request.model";
+export const GEN_AI_REQUEST_MAX_TOKENS = "gen_ai.request.max_tokens";
+export const GEN_AI_REQUEST_TEMPERATURE = "gen_ai.request.temperature";
+export const GEN_AI_REQUEST_TOP_P = "gen_ai.request.top_p";
+export const GEN_AI_RESPONSE_ID = "gen_ai.response.id";
+export const GEN_AI_RESPONSE_MODEL = "gen_ai.response.model";
+export const GEN_AI_RESPONSE_FINISH_REASONS = "gen_ai.response.finish_reasons";
+export const GEN_AI_USAGE_INPUT_TOKENS = "gen_ai.usage.input_tokens";
+export const GEN_AI_USAGE_OUTPUT_TOKENS = "gen_ai.usage.output_tokens";
+
+/**
+ * `gen_ai.system` values of the supported providers
+ */
+export type GenAiSystem =
+  | "openai"
+  | "anthropic"
+  | "az.ai.openai"
+  | "mistral_ai"
+  | "gcp.gemini";
+
+/**
+ * API hosts of the supported providers
+ */
+export const DEFAULT_GENAI_HOSTS: Readonly<Record<string, GenAiSystem>> = {
+  "api.openai.com": "openai",
+  "api.anthropic.com": "anthropic",
+  "api.mistral.ai": "mistral_ai",
+  "generativelanguage.googleapis.com": "gcp.gemini",
+};
+
+const AZURE_OPENAI_HOST_SUFFIX = ".openai.azure.com";
+
+/**
+ * Returns the provider of a request URL, or undefined if it is not a GenAI API
+ *
+ * @param url - Request URL
+ * @param genAiHosts - Additional hosts (`hostname` or `hostname:port`), e.g.
+ * of an LLM gateway, checked before the provider hosts
+ */
+export function getGenAiSystem(
+  url: string,
+  genAiHosts?: Record<string, GenAiSystem>
+): GenAiSystem | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  const hostname = parsed.hostname.toLowerCase();
+  const host = parsed.host.toLowerCase();
+  const system =
+    genAiHosts?.[host] ??
+    genAiHosts?.[hostname] ??
+    DEFAULT_GENAI_HOSTS[hostname];
+  if (system) {
+    return system;
+  }
+  return hostname.endsWith(AZURE_OPENAI_HOST_SUFFIX)
+    ? "az.ai.openai"
+    : undefined;
+}
+
+/**
+ * Returns the GenAI operation of an API path, or undefined if the endpoint is
+ * not an inference endpoint (e.g. model listing)
+ */
+function getOperationName(path: string): string | undefined {
+  if (/:(stream)?generatecontent$/i.test(path)) {
+    return "generate_content";
+  }
+  if (/:(batch)?embedcontents?$/i.test(path)) {
+    return "embeddings";
+  }
+  if (/\/chat\/completions$/.test(path) || /\/messages$/.test(path)) {
+    return "chat";
+  }
+  if (/\/responses$/.test(path)) {
+    return "chat";
+  }
+  if (/\/completions$/.test(path)) {
+    return "text_completion";
+  }
+  if (/\/embeddings$/.test(path)) {
+    return "embeddings";
+  }
+  return undefined;
+}
+
+/**
+ * Returns the model named by an API path: Gemini `models/{model}:method` or
+ * Azure OpenAI `deployments/{deployment}/...`
+ */
+function getModelFromPath(path: string): string | undefined {
+  const match =
+    /\/models\/([^/:]+):/.exec(path) ?? /\/deployments\/([^/]+)\//.exec(path);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function setIfDefined(
+  attributes: Attributes,
+  key: string,
+  value: AttributeValue | undefined
+): void {
+  if (value !== undefined) {
+    attributes[key] = value;
+  }
+}
+
+/**
+ * Returns the GenAI request attributes of a request, or undefined if it is not
+ * a GenAI inference request
+ *
+ * @param url - Request URL
+ * @param requestBody - Parsed JSON request body, if available
+ * @param genAiHosts - Additional hosts, see getGenAiSystem
+ */
+export function getGenAiRequestAttributes(
+  url: string,
+  requestBody?: unknown,
+  genAiHosts?: Record<string, GenAiSystem>
+): Attributes | undefined {
+  const system = getGenAiSystem(url, genAiHosts);
+  if (!system) {
+    return undefined;
+  }
+  const path = new URL(url).pathname;
+  const operation = getOperationName(path);
+  if (!operation) {
+    return undefined;
+  }
+
+  const body = asRecord(requestBody);
+  const generationConfig = asRecord(body?.generationConfig);
+  const attributes: Attributes = {
+    [GEN_AI_SYSTEM]: system,
+    [GEN_AI_OPERATION_NAME]: operation,
+  };
+  setIfDefined(
+    attributes,
+    GEN_AI_REQUEST_MODEL,
+    asString(body?.model) ?? getModelFromPath(path)
+  );
+  setIfDefined(
+    attributes,
+    GEN_AI_REQUEST_MAX_TOKENS,
+    asNumber(body?.max_tokens) ??
+      asNumber(body?.max_completion_tokens) ??
+      asNumber(body?.max_output_tokens) ??
+      asNumber(generationConfig?.maxOutputTokens)
+  );
+  setIfDefined(
+    attributes,
+    GEN_AI_REQUEST_TEMPERATURE,
+    asNumber(body?.temperature) ?? asNumber(generationConfig?.temperature)
+  );
+  setIfDefined(
+    attributes,
+    GEN_AI_REQUEST_TOP_P,
+    asNumber(body?.top_p) ?? asNumber(generationConfig?.topP)
+  );
+  return attributes;
+}
+
+/**
+ * Accumulates the GenAI response attributes of a response body or of the
+ * events of a streamed response
+ *
+ * Payloads are merged in order, later values overriding earlier ones, so the
+ * final usage of a stream wins over partial counts.
+ */
+export class GenAiResponseAccumulator {
+  private id?: string;
+  private model?: string;
+  private inputTokens?: number;
+  private outputTokens?: number;
+  private readonly finishReasons = new Map<number, string>();
+
+  /**
+   * Merges a parsed JSON response body or stream event
+   */
+  add(payload: unknown): void {
+    const body = asRecord(payload);
+    if (!body) {
+      return;
+    }
+    // Anthropic message_start and OpenAI Responses API events nest the response
+    const message = asRecord(body.message) ?? asRecord(body.response) ?? body;
+
+    this.id = asString(message.id) ?? asString(body.responseId) ?? this.id;
+    this.model =
+      asString(message.model) ?? asString(body.modelVersion) ?? this.model;
+
+    const usage =
+      asRecord(message.usage) ??
+      asRecord(body.usage) ??
+      asRecord(body.usageMetadata);
+    if (usage) {
+      this.inputTokens =
+        asNumber(usage.prompt_tokens) ??
+        asNumber(usage.input_tokens) ??
+        asNumber(usage.promptTokenCount) ??
+        this.inputTokens;
+      this.outputTokens =
+        asNumber(usage.completion_tokens) ??
+        asNumber(usage.output_tokens) ??
+        asNumber(usage.candidatesTokenCount) ??
+        this.outputTokens;
+    }
+
+    this.addFinishReasons(body, message);
+  }
+
+  private addFinishReasons(
+    body: Record<string, unknown>,
+    message: Record<string, unknown>
+  ): void {
+    // OpenAI / Mistral choices and Gemini candidates
+    const choices = Array.isArray(body.choices)
+      ? body.choices
+      : Array.isArray(body.candidates)
+        ? body.candidates
+        : [];
+    choices.forEach((value: unknown, position) => {
+      const choice = asRecord(value);
+      const reason =
+        asString(choice?.finish_reason) ?? asString(choice?.finishReason);
+      if (reason) {
+        this.finishReasons.set(asNumber(choice?.index) ?? position, reason);
+      }
+    });
+
+    // Anthropic message and message_delta
+    const reason =
+      asString(message.stop_reason) ??
+      asString(asRecord(body.delta)?.stop_reason) ??
+      asString(asRecord(message.incomplete_details)?.reason);
+    if (reason) {
+      this.finishReasons.set(0, reason);
+    }
+  }
+
+  /**
+   * Returns the accumulated response attributes
+   */
+  getAttributes(): Attributes {
+    const attributes: Attributes = {};
+    setIfDefined(attributes, GEN_AI_RESPONSE_ID, this.id);
+    setIfDefined(attributes, GEN_AI_RESPONSE_MODEL, this.model);
+    setIfDefined(attributes, GEN_AI_USAGE_INPUT_TOKENS, this.inputTokens);
+    setIfDefined(attributes, GEN_AI_USAGE_OUTPUT_TOKENS, this.outputTokens);
+    if (this.finishReasons.size > 0) {
+      attributes[GEN_AI_RESPONSE_FINISH_REASONS] = [
+        ...this.finishReasons.entries(),
+      ]
+        .sort(([a], [b]) => a - b)
+        .map(([, reason]) => reason);
+    }
+    return attributes;
+  }
+}
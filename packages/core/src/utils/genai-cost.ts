@@ -0,0 +1,214 @@
+/**
+ * LLM cost estimation from the token usage of GenAI spans, per span and
+ * aggregated per startTrace trace
+ *
+ * Costs are in USD, computed from a pricing table of input/output prices per
+ * million tokens. The built-in table holds the list prices of common models
+ * and can be extended or overridden through the configuration.
+ */
+
+import type { Attributes } from "@opentelemetry/api";
+import {
+  GEN_AI_REQUEST_MODEL,
+  GEN_AI_RESPONSE_MODEL,
+  GEN_AI_USAGE_INPUT_TOKENS,
+  GEN_AI_USAGE_OUTPUT_TOKENS,
+} from "./genai-attributes";
+
+/**
+ * Estimated cost of the request in USD
+ */
+export const GEN_AI_USAGE_COST = "gen_ai.usage.cost";
+/**
+ * Estimated cost in USD of the GenAI requests of a trace, set with the token
+ * totals on the root span of startTrace traces
+ */
+export const PINGOPS_TRACE_GEN_AI_USAGE_COST =
+  "pingops.trace.gen_ai.usage.cost";
+export const PINGOPS_TRACE_GEN_AI_USAGE_INPUT_TOKENS =
+  "pingops.trace.gen_ai.usage.input_tokens";
+export const PINGOPS_TRACE_GEN_AI_USAGE_OUTPUT_TOKENS =
+  "pingops.trace.gen_ai.usage.output_tokens";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface GenAiModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of common models, keyed by model name. An entry also prices the
+ * dated snapshots of the model (e.g. `gpt-4o` also prices `gpt-4o-2024-08-06`)
+ */
+export const DEFAULT_GENAI_PRICES: Readonly<Record<string, GenAiModelPrice>> = {
+  // OpenAI
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60 },
+  "o1-mini": { input: 1.1, output: 4.4 },
+  o3: { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  // Anthropic
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  // Mistral
+  "mistral-large": { input: 2, output: 6 },
+  "mistral-small": { input: 0.2, output: 0.6 },
+  codestral: { input: 0.3, output: 0.9 },
+  // Gemini
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+// Snapshot dates, as in `gpt-4o-2024-08-06` or `claude-3-5-haiku-20241022`,
+// and the `-latest` alias of the newest snapshot
+const MODEL_SNAPSHOT_SUFFIX_PATTERN = /-(\d{4}-\d{2}-\d{2}|\d{8}|latest)$/;
+
+function findModelPrice(
+  name: string,
+  prices: Readonly<Record<string, GenAiModelPrice>>
+): GenAiModelPrice | undefined {
+  if (prices[name]) {
+    return prices[name];
+  }
+  for (const key of Object.keys(prices)) {
+    if (key.toLowerCase() === name) {
+      return prices[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the price of a model: the entry of the model name, or else of the
+ * model name without its snapshot date or `-latest` suffix. Other variants
+ * (e.g. `o1-pro`) are not priced, as they may cost more than their base model.
+ *
+ * @param model - Model name, as requested or as returned by the provider
+ * @param prices - Pricing table, the built-in table by default
+ */
+export function getGenAiModelPrice(
+  model: string,
+  prices: Readonly<Record<string, GenAiModelPrice>> = DEFAULT_GENAI_PRICES
+): GenAiModelPrice | undefined {
+  const name = model.toLowerCase().replace(/^models\//, "");
+  const price = findModelPrice(name, prices);
+  if (price || !MODEL_SNAPSHOT_SUFFIX_PATTERN.test(name)) {
+    return price;
+  }
+  return findModelPrice(
+    name.replace(MODEL_SNAPSHOT_SUFFIX_PATTERN, ""),
+    prices
+  );
+}
+
+/**
+ * Merges configured prices into the built-in pricing table
+ */
+export function getGenAiPrices(
+  overrides?: Record<string, GenAiModelPrice>
+): Readonly<Record<string, GenAiModelPrice>> {
+  return overrides
+    ? { ...DEFAULT_GENAI_PRICES, ...overrides }
+    : DEFAULT_GENAI_PRICES;
+}
+
+/**
+ * Estimates the cost in USD of a GenAI span from its model and token usage
+ *
+ * @returns The cost, or undefined if the token usage or the model price is
+ * unknown
+ */
+export function estimateGenAiCost(
+  attributes: Attributes,
+  prices?: Readonly<Record<string, GenAiModelPrice>>
+): number | undefined {
+  const inputTokens = attributes[GEN_AI_USAGE_INPUT_TOKENS];
+  const outputTokens = attributes[GEN_AI_USAGE_OUTPUT_TOKENS];
+  if (typeof inputTokens !== "number" && typeof outputTokens !== "number") {
+    return undefined;
+  }
+
+  // The response model is the exact version served, the request model may be
+  // an alias or an Azure deployment name
+  const models = [
+    attributes[GEN_AI_RESPONSE_MODEL],
+    attributes[GEN_AI_REQUEST_MODEL],
+  ];
+  for (const model of models) {
+    const price =
+      typeof model === "string" ? getGenAiModelPrice(model, prices) : undefined;
+    if (price) {
+      const cost =
+        ((typeof inputTokens === "number" ? inputTokens : 0) * price.input +
+          (typeof outputTokens === "number" ? outputTokens : 0) *
+            price.output) /
+        1_000_000;
+      // Rounded to avoid floating point noise in exported values
+      return Math.round(cost * 1e9) / 1e9;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Running GenAI usage totals of a trace
+ */
+export class GenAiUsageTotals {
+  private requests = 0;
+  private cost = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  /**
+   * Adds the usage of a GenAI span, with its cost if known
+   */
+  add(attributes: Attributes): void {
+    const cost = attributes[GEN_AI_USAGE_COST];
+    const inputTokens = attributes[GEN_AI_USAGE_INPUT_TOKENS];
+    const outputTokens = attributes[GEN_AI_USAGE_OUTPUT_TOKENS];
+    this.requests++;
+    if (typeof cost === "number") {
+      this.cost = Math.round((this.cost + cost) * 1e9) / 1e9;
+    }
+    if (typeof inputTokens === "number") {
+      this.inputTokens += inputTokens;
+    }
+    if (typeof outputTokens === "number") {
+      this.outputTokens += outputTokens;
+    }
+  }
+
+  /**
+   * Returns the `pingops.trace.gen_ai.usage.*` attributes of the totals, empty
+   * if no GenAI request was made
+   */
+  getAttributes(): Attributes {
+    if (this.requests === 0) {
+      return {};
+    }
+    return {
+      [PINGOPS_TRACE_GEN_AI_USAGE_COST]: this.cost,
+      [PINGOPS_TRACE_GEN_AI_USAGE_INPUT_TOKENS]: this.inputTokens,
+      [PINGOPS_TRACE_GEN_AI_USAGE_OUTPUT_TOKENS]: this.outputTokens,
+    };
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Converts captured HTTP spans to HTTP Archive (HAR) 1.2
+ *
+ * Input is SpanPayload as produced by extractSpanPayload, so header
+ * filtering, header redaction and body capture rules are already applied.
+ */
+
+import type { SpanPayload } from "../types";
+import { HTTP_RESPONSE_CONTENT_ENCODING } from "../filtering/body-decoder";
+import { extractHeadersFromAttributes } from "../filtering/header-filter";
+import { getHttpUrlFromAttributes } from "./http-attributes";
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  serverIPAddress?: string;
+  _traceId: string;
+  _spanId: string;
+}
+
+export interface HarCreator {
+  name: string;
+  version: string;
+}
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: HarCreator;
+    entries: HarEntry[];
+  };
+}
+
+const DEFAULT_CREATOR: HarCreator = { name: "PingOps", version: "1.0" };
+
+type Headers = Record<string, string | string[] | undefined>;
+
+function getString(
+  attributes: Record<string, unknown>,
+  ...keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = attributes[key];
+    if (typeof value === "string" && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function getNumber(
+  attributes: Record<string, unknown>,
+  ...keys: string[]
+): number | undefined {
+  for (const key of keys) {
+    const value = Number(attributes[key]);
+    if (attributes[key] !== undefined && !Number.isNaN(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads headers in object form (extractSpanPayload output) or flat form
+ * (raw instrumentation attributes)
+ */
+function getHeaders(
+  attributes: Record<string, unknown>,
+  prefix: "http.request.header" | "http.response.header"
+): Headers {
+  const value = attributes[prefix];
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return value as Headers;
+  }
+  return extractHeadersFromAttributes(attributes, prefix) ?? {};
+}
+
+function toNameValues(headers: Headers): HarNameValue[] {
+  const result: HarNameValue[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      result.push({ name, value: String(item) });
+    }
+  }
+  return result;
+}
+
+function getHeader(headers: Headers, name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+function parseCookies(header: string | undefined): HarNameValue[] {
+  if (!header) {
+    return [];
+  }
+  return header
+    .split(";")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const index = part.indexOf("=");
+      return index === -1
+        ? { name: part, value: "" }
+        : { name: part.slice(0, index), value: part.slice(index + 1) };
+    });
+}
+
+function parseSetCookies(headers: Headers): HarNameValue[] {
+  const values: string[] = [];
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === "set-cookie" && value !== undefined) {
+      values.push(...(Array.isArray(value) ? value : [value]));
+    }
+  }
+  return values.flatMap((value) => parseCookies(value.split(";")[0]));
+}
+
+function getQueryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function getHttpVersion(attributes: Record<string, unknown>): string {
+  const version = getString(
+    attributes,
+    "network.protocol.version",
+    "http.flavor"
+  );
+  return version ? `HTTP/${version}` : "HTTP/1.1";
+}
+
+/**
+ * Converts a single HTTP span payload to a HAR entry.
+ * Returns null for spans without an HTTP method or URL.
+ */
+export function spanPayloadToHarEntry(payload: SpanPayload): HarEntry | null {
+  const attributes = payload.attributes;
+  const method = getString(attributes, "http.request.method", "http.method");
+  const url = getHttpUrlFromAttributes(attributes);
+  if (!method || !url) {
+    return null;
+  }
+
+  const httpVersion = getHttpVersion(attributes);
+  const requestHeaders = getHeaders(attributes, "http.request.header");
+  const responseHeaders = getHeaders(attributes, "http.response.header");
+
+  const requestBody = getString(attributes, "http.request.body");
+  const responseBody = getString(attributes, "http.response.body");
+  // Compressed response bodies are captured as base64 of the raw bytes
+  const responseEncoding = getString(
+    attributes,
+    HTTP_RESPONSE_CONTENT_ENCODING
+  );
+
+  const entry: HarEntry = {
+    startedDateTime: payload.startTime,
+    time: payload.duration,
+    request: {
+      method: method.toUpperCase(),
+      url,
+      httpVersion,
+      cookies: parseCookies(getHeader(requestHeaders, "cookie")),
+      headers: toNameValues(requestHeaders),
+      queryString: getQueryString(url),
+      headersSize: -1,
+      bodySize: requestBody !== undefined ? Buffer.byteLength(requestBody) : 0,
+    },
+    response: {
+      status:
+        getNumber(
+          attributes,
+          "http.response.status_code",
+          "http.status_code"
+        ) ?? 0,
+      statusText: "",
+      httpVersion,
+      cookies: parseSetCookies(responseHeaders),
+      headers: toNameValues(responseHeaders),
+      content: {
+        size:
+          responseBody === undefined
+            ? 0
+            : responseEncoding
+              ? Buffer.from(responseBody, "base64").length
+              : Buffer.byteLength(responseBody),
+        mimeType: getHeader(responseHeaders, "content-type") ?? "",
+      },
+      redirectURL: getHeader(responseHeaders, "location") ?? "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    // Spans only carry overall timing, so it is reported as wait time
+    timings: {
+      send: 0,
+      wait: payload.duration,
+      receive: 0,
+    },
+    _traceId: payload.traceId,
+    _spanId: payload.spanId,
+  };
+
+  if (requestBody !== undefined) {
+    entry.request.postData = {
+      mimeType: getHeader(requestHeaders, "content-type") ?? "",
+      text: requestBody,
+    };
+  }
+
+  if (responseBody !== undefined) {
+    entry.response.content.text = responseBody;
+    if (responseEncoding) {
+      entry.response.content.encoding = "base64";
+    }
+  }
+
+  const serverIPAddress = getString(
+    attributes,
+    "network.peer.address",
+    "net.peer.ip"
+  );
+  if (serverIPAddress) {
+    entry.serverIPAddress = serverIPAddress;
+  }
+
+  return entry;
+}
+
+/**
+ * Wraps HAR entries in a HAR 1.2 archive
+ */
+export function createHar(
+  entries: HarEntry[],
+  creator: HarCreator = DEFAULT_CREATOR
+): Har {
+  return {
+    log: {
+      version: "1.2",
+      creator,
+      entries,
+    },
+  };
+}
+
+/**
+ * Converts HTTP span payloads to a HAR 1.2 archive, one entry per request.
+ * Entries are sorted by start time; non-HTTP spans are skipped.
+ */
+export function convertToHar(
+  payloads: SpanPayload[],
+  creator: HarCreator = DEFAULT_CREATOR
+): Har {
+  const entries = payloads
+    .map(spanPayloadToHarEntry)
+    .filter((entry): entry is HarEntry => entry !== null)
+    .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+  return createHar(entries, creator);
+}
@@ -50,3 +50,25 @@ export function getHttpUrlFromAttributes(
 
   return undefined;
 }
+
+/**
+ * Extracts the HTTP method from legacy or modern attributes.
+ */
+export function getHttpMethodFromAttributes(
+  attributes: SpanAttributes
+): string | undefined {
+  const method = attributes["http.request.method"] ?? attributes["http.method"];
+  return typeof method === "string" && method.length > 0 ? method : undefined;
+}
+
+/**
+ * Extracts the HTTP response status code from legacy or modern attributes.
+ */
+export function getHttpStatusCodeFromAttributes(
+  attributes: SpanAttributes
+): number | undefined {
+  const statusCode = Number(
+    attributes["http.response.status_code"] ?? attributes["http.status_code"]
+  );
+  return Number.isFinite(statusCode) && statusCode > 0 ? statusCode : undefined;
+}
@@ -5,75 +5,29 @@
 import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 import type { DomainRule, SpanPayload } from "../types";
 import type { HeaderRedactionConfig } from "../filtering/sensitive-headers";
-import { getHttpUrlFromAttributes } from "./http-attributes";
+import {
+  redactJsonBody,
+  type BodyRedactionConfig,
+} from "../filtering/body-redaction";
+import {
+  getBodyTruncationAttributes,
+  getBodyTruncationMarker,
+} from "../filtering/body-truncation";
+import {
+  scrubPiiFromAttributes,
+  type PiiScrubbingConfig,
+} from "../filtering/pii-scrubber";
+import {
+  getHttpMethodFromAttributes,
+  getHttpStatusCodeFromAttributes,
+  getHttpUrlFromAttributes,
+} from "./http-attributes";
 import {
   filterHeaders,
   extractHeadersFromAttributes,
 } from "../filtering/header-filter";
-
-/**
- * Extracts domain from URL
- */
-function extractDomainFromUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    const match = url.match(/^(?:https?:\/\/)?([^/]+)/);
-    return match ? match[1] : "";
-  }
-}
-
-/**
- * Gets domain rule configuration for a given URL
- */
-function getDomainRule(
-  url: string,
-  domainAllowList?: DomainRule[]
-): DomainRule | undefined {
-  if (!domainAllowList) {
-    return undefined;
-  }
-
-  const domain = extractDomainFromUrl(url);
-  for (const rule of domainAllowList) {
-    if (
-      domain === rule.domain ||
-      domain.endsWith(`.${rule.domain}`) ||
-      domain === rule.domain.slice(1)
-    ) {
-      return rule;
-    }
-  }
-  return undefined;
-}
-
-/**
- * Determines if body should be captured based on priority:
- * domain rule > global config > default (false)
- */
-function shouldCaptureBody(
-  domainRule: DomainRule | undefined,
-  globalConfig: boolean | undefined,
-  bodyType: "request" | "response"
-): boolean {
-  // Check domain-specific rule first
-  if (domainRule) {
-    const domainValue =
-      bodyType === "request"
-        ? domainRule.captureRequestBody
-        : domainRule.captureResponseBody;
-    if (domainValue !== undefined) {
-      return domainValue;
-    }
-  }
-  // Fall back to global config
-  if (globalConfig !== undefined) {
-    return globalConfig;
-  }
-  // Default to false
-  return false;
-}
+import { filterUrlAttributes } from "../filtering/query-filter";
+import { getDomainRuleEngine } from "../filtering/rule-engine";
 
 /**
  * Extracts structured payload from a span
@@ -85,30 +39,40 @@ export function extractSpanPayload(
   globalHeadersDenyList?: string[],
   globalCaptureRequestBody?: boolean,
   globalCaptureResponseBody?: boolean,
-  headerRedaction?: HeaderRedactionConfig
+  headerRedaction?: HeaderRedactionConfig,
+  globalBodyRedaction?: BodyRedactionConfig,
+  piiScrubbing?: PiiScrubbingConfig,
+  globalQueryParamsAllowList?: string[],
+  globalQueryParamsDenyList?: string[],
+  queryParamRedaction?: HeaderRedactionConfig
 ): SpanPayload | null {
   const attributes = span.attributes;
   const url = getHttpUrlFromAttributes(attributes);
 
-  // Get domain-specific rule if available
-  const domainRule = url ? getDomainRule(url, domainAllowList) : undefined;
-
-  // Merge global and domain-specific header rules
-  const headersAllowList =
-    domainRule?.headersAllowList ?? globalHeadersAllowList;
-  const headersDenyList = domainRule?.headersDenyList ?? globalHeadersDenyList;
-
-  // Determine if bodies should be captured
-  const shouldCaptureReqBody = shouldCaptureBody(
-    domainRule,
-    globalCaptureRequestBody,
-    "request"
-  );
-  const shouldCaptureRespBody = shouldCaptureBody(
-    domainRule,
-    globalCaptureResponseBody,
-    "response"
+  // Merge global and domain-specific rules
+  const policy = getDomainRuleEngine(domainAllowList).resolve(
+    url,
+    {
+      method: getHttpMethodFromAttributes(attributes),
+      statusCode: getHttpStatusCodeFromAttributes(attributes),
+    },
+    {
+      headersAllowList: globalHeadersAllowList,
+      headersDenyList: globalHeadersDenyList,
+      queryParamsAllowList: globalQueryParamsAllowList,
+      queryParamsDenyList: globalQueryParamsDenyList,
+      captureRequestBody: globalCaptureRequestBody,
+      captureResponseBody: globalCaptureResponseBody,
+      bodyRedaction: globalBodyRedaction,
+    }
   );
+  const {
+    headersAllowList,
+    headersDenyList,
+    queryParamsAllowList,
+    queryParamsDenyList,
+    bodyRedaction,
+  } = policy;
 
   // Extract HTTP headers if available
   let requestHeaders: Record<string, string | string[] | undefined> = {};
@@ -209,15 +173,63 @@ export function extractSpanPayload(
   }
 
   // Remove body attributes if capture is disabled
-  if (!shouldCaptureReqBody) {
+  if (!policy.captureRequestBody) {
     delete extractedAttributes["http.request.body"];
   }
 
-  if (!shouldCaptureRespBody) {
+  if (!policy.captureResponseBody) {
     delete extractedAttributes["http.response.body"];
   }
 
-  // Build span payload
+  // Redact sensitive fields of captured JSON bodies (domain rule overrides global config),
+  // and flag truncated bodies in place of the offsets of their truncation marker
+  for (const bodyType of ["request", "response"] as const) {
+    const key = `http.${bodyType}.body`;
+    const truncationAttributes = getBodyTruncationAttributes(bodyType);
+    const body = extractedAttributes[key];
+    delete extractedAttributes[truncationAttributes.marker];
+    if (typeof body !== "string") {
+      continue;
+    }
+    const truncationMarker = getBodyTruncationMarker(
+      body,
+      attributes[truncationAttributes.marker]
+    );
+    if (bodyRedaction) {
+      extractedAttributes[key] = redactJsonBody(
+        body,
+        bodyRedaction,
+        truncationMarker
+      );
+    }
+    if (truncationMarker) {
+      extractedAttributes[truncationAttributes.truncated] = true;
+    }
+  }
+
+  // Filter query parameters and strip userinfo credentials of every URL attribute
+  filterUrlAttributes(
+    extractedAttributes,
+    queryParamsAllowList,
+    queryParamsDenyList,
+    queryParamRedaction
+  );
+
+  // Mask PII in URLs and bodies last, so it applies whatever the domain rules
+  if (piiScrubbing) {
+    scrubPiiFromAttributes(extractedAttributes, piiScrubbing);
+  }
+
+  return createSpanPayload(span, extractedAttributes);
+}
+
+/**
+ * Builds a SpanPayload from a span and its (already filtered) attributes
+ */
+export function createSpanPayload(
+  span: ReadableSpan,
+  attributes: Record<string, unknown> = span.attributes
+): SpanPayload {
   const spanContext = span.spanContext();
   // parentSpanId may not be available in all versions of ReadableSpan
   const parentSpanId =
@@ -239,7 +251,7 @@ export function extractSpanPayload(
     duration:
       (span.endTime[0] - span.startTime[0]) * 1000 +
       (span.endTime[1] - span.startTime[1]) / 1000000,
-    attributes: extractedAttributes,
+    attributes,
     status: {
       code: span.status.code.toString(),
       message: span.status.message,
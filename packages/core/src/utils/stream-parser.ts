@@ -0,0 +1,232 @@
+/**
+ * Incremental parsing of streamed response bodies: Server-Sent Events
+ * (`text/event-stream`) and newline-delimited JSON.
+ */
+
+import { StringDecoder } from "node:string_decoder";
+import { getMediaType } from "../filtering/content-type-filter";
+
+/** Span attribute for the format of a streamed response body. */
+export const HTTP_RESPONSE_STREAM_FORMAT = "http.response.stream.format";
+
+/** Span attribute for the number of events of a streamed response body. */
+export const HTTP_RESPONSE_STREAM_EVENT_COUNT =
+  "http.response.stream.event_count";
+
+/** Span attribute for the time from request start to the first body byte (ms). */
+export const HTTP_RESPONSE_STREAM_TIME_TO_FIRST_BYTE =
+  "http.response.stream.time_to_first_byte_ms";
+
+/** Span attribute for the time from request start to the last event (ms). */
+export const HTTP_RESPONSE_STREAM_TIME_TO_LAST_EVENT =
+  "http.response.stream.time_to_last_event_ms";
+
+/** Default maximum size of a single event (characters). */
+export const DEFAULT_MAX_STREAM_EVENT_SIZE = 64 * 1024;
+
+export type StreamFormat = "sse" | "ndjson";
+
+/**
+ * Event of a streamed body: an SSE event or an NDJSON line
+ */
+export interface StreamEvent {
+  /** SSE event type (`event:` field) */
+  event?: string;
+  /** SSE event id (`id:` field) */
+  id?: string;
+  /** SSE data (`data:` lines joined with newlines) or NDJSON line */
+  data: string;
+}
+
+const NDJSON_CONTENT_TYPES = new Set([
+  "application/x-ndjson",
+  "application/ndjson",
+  "application/jsonl",
+  "application/x-jsonlines",
+  "application/stream+json",
+]);
+
+/**
+ * Returns the stream format of a body from its content-type header, or
+ * undefined if the body is not a stream
+ */
+export function getStreamFormat(
+  contentType: unknown
+): StreamFormat | undefined {
+  const mediaType = getMediaType(contentType);
+  if (mediaType === "text/event-stream") {
+    return "sse";
+  }
+  if (mediaType && NDJSON_CONTENT_TYPES.has(mediaType)) {
+    return "ndjson";
+  }
+  return undefined;
+}
+
+/**
+ * Serializes an event back to its wire format (normalized line endings)
+ */
+export function serializeStreamEvent(
+  event: StreamEvent,
+  format: StreamFormat
+): string {
+  if (format === "ndjson") {
+    return `${event.data}\n`;
+  }
+  let serialized = "";
+  if (event.event !== undefined) {
+    serialized += `event: ${event.event}\n`;
+  }
+  if (event.id !== undefined) {
+    serialized += `id: ${event.id}\n`;
+  }
+  for (const line of event.data.split("\n")) {
+    serialized += `data: ${line}\n`;
+  }
+  return `${serialized}\n`;
+}
+
+/**
+ * Incremental SSE / NDJSON parser
+ *
+ * Chunks can split lines and UTF-8 characters anywhere. Lines and SSE data
+ * longer than maxEventSize are cut, so memory stays bounded on malformed
+ * streams.
+ */
+export class StreamEventParser {
+  private readonly decoder = new StringDecoder("utf8");
+  private pending = "";
+  private discardingLine = false;
+  private lastCharWasCr = false;
+  private current: { event?: string; id?: string; data: string[] } = {
+    data: [],
+  };
+  private currentSize = 0;
+
+  constructor(
+    private readonly format: StreamFormat,
+    private readonly maxEventSize: number = DEFAULT_MAX_STREAM_EVENT_SIZE
+  ) {}
+
+  /**
+   * Parses a chunk of the body
+   *
+   * @returns The events completed by the chunk
+   */
+  push(chunk: Buffer | string): StreamEvent[] {
+    const text = typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+    const events: StreamEvent[] = [];
+
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char !== "\n" && char !== "\r") {
+        continue;
+      }
+      // "\r\n" is a single line ending, split or not across chunks
+      const isCrLfEnd = char === "\n" && i === start && this.lastCharWasCr;
+      this.lastCharWasCr = char === "\r";
+      if (isCrLfEnd && this.pending === "") {
+        start = i + 1;
+        continue;
+      }
+      this.appendPending(text.slice(start, i));
+      this.handleLine(this.pending, events);
+      this.pending = "";
+      this.discardingLine = false;
+      start = i + 1;
+    }
+    if (start < text.length) {
+      this.lastCharWasCr = false;
+      this.appendPending(text.slice(start));
+    }
+    return events;
+  }
+
+  /**
+   * Completes parsing at the end of the body
+   *
+   * @returns The last event, if the body did not end with a line ending
+   */
+  flush(): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    this.appendPending(this.decoder.end());
+    if (this.pending !== "") {
+      this.handleLine(this.pending, events);
+      this.pending = "";
+    }
+    if (this.format === "sse") {
+      this.dispatchSseEvent(events);
+    }
+    return events;
+  }
+
+  private appendPending(text: string): void {
+    if (this.discardingLine) {
+      return;
+    }
+    const room = this.maxEventSize - this.pending.length;
+    if (text.length > room) {
+      this.pending += text.slice(0, room);
+      this.discardingLine = true;
+    } else {
+      this.pending += text;
+    }
+  }
+
+  private handleLine(line: string, events: StreamEvent[]): void {
+    if (this.format === "ndjson") {
+      if (line.trim() !== "") {
+        events.push({ data: line });
+      }
+      return;
+    }
+
+    // SSE: a blank line dispatches the event, ":" starts a comment
+    if (line === "") {
+      this.dispatchSseEvent(events);
+      return;
+    }
+    if (line.startsWith(":")) {
+      return;
+    }
+    const colonIndex = line.indexOf(":");
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "data":
+        if (this.currentSize + value.length <= this.maxEventSize) {
+          this.current.data.push(value);
+          this.currentSize += value.length + 1;
+        }
+        break;
+      case "event":
+        this.current.event = value;
+        break;
+      case "id":
+        this.current.id = value;
+        break;
+      default:
+        // "retry" and unknown fields are not captured
+        break;
+    }
+  }
+
+  private dispatchSseEvent(events: StreamEvent[]): void {
+    const { event, id, data } = this.current;
+    // Events without data are not dispatched, as in browsers
+    if (data.length > 0) {
+      events.push({
+        ...(event !== undefined && { event }),
+        ...(id !== undefined && { id }),
+        data: data.join("\n"),
+      });
+    }
+    this.current = { data: [] };
+    this.currentSize = 0;
+  }
+}
@@ -1,6 +1,9 @@
+import { brotliCompressSync, deflateRawSync, gzipSync } from "node:zlib";
 import { describe, expect, it } from "vitest";
 import {
   bufferToBodyString,
+  decompressBody,
+  decompressBodyHead,
   isCompressedContentEncoding,
 } from "../src/filtering/body-decoder";
 
@@ -47,3 +50,72 @@ describe("bufferToBodyString", () => {
     expect(bufferToBodyString(buffer)).toBe("hello world");
   });
 });
+
+describe("decompressBody", () => {
+  const body = JSON.stringify({ user: { password: "hunter2" } });
+
+  it("decompresses supported encodings", () => {
+    expect(decompressBody(gzipSync(body), "gzip")?.toString()).toBe(body);
+    expect(decompressBody(brotliCompressSync(body), "BR")?.toString()).toBe(
+      body
+    );
+    expect(decompressBody(deflateRawSync(body), "deflate")?.toString()).toBe(
+      body
+    );
+    expect(
+      decompressBody(brotliCompressSync(gzipSync(body)), [
+        "gzip",
+        "br",
+      ])?.toString()
+    ).toBe(body);
+  });
+
+  it("returns null for corrupt, unsupported or oversized bodies", () => {
+    expect(decompressBody(Buffer.from(body), "gzip")).toBeNull();
+    expect(decompressBody(gzipSync(body), "zstd")).toBeNull();
+
+    const bomb = gzipSync(Buffer.alloc(10 * 1024 * 1024));
+    expect(bomb.length).toBeLessThan(20 * 1024);
+    expect(decompressBody(bomb, "gzip", 1024)).toBeNull();
+  });
+});
+
+describe("decompressBodyHead", () => {
+  it("decompresses bodies within the limit whole", () => {
+    const body = "hello world";
+    expect(decompressBodyHead(gzipSync(body), "gzip", 11)).toEqual({
+      body: Buffer.from(body),
+      isTruncated: false,
+    });
+    expect(decompressBodyHead(Buffer.from(body), "gzip", 11)).toBeNull();
+  });
+
+  it("stops inflation at the limit and keeps the head", () => {
+    const body = Buffer.from(
+      JSON.stringify(
+        Array.from({ length: 10_000 }, (_, id) => ({ id, name: `user${id}` }))
+      )
+    );
+    for (const [compressed, encoding] of [
+      [gzipSync(body), "gzip"],
+      [brotliCompressSync(body), "br"],
+    ] as const) {
+      expect(decompressBodyHead(compressed, encoding, 1000)).toEqual({
+        body: body.subarray(0, 1000),
+        isTruncated: true,
+      });
+    }
+  });
+
+  it("decompresses the beginning of a partial body", () => {
+    const compressed = gzipSync(Buffer.alloc(1000, "a"));
+    const head = decompressBodyHead(
+      compressed.subarray(0, compressed.length - 8),
+      "gzip",
+      2000,
+      true
+    );
+    expect(head?.isTruncated).toBe(true);
+    expect(head?.body.toString()).toBe("a".repeat(1000));
+  });
+});
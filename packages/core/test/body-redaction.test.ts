@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  isSensitiveBodyKey,
+  redactJsonBody,
+} from "../src/filtering/body-redaction";
+import { createTruncatedBody } from "../src/filtering/body-truncation";
+import { HeaderRedactionStrategy } from "../src/filtering/sensitive-headers";
+
+describe("isSensitiveBodyKey", () => {
+  it("matches case-insensitively ignoring separators", () => {
+    expect(isSensitiveBodyKey("Password")).toBe(true);
+    expect(isSensitiveBodyKey("cardNumber")).toBe(true);
+    expect(isSensitiveBodyKey("user_ssn")).toBe(true);
+    expect(isSensitiveBodyKey("email")).toBe(false);
+    expect(isSensitiveBodyKey("max_tokens")).toBe(false);
+  });
+});
+
+describe("redactJsonBody", () => {
+  const body = JSON.stringify({
+    user: { name: "Ada", password: "hunter2", email: "ada@example.com" },
+    cards: [
+      { card_number: "4242424242424242", brand: "visa" },
+      { card_number: "5555555555554444", brand: "mc" },
+    ],
+  });
+
+  it("redacts keys matching sensitive patterns at any depth", () => {
+    expect(JSON.parse(redactJsonBody(body, {}))).toEqual({
+      user: { name: "Ada", password: "[REDACTED]", email: "ada@example.com" },
+      cards: [
+        { card_number: "[REDACTED]", brand: "visa" },
+        { card_number: "[REDACTED]", brand: "mc" },
+      ],
+    });
+  });
+
+  it("redacts JSONPath expressions", () => {
+    const redacted = redactJsonBody(body, {
+      sensitiveKeys: [],
+      jsonPaths: ["$.user.email", "$.cards[*].brand", "$['user']['name']"],
+    });
+    expect(JSON.parse(redacted)).toEqual({
+      user: {
+        name: "[REDACTED]",
+        password: "hunter2",
+        email: "[REDACTED]",
+      },
+      cards: [
+        { card_number: "4242424242424242", brand: "[REDACTED]" },
+        { card_number: "5555555555554444", brand: "[REDACTED]" },
+      ],
+    });
+
+    expect(
+      JSON.parse(
+        redactJsonBody(body, {
+          sensitiveKeys: [],
+          jsonPaths: ["$..brand", "$.cards[0]"],
+        })
+      )
+    ).toEqual({
+      user: { name: "Ada", password: "hunter2", email: "ada@example.com" },
+      cards: [
+        "[REDACTED]",
+        { card_number: "5555555555554444", brand: "[REDACTED]" },
+      ],
+    });
+  });
+
+  it("supports partial and remove strategies", () => {
+    const partial: unknown = JSON.parse(
+      redactJsonBody(body, {
+        strategy: HeaderRedactionStrategy.PARTIAL_END,
+        redactionString: "****",
+      })
+    );
+    expect(partial).toMatchObject({
+      cards: [{ card_number: "****4242" }, { card_number: "****4444" }],
+    });
+
+    const removed: unknown = JSON.parse(
+      redactJsonBody(body, {
+        jsonPaths: ["$.cards[1]"],
+        strategy: HeaderRedactionStrategy.REMOVE,
+      })
+    );
+    expect(removed).toEqual({
+      user: { name: "Ada", email: "ada@example.com" },
+      cards: [{ brand: "visa" }],
+    });
+  });
+
+  it("hashes values with HASH strategy", () => {
+    const hashed = JSON.parse(
+      redactJsonBody(body, {
+        strategy: HeaderRedactionStrategy.HASH,
+        hashKey: "test-key",
+      })
+    ) as { cards: Array<{ card_number: string }> };
+    expect(hashed.cards[0].card_number).toMatch(/^hmac-sha256:[0-9a-f]{32}$/);
+    expect(hashed.cards[0].card_number).not.toBe(hashed.cards[1].card_number);
+  });
+
+  it("redacts sensitive keys of truncated and NDJSON bodies", () => {
+    expect(redactJsonBody('{"password": "trunc', {})).toBe(
+      '{"password": "[REDACTED]"'
+    );
+    const truncated = createTruncatedBody(
+      "response",
+      '{"user": {"password": "hunter2", "name": "Ada"}, "items": [1, 2',
+      'ken": "x", "refresh_token": "abc"}, "cvv": 123}',
+      90,
+      40
+    );
+    expect(
+      redactJsonBody(
+        truncated.body,
+        { jsonPaths: ["$.user.name"] },
+        truncated.marker
+      )
+    ).toBe(
+      '{"user": {"password": "[REDACTED]", "name": "[REDACTED]"}, "items": [1, 2' +
+        "[truncated response body; size=90; omitted=40]" +
+        'ken": "x", "refresh_token": "[REDACTED]"}, "cvv": "[REDACTED]"}'
+    );
+    // The tail may start inside a string
+    const truncatedInString = createTruncatedBody(
+      "request",
+      '{"a": "',
+      'b"}], "secret": {"k": "v"}, "ok": 1}',
+      60,
+      30
+    );
+    expect(
+      redactJsonBody(
+        truncatedInString.body,
+        { strategy: HeaderRedactionStrategy.REMOVE },
+        truncatedInString.marker
+      )
+    ).toBe(
+      '{"a": "' +
+        "[truncated request body; size=60; omitted=30]" +
+        'b"}], "ok": 1}'
+    );
+    // Text looking like a marker is part of the body
+    expect(
+      redactJsonBody(
+        '{"note": "[truncated request body; size=1; omitted=1]", "password": "t"}]',
+        {}
+      )
+    ).toBe(
+      '{"note": "[truncated request body; size=1; omitted=1]", "password": "[REDACTED]"}]'
+    );
+    expect(redactJsonBody('{"api_key": "k1"}\n{"api_key": "k2"}\n', {})).toBe(
+      '{"api_key": "[REDACTED]"}\n{"api_key": "[REDACTED]"}\n'
+    );
+    expect(redactJsonBody('[{"id": 1}, {"id"', { jsonPaths: ["$[0]"] })).toBe(
+      "[REDACTED]"
+    );
+  });
+
+  it("returns non-JSON and unchanged bodies as is", () => {
+    expect(redactJsonBody('{"name": "trunc', {})).toBe('{"name": "trunc');
+    expect(redactJsonBody("password=hunter2", {})).toBe("password=hunter2");
+    const formatted = '{ "name": "Ada" }';
+    expect(redactJsonBody(formatted, {})).toBe(formatted);
+    expect(redactJsonBody(body, { enabled: false })).toBe(body);
+  });
+});
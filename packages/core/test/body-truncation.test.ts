@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTruncatedBody,
+  getBodyTruncationMarker,
+} from "../src/filtering/body-truncation";
+
+describe("createTruncatedBody", () => {
+  it("joins the head and tail with the marker and locates it", () => {
+    const truncated = createTruncatedBody("response", "abc", "xyz", 26, 20);
+
+    expect(truncated.body).toBe(
+      "abc[truncated response body; size=26; omitted=20]xyz"
+    );
+    expect(truncated.body.slice(...truncated.marker)).toBe(
+      "[truncated response body; size=26; omitted=20]"
+    );
+    expect(createTruncatedBody("request", "abc", "").body).toBe(
+      "abc[truncated request body; size=unknown; omitted=unknown]"
+    );
+  });
+});
+
+describe("getBodyTruncationMarker", () => {
+  it("reads marker offsets that are within the body", () => {
+    expect(getBodyTruncationMarker("abc[marker]xyz", [3, 11])).toEqual([3, 11]);
+    expect(getBodyTruncationMarker("abc", undefined)).toBeUndefined();
+    expect(getBodyTruncationMarker("abc", [1, 5])).toBeUndefined();
+    expect(getBodyTruncationMarker("abc", [2, 1])).toBeUndefined();
+    expect(getBodyTruncationMarker("abc", ["1", "2"])).toBeUndefined();
+  });
+});
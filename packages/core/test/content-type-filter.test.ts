@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMediaType,
+  isBinaryContentType,
+  isBodyContentTypeAllowed,
+} from "../src/filtering/content-type-filter";
+
+describe("getMediaType", () => {
+  it("strips parameters and lowercases", () => {
+    expect(getMediaType("Application/JSON; charset=utf-8")).toBe(
+      "application/json"
+    );
+    expect(getMediaType(["text/plain", "text/html"])).toBe("text/plain");
+    expect(getMediaType(undefined)).toBeUndefined();
+    expect(getMediaType(" ; charset=utf-8")).toBeUndefined();
+  });
+});
+
+describe("isBodyContentTypeAllowed", () => {
+  it("captures everything without lists", () => {
+    expect(isBodyContentTypeAllowed("image/png")).toBe(true);
+    expect(isBodyContentTypeAllowed(undefined)).toBe(true);
+  });
+
+  it("matches exact and wildcard patterns of the allow list", () => {
+    const allowList = ["application/json", "application/*+json", "text/*"];
+    expect(isBodyContentTypeAllowed("application/json", allowList)).toBe(true);
+    expect(
+      isBodyContentTypeAllowed("application/problem+json", allowList)
+    ).toBe(true);
+    expect(
+      isBodyContentTypeAllowed("text/html; charset=utf-8", allowList)
+    ).toBe(true);
+    expect(isBodyContentTypeAllowed("application/pdf", allowList)).toBe(false);
+    expect(isBodyContentTypeAllowed(undefined, allowList)).toBe(false);
+  });
+
+  it("gives the deny list priority over the allow list", () => {
+    expect(
+      isBodyContentTypeAllowed(
+        "text/event-stream",
+        ["text/*"],
+        ["text/event-stream"]
+      )
+    ).toBe(false);
+    expect(isBodyContentTypeAllowed("image/png", undefined, ["image/*"])).toBe(
+      false
+    );
+    expect(isBodyContentTypeAllowed(undefined, undefined, ["image/*"])).toBe(
+      true
+    );
+  });
+});
+
+describe("isBinaryContentType", () => {
+  it("classifies known media types", () => {
+    expect(isBinaryContentType("image/png")).toBe(true);
+    expect(isBinaryContentType("application/x-protobuf")).toBe(true);
+    expect(isBinaryContentType("application/json; charset=utf-8")).toBe(false);
+    expect(isBinaryContentType("application/vnd.api+json")).toBe(false);
+    expect(isBinaryContentType("application/x-custom")).toBeUndefined();
+    expect(isBinaryContentType(undefined)).toBeUndefined();
+  });
+});
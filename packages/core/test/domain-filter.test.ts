@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { shouldCaptureSpan } from "../src/filtering/domain-filter";
+import {
+  domainRuleMatches,
+  PRIVATE_NETWORK_RULES,
+} from "../src/filtering/domain-filter";
+import { shouldCaptureSpan } from "../src/filtering/rule-engine";
 import type { DomainRule } from "../src/types";
 
 describe("shouldCaptureSpan", () => {
@@ -49,6 +53,162 @@ describe("shouldCaptureSpan", () => {
     ).toBe(false);
   });
 
+  it("supports glob domains and paths", () => {
+    const allowList: DomainRule[] = [
+      { domain: "*.s3.*.amazonaws.com" },
+      { domain: "api.example.com", paths: ["/v1/users/*/orders"] },
+    ];
+
+    expect(
+      shouldCaptureSpan(
+        "https://bucket.s3.eu-west-1.amazonaws.com/key",
+        allowList
+      )
+    ).toBe(true);
+    expect(
+      shouldCaptureSpan("https://a.b.s3.eu-west-1.amazonaws.com/key", allowList)
+    ).toBe(false);
+    expect(
+      shouldCaptureSpan("https://api.example.com/v1/users/42/orders", allowList)
+    ).toBe(true);
+    expect(
+      shouldCaptureSpan("https://api.example.com/v1/users/42/cart", allowList)
+    ).toBe(false);
+
+    const deepRule: DomainRule = { domain: "**.amazonaws.com" };
+    expect(domainRuleMatches(deepRule, "a.b.s3.amazonaws.com")).toBe(true);
+    expect(domainRuleMatches(deepRule, "amazonaws.com.evil.io")).toBe(false);
+  });
+
+  it("supports regex rules", () => {
+    const allowList: DomainRule[] = [
+      { domainRegex: /^api-(us|eu)\d*\.vendor\.io$/, pathRegex: "^/v[12]/" },
+    ];
+
+    expect(shouldCaptureSpan("https://api-eu2.vendor.io/v2/x", allowList)).toBe(
+      true
+    );
+    expect(shouldCaptureSpan("https://api-ap.vendor.io/v2/x", allowList)).toBe(
+      false
+    );
+    expect(shouldCaptureSpan("https://api-us.vendor.io/v3/x", allowList)).toBe(
+      false
+    );
+    expect(
+      shouldCaptureSpan("https://api.example.com/", [{ domainRegex: "(" }])
+    ).toBe(false);
+  });
+
+  it("matches methods, status codes, ports and schemes", () => {
+    const allowList: DomainRule[] = [
+      { domain: "api.stripe.com", methods: ["post"] },
+      { domain: "api.example.com", statusCodes: ["5xx", 429, "400-403"] },
+      { domain: "internal.local", ports: [8443], schemes: ["https"] },
+    ];
+
+    expect(
+      shouldCaptureSpan("https://api.stripe.com/v1/charges", allowList, [], {
+        method: "POST",
+      })
+    ).toBe(true);
+    expect(
+      shouldCaptureSpan("https://api.stripe.com/v1/charges", allowList, [], {
+        method: "GET",
+      })
+    ).toBe(false);
+
+    for (const statusCode of [503, 429, 401]) {
+      expect(
+        shouldCaptureSpan("https://api.example.com/", allowList, [], {
+          statusCode,
+        })
+      ).toBe(true);
+    }
+    expect(
+      shouldCaptureSpan("https://api.example.com/", allowList, [], {
+        statusCode: 404,
+      })
+    ).toBe(false);
+    expect(shouldCaptureSpan("https://api.example.com/", allowList)).toBe(
+      false
+    );
+
+    expect(shouldCaptureSpan("https://internal.local:8443/", allowList)).toBe(
+      true
+    );
+    expect(shouldCaptureSpan("http://internal.local:8443/", allowList)).toBe(
+      false
+    );
+    expect(shouldCaptureSpan("https://internal.local/", allowList)).toBe(false);
+  });
+
+  it("honors paths and conditions on deny-list rules", () => {
+    const denyList: DomainRule[] = [
+      { domain: "api.example.com", paths: ["/health"], methods: ["GET"] },
+    ];
+
+    expect(
+      shouldCaptureSpan("https://api.example.com/health", undefined, denyList, {
+        method: "GET",
+      })
+    ).toBe(false);
+    expect(
+      shouldCaptureSpan("https://api.example.com/health", undefined, denyList, {
+        method: "POST",
+      })
+    ).toBe(true);
+    expect(
+      shouldCaptureSpan("https://api.example.com/users", undefined, denyList, {
+        method: "GET",
+      })
+    ).toBe(true);
+  });
+
+  it("matches IP literals against CIDR ranges", () => {
+    const allowList: DomainRule[] = [
+      { cidrs: ["10.2.0.0/16", "2001:db8::/32", "203.0.113.7"] },
+    ];
+
+    expect(shouldCaptureSpan("http://10.2.3.4:8080/api", allowList)).toBe(true);
+    expect(shouldCaptureSpan("10.2.3.4:8080/api", allowList)).toBe(true);
+    expect(shouldCaptureSpan("http://10.3.0.1/api", allowList)).toBe(false);
+    expect(shouldCaptureSpan("http://[2001:db8::1]:8080/", allowList)).toBe(
+      true
+    );
+    expect(shouldCaptureSpan("https://203.0.113.7/", allowList)).toBe(true);
+    expect(shouldCaptureSpan("https://203.0.113.8/", allowList)).toBe(false);
+    expect(shouldCaptureSpan("https://api.example.com/", allowList)).toBe(
+      false
+    );
+  });
+
+  it("denies private networks with the built-in rules", () => {
+    const denyList = [...PRIVATE_NETWORK_RULES];
+
+    for (const url of [
+      "http://10.2.3.4:8080/",
+      "http://172.20.0.1/",
+      "http://192.168.1.10/",
+      "http://127.0.0.1:3000/",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]:8080/",
+      "http://[fd12:3456::1]/",
+      "http://[fe80::1]/",
+      "http://[::ffff:192.168.0.1]/",
+      "http://localhost:3000/",
+    ]) {
+      expect(shouldCaptureSpan(url, undefined, denyList)).toBe(false);
+    }
+    for (const url of [
+      "https://api.stripe.com/v1",
+      "https://8.8.8.8/",
+      "https://172.32.0.1/",
+      "https://[2606:4700::1111]/",
+    ]) {
+      expect(shouldCaptureSpan(url, undefined, denyList)).toBe(true);
+    }
+  });
+
   it("handles malformed URL strings with fallback parsing", () => {
     const allowList: DomainRule[] = [{ domain: "api.example.com" }];
 
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  GenAiResponseAccumulator,
+  getGenAiRequestAttributes,
+  getGenAiSystem,
+} from "../src/utils/genai-attributes";
+
+function accumulate(payloads: unknown[]) {
+  const accumulator = new GenAiResponseAccumulator();
+  payloads.forEach((payload) => accumulator.add(payload));
+  return accumulator.getAttributes();
+}
+
+describe("getGenAiSystem", () => {
+  it("recognizes provider hosts and custom hosts", () => {
+    expect(getGenAiSystem("https://api.openai.com/v1/chat/completions")).toBe(
+      "openai"
+    );
+    expect(
+      getGenAiSystem("https://my-resource.openai.azure.com/openai/x")
+    ).toBe("az.ai.openai");
+    expect(
+      getGenAiSystem("http://127.0.0.1:4000/v1/messages", {
+        "127.0.0.1:4000": "anthropic",
+      })
+    ).toBe("anthropic");
+    expect(getGenAiSystem("https://api.example.com/v1/chat")).toBeUndefined();
+  });
+});
+
+describe("getGenAiRequestAttributes", () => {
+  it("extracts the operation, model and parameters", () => {
+    expect(
+      getGenAiRequestAttributes("https://api.openai.com/v1/chat/completions", {
+        model: "gpt-4o-mini",
+        max_completion_tokens: 256,
+        temperature: 0.2,
+        messages: [],
+      })
+    ).toEqual({
+      "gen_ai.system": "openai",
+      "gen_ai.operation.name": "chat",
+      "gen_ai.request.model": "gpt-4o-mini",
+      "gen_ai.request.max_tokens": 256,
+      "gen_ai.request.temperature": 0.2,
+    });
+
+    expect(
+      getGenAiRequestAttributes(
+        "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse",
+        { generationConfig: { maxOutputTokens: 100, topP: 0.9 } }
+      )
+    ).toEqual({
+      "gen_ai.system": "gcp.gemini",
+      "gen_ai.operation.name": "generate_content",
+      "gen_ai.request.model": "gemini-2.0-flash",
+      "gen_ai.request.max_tokens": 100,
+      "gen_ai.request.top_p": 0.9,
+    });
+
+    expect(
+      getGenAiRequestAttributes(
+        "https://res.openai.azure.com/openai/deployments/prod-gpt4/embeddings?api-version=2024-02-01"
+      )
+    ).toMatchObject({
+      "gen_ai.operation.name": "embeddings",
+      "gen_ai.request.model": "prod-gpt4",
+    });
+  });
+
+  it("ignores non-inference endpoints", () => {
+    expect(
+      getGenAiRequestAttributes("https://api.openai.com/v1/models")
+    ).toBeUndefined();
+  });
+});
+
+describe("GenAiResponseAccumulator", () => {
+  it("extracts OpenAI and Anthropic responses", () => {
+    expect(
+      accumulate([
+        {
+          id: "chatcmpl-1",
+          model: "gpt-4o-mini-2024-07-18",
+          choices: [
+            { index: 0, finish_reason: "stop" },
+            { index: 1, finish_reason: "length" },
+          ],
+          usage: { prompt_tokens: 12, completion_tokens: 34 },
+        },
+      ])
+    ).toEqual({
+      "gen_ai.response.id": "chatcmpl-1",
+      "gen_ai.response.model": "gpt-4o-mini-2024-07-18",
+      "gen_ai.usage.input_tokens": 12,
+      "gen_ai.usage.output_tokens": 34,
+      "gen_ai.response.finish_reasons": ["stop", "length"],
+    });
+
+    expect(
+      accumulate([
+        {
+          id: "msg_1",
+          model: "claude-sonnet-4-5",
+          stop_reason: "end_turn",
+          usage: { input_tokens: 20, output_tokens: 5 },
+        },
+      ])
+    ).toMatchObject({
+      "gen_ai.usage.input_tokens": 20,
+      "gen_ai.response.finish_reasons": ["end_turn"],
+    });
+  });
+
+  it("merges streamed events", () => {
+    // Anthropic
+    expect(
+      accumulate([
+        {
+          type: "message_start",
+          message: {
+            id: "msg_2",
+            model: "claude-sonnet-4-5",
+            usage: { input_tokens: 25, output_tokens: 1 },
+          },
+        },
+        { type: "content_block_delta", delta: { text: "Hi" } },
+        {
+          type: "message_delta",
+          delta: { stop_reason: "max_tokens" },
+          usage: { output_tokens: 15 },
+        },
+      ])
+    ).toEqual({
+      "gen_ai.response.id": "msg_2",
+      "gen_ai.response.model": "claude-sonnet-4-5",
+      "gen_ai.usage.input_tokens": 25,
+      "gen_ai.usage.output_tokens": 15,
+      "gen_ai.response.finish_reasons": ["max_tokens"],
+    });
+
+    // OpenAI chat completions with include_usage
+    expect(
+      accumulate([
+        { id: "c1", model: "gpt-4o", choices: [{ index: 0, delta: {} }] },
+        { id: "c1", choices: [{ index: 0, finish_reason: "tool_calls" }] },
+        {
+          id: "c1",
+          choices: [],
+          usage: { prompt_tokens: 3, completion_tokens: 4 },
+        },
+      ])
+    ).toMatchObject({
+      "gen_ai.usage.output_tokens": 4,
+      "gen_ai.response.finish_reasons": ["tool_calls"],
+    });
+
+    // Gemini
+    expect(
+      accumulate([
+        {
+          candidates: [{ content: {}, finishReason: "STOP" }],
+          usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2 },
+          modelVersion: "gemini-2.0-flash",
+          responseId: "r1",
+        },
+      ])
+    ).toEqual({
+      "gen_ai.response.id": "r1",
+      "gen_ai.response.model": "gemini-2.0-flash",
+      "gen_ai.usage.input_tokens": 8,
+      "gen_ai.usage.output_tokens": 2,
+      "gen_ai.response.finish_reasons": ["STOP"],
+    });
+  });
+});
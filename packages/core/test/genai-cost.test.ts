@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  GenAiUsageTotals,
+  estimateGenAiCost,
+  getGenAiModelPrice,
+  getGenAiPrices,
+} from "../src/utils/genai-cost";
+
+describe("getGenAiModelPrice", () => {
+  it("matches the model name or its dated snapshots", () => {
+    expect(getGenAiModelPrice("gpt-4o-mini-2024-07-18")).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+    expect(getGenAiModelPrice("gpt-4o-2024-08-06")?.input).toBe(2.5);
+    expect(getGenAiModelPrice("claude-3-5-haiku-20241022")?.input).toBe(0.8);
+    expect(getGenAiModelPrice("models/gemini-1.5-flash")?.output).toBe(0.3);
+    expect(getGenAiModelPrice("my-fine-tune")).toBeUndefined();
+  });
+
+  it("does not price variants of a known model", () => {
+    expect(getGenAiModelPrice("o1-pro")).toBeUndefined();
+    expect(getGenAiModelPrice("o3-pro-2025-06-10")).toBeUndefined();
+    expect(getGenAiModelPrice("gemini-1.5-flash-002")).toBeUndefined();
+  });
+
+  it("uses configured prices over the built-in ones", () => {
+    const prices = getGenAiPrices({
+      "gpt-4o": { input: 1, output: 2 },
+      "my-fine-tune": { input: 3, output: 4 },
+    });
+    expect(getGenAiModelPrice("gpt-4o-2024-08-06", prices)?.input).toBe(1);
+    expect(getGenAiModelPrice("gpt-4o-mini", prices)?.input).toBe(0.15);
+    expect(getGenAiModelPrice("my-fine-tune", prices)?.output).toBe(4);
+  });
+});
+
+describe("estimateGenAiCost", () => {
+  it("prices input and output tokens of the response model", () => {
+    expect(
+      estimateGenAiCost({
+        "gen_ai.request.model": "my-azure-deployment",
+        "gen_ai.response.model": "gpt-4o-2024-08-06",
+        "gen_ai.usage.input_tokens": 1000,
+        "gen_ai.usage.output_tokens": 500,
+      })
+    ).toBe(0.0075);
+    expect(
+      estimateGenAiCost({
+        "gen_ai.request.model": "claude-3-5-haiku-latest",
+        "gen_ai.usage.input_tokens": 2_000_000,
+      })
+    ).toBe(1.6);
+  });
+
+  it("returns undefined without token usage or known model", () => {
+    expect(
+      estimateGenAiCost({ "gen_ai.request.model": "gpt-4o" })
+    ).toBeUndefined();
+    expect(
+      estimateGenAiCost({
+        "gen_ai.request.model": "my-fine-tune",
+        "gen_ai.usage.input_tokens": 10,
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe("GenAiUsageTotals", () => {
+  it("sums the usage of the spans of a trace", () => {
+    const totals = new GenAiUsageTotals();
+    expect(totals.getAttributes()).toEqual({});
+
+    totals.add({
+      "gen_ai.usage.input_tokens": 100,
+      "gen_ai.usage.output_tokens": 20,
+      "gen_ai.usage.cost": 0.1,
+    });
+    totals.add({ "gen_ai.usage.input_tokens": 50, "gen_ai.usage.cost": 0.2 });
+    totals.add({ "gen_ai.usage.output_tokens": 5 });
+
+    expect(totals.getAttributes()).toEqual({
+      "pingops.trace.gen_ai.usage.cost": 0.3,
+      "pingops.trace.gen_ai.usage.input_tokens": 150,
+      "pingops.trace.gen_ai.usage.output_tokens": 25,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { describe, expect, it } from "vitest";
+import type { SpanPayload } from "../src/types";
+import { convertToHar, spanPayloadToHarEntry } from "../src/utils/har";
+import { extractSpanPayload } from "../src/utils/span-extractor";
+
+function createSpan(attributes: Record<string, unknown>): ReadableSpan {
+  return {
+    name: "GET",
+    kind: SpanKind.CLIENT,
+    attributes,
+    startTime: [1000, 0],
+    endTime: [1000, 250000000],
+    status: { code: SpanStatusCode.UNSET },
+    spanContext() {
+      return {
+        traceId: "1234567890abcdef1234567890abcdef",
+        spanId: "abcdef1234567890",
+        traceFlags: 1,
+      };
+    },
+  } as unknown as ReadableSpan;
+}
+
+function createPayload(
+  attributes: Record<string, unknown>,
+  startTime = "2024-01-01T00:00:00.000Z"
+): SpanPayload {
+  return {
+    traceId: "1234567890abcdef1234567890abcdef",
+    spanId: "abcdef1234567890",
+    name: "GET",
+    kind: "2",
+    startTime,
+    endTime: startTime,
+    duration: 12,
+    attributes,
+    status: { code: "0" },
+  };
+}
+
+describe("spanPayloadToHarEntry", () => {
+  it("maps request and response fields", () => {
+    const entry = spanPayloadToHarEntry(
+      createPayload({
+        "http.request.method": "post",
+        "url.full": "https://api.example.com/v1/users?page=2&sort=name",
+        "http.response.status_code": 201,
+        "network.protocol.version": "2",
+        "network.peer.address": "10.0.0.1",
+        "http.request.header": {
+          "content-type": "application/json",
+          cookie: "session=abc; theme=dark",
+        },
+        "http.response.header": {
+          "content-type": "application/json",
+          "set-cookie": ["id=1; Path=/; HttpOnly", "lang=en"],
+        },
+        "http.request.body": '{"name":"Ada"}',
+        "http.response.body": '{"id":1}',
+      })
+    );
+
+    expect(entry).not.toBeNull();
+    expect(entry?.startedDateTime).toBe("2024-01-01T00:00:00.000Z");
+    expect(entry?.time).toBe(12);
+    expect(entry?.serverIPAddress).toBe("10.0.0.1");
+    expect(entry?.request).toMatchObject({
+      method: "POST",
+      url: "https://api.example.com/v1/users?page=2&sort=name",
+      httpVersion: "HTTP/2",
+      queryString: [
+        { name: "page", value: "2" },
+        { name: "sort", value: "name" },
+      ],
+      cookies: [
+        { name: "session", value: "abc" },
+        { name: "theme", value: "dark" },
+      ],
+      postData: { mimeType: "application/json", text: '{"name":"Ada"}' },
+      bodySize: 14,
+    });
+    expect(entry?.response).toMatchObject({
+      status: 201,
+      cookies: [
+        { name: "id", value: "1" },
+        { name: "lang", value: "en" },
+      ],
+      content: { size: 8, mimeType: "application/json", text: '{"id":1}' },
+    });
+    expect(entry?.response.headers).toContainEqual({
+      name: "set-cookie",
+      value: "lang=en",
+    });
+  });
+
+  it("marks compressed response bodies as base64", () => {
+    const entry = spanPayloadToHarEntry(
+      createPayload({
+        "http.method": "GET",
+        "http.url": "https://api.example.com/",
+        "http.status_code": 200,
+        "http.response.body": Buffer.from("hello").toString("base64"),
+        "http.response.content_encoding": "gzip",
+      })
+    );
+
+    expect(entry?.response.content).toMatchObject({
+      size: 5,
+      encoding: "base64",
+    });
+  });
+
+  it("returns null for non-HTTP spans", () => {
+    expect(
+      spanPayloadToHarEntry(createPayload({ "gen_ai.system": "openai" }))
+    ).toBeNull();
+  });
+});
+
+describe("convertToHar", () => {
+  it("renders redacted headers from extractSpanPayload", () => {
+    const payload = extractSpanPayload(
+      createSpan({
+        "http.method": "GET",
+        "http.url": "https://api.example.com/v1",
+        "http.request.header.authorization": "Bearer secret-token",
+        "http.request.header.accept": "application/json",
+      })
+    );
+
+    const har = convertToHar([payload as SpanPayload]);
+    const headers = har.log.entries[0].request.headers;
+
+    expect(har.log.version).toBe("1.2");
+    expect(headers).toContainEqual({
+      name: "accept",
+      value: "application/json",
+    });
+    expect(
+      headers.find((header) => header.name === "authorization")?.value
+    ).not.toContain("secret-token");
+  });
+
+  it("sorts entries by start time and skips non-HTTP spans", () => {
+    const har = convertToHar([
+      createPayload(
+        { "http.method": "GET", "http.url": "https://b.example.com/" },
+        "2024-01-01T00:00:02.000Z"
+      ),
+      createPayload({ "gen_ai.system": "openai" }),
+      createPayload(
+        { "http.method": "GET", "http.url": "https://a.example.com/" },
+        "2024-01-01T00:00:01.000Z"
+      ),
+    ]);
+
+    expect(har.log.entries.map((entry) => entry.request.url)).toEqual([
+      "https://a.example.com/",
+      "https://b.example.com/",
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  DomainRuleEngine,
+  getDomainRule,
+  getDomainRuleEngine,
+} from "../src/filtering/rule-engine";
+import type { DomainRule } from "../src/types";
+
+describe("DomainRuleEngine", () => {
+  const allowList: DomainRule[] = [
+    {
+      domain: "api.stripe.com",
+      methods: ["POST"],
+      captureRequestBody: true,
+      headersAllowList: ["content-type"],
+    },
+    { domain: ".github.com", paths: ["/repos"], captureResponseBody: true },
+    { domain: ".github.com", sampleRate: 0.5 },
+  ];
+  const denyList: DomainRule[] = [
+    { domain: "api.github.com", paths: ["/rate_limit"] },
+  ];
+
+  it("merges the matching rule with the global settings", () => {
+    const engine = new DomainRuleEngine(allowList, denyList);
+    const defaults = {
+      headersAllowList: ["user-agent"],
+      captureRequestBody: false,
+      captureResponseBody: true,
+    };
+
+    expect(
+      engine.resolve(
+        "https://api.stripe.com/v1/charges",
+        { method: "POST" },
+        defaults
+      )
+    ).toMatchObject({
+      capture: true,
+      rule: allowList[0],
+      headersAllowList: ["content-type"],
+      captureRequestBody: true,
+      captureResponseBody: true,
+    });
+
+    expect(
+      engine.resolve(
+        "https://api.stripe.com/v1/charges",
+        { method: "GET" },
+        defaults
+      )
+    ).toMatchObject({
+      capture: false,
+      rule: undefined,
+      headersAllowList: ["user-agent"],
+      captureRequestBody: false,
+    });
+  });
+
+  it("picks the first rule matching the path and honors the deny list", () => {
+    const engine = new DomainRuleEngine(allowList, denyList);
+
+    expect(engine.resolve("https://api.github.com/repos/a/b").rule).toBe(
+      allowList[1]
+    );
+    expect(engine.resolve("https://api.github.com/users/a")).toMatchObject({
+      capture: true,
+      rule: allowList[2],
+      captureResponseBody: false,
+      sampleRate: 0.5,
+    });
+    expect(engine.resolve("https://api.github.com/rate_limit")).toMatchObject({
+      capture: false,
+      rule: undefined,
+    });
+  });
+
+  it("resolves requests without URL to the global settings", () => {
+    expect(
+      new DomainRuleEngine(allowList).resolve(
+        undefined,
+        {},
+        {
+          captureResponseBody: true,
+        }
+      )
+    ).toMatchObject({
+      capture: false,
+      rule: undefined,
+      captureResponseBody: true,
+    });
+    expect(new DomainRuleEngine().resolve(undefined).capture).toBe(true);
+  });
+
+  it("keeps request bodies that rules with statusCodes may capture", () => {
+    const engine = new DomainRuleEngine([
+      {
+        domain: "api.x.com",
+        methods: ["POST"],
+        statusCodes: ["5xx"],
+        captureRequestBody: true,
+      },
+      { domain: "api.x.com" },
+    ]);
+    const url = "https://api.x.com/v1/jobs";
+
+    expect(engine.mayCaptureRequestBody(url, { method: "POST" })).toBe(true);
+    expect(engine.mayCaptureRequestBody(url, { method: "GET" })).toBe(false);
+    expect(
+      engine.mayCaptureRequestBody(url, { method: "POST", statusCode: 503 })
+    ).toBe(true);
+    expect(
+      engine.mayCaptureRequestBody(url, { method: "POST", statusCode: 200 })
+    ).toBe(false);
+  });
+
+  it("shares one engine per pair of rule lists", () => {
+    expect(getDomainRuleEngine(allowList, denyList)).toBe(
+      getDomainRuleEngine(allowList, denyList)
+    );
+    expect(getDomainRuleEngine(allowList)).not.toBe(
+      getDomainRuleEngine(allowList, denyList)
+    );
+    expect(getDomainRule("https://gist.github.com/x", allowList)).toBe(
+      allowList[2]
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { describe, expect, it } from "vitest";
+import {
+  canTraceBeKept,
+  isTraceSampled,
+  shouldSampleSpan,
+} from "../src/filtering/sampler";
+import { createTraceId } from "../src/trace-id";
+
+function createSpan(
+  traceId: string,
+  options: {
+    url?: string;
+    statusCode?: number;
+    error?: boolean;
+    exception?: boolean;
+    durationMs?: number;
+  } = {}
+): ReadableSpan {
+  const durationMs = options.durationMs ?? 10;
+  return {
+    name: "GET",
+    kind: SpanKind.CLIENT,
+    attributes: {
+      "http.method": "GET",
+      "http.url": options.url ?? "https://api.example.com/v1",
+      ...(options.statusCode !== undefined && {
+        "http.response.status_code": options.statusCode,
+      }),
+    },
+    duration: [Math.floor(durationMs / 1000), (durationMs % 1000) * 1000000],
+    status: {
+      code: options.error ? SpanStatusCode.ERROR : SpanStatusCode.UNSET,
+    },
+    events: options.exception ? [{ name: "exception", time: [0, 0] }] : [],
+    spanContext() {
+      return { traceId, spanId: "abcdef1234567890", traceFlags: 1 };
+    },
+  } as unknown as ReadableSpan;
+}
+
+async function createTraceIds(count: number): Promise<string[]> {
+  return Promise.all(
+    Array.from({ length: count }, (_, i) => createTraceId(`trace-${i}`))
+  );
+}
+
+describe("isTraceSampled", () => {
+  it("keeps roughly the configured ratio of traces", async () => {
+    const traceIds = await createTraceIds(1000);
+    const kept = traceIds.filter((traceId) => isTraceSampled(traceId, 0.25));
+
+    expect(kept.length).toBeGreaterThan(200);
+    expect(kept.length).toBeLessThan(300);
+  });
+
+  it("is consistent per trace ID and monotonic in the rate", async () => {
+    const traceIds = await createTraceIds(200);
+
+    for (const traceId of traceIds) {
+      expect(isTraceSampled(traceId, 0.3)).toBe(isTraceSampled(traceId, 0.3));
+      if (isTraceSampled(traceId, 0.1)) {
+        expect(isTraceSampled(traceId, 0.5)).toBe(true);
+      }
+    }
+    expect(traceIds.every((traceId) => isTraceSampled(traceId, 1))).toBe(true);
+    expect(traceIds.some((traceId) => isTraceSampled(traceId, 0))).toBe(false);
+  });
+});
+
+describe("shouldSampleSpan", () => {
+  it("keeps every span without sampling config", async () => {
+    const traceId = await createTraceId("no-config");
+    expect(shouldSampleSpan(createSpan(traceId))).toBe(true);
+  });
+
+  it("gives every span of a trace the same decision", async () => {
+    const traceIds = await createTraceIds(50);
+
+    for (const traceId of traceIds) {
+      const first = shouldSampleSpan(createSpan(traceId), { ratio: 0.5 });
+      const second = shouldSampleSpan(
+        createSpan(traceId, { url: "https://api.example.com/v2" }),
+        { ratio: 0.5 }
+      );
+      expect(second).toBe(first);
+    }
+  });
+
+  it("uses the domain rule sample rate over the global ratio", async () => {
+    const traceIds = await createTraceIds(50);
+    const allowList = [
+      { domain: "api.example.com", sampleRate: 0 },
+      { domain: "billing.example.com" },
+    ];
+
+    for (const traceId of traceIds) {
+      expect(
+        shouldSampleSpan(createSpan(traceId), { ratio: 1 }, allowList)
+      ).toBe(false);
+      expect(
+        shouldSampleSpan(
+          createSpan(traceId, { url: "https://billing.example.com/" }),
+          { ratio: 1 },
+          allowList
+        )
+      ).toBe(true);
+    }
+  });
+
+  it("always keeps errors unless disabled", async () => {
+    const traceId = await createTraceId("errors");
+
+    for (const span of [
+      createSpan(traceId, { statusCode: 503 }),
+      createSpan(traceId, { error: true }),
+      createSpan(traceId, { exception: true }),
+    ]) {
+      expect(shouldSampleSpan(span, { ratio: 0 })).toBe(true);
+      expect(
+        shouldSampleSpan(span, { ratio: 0, alwaysKeepErrors: false })
+      ).toBe(false);
+    }
+    expect(
+      shouldSampleSpan(createSpan(traceId, { statusCode: 200 }), { ratio: 0 })
+    ).toBe(false);
+  });
+
+  it("always keeps slow requests above the threshold", async () => {
+    const traceId = await createTraceId("slow");
+    const sampling = { ratio: 0, slowRequestThresholdMs: 1000 };
+
+    expect(
+      shouldSampleSpan(createSpan(traceId, { durationMs: 1500 }), sampling)
+    ).toBe(true);
+    expect(
+      shouldSampleSpan(createSpan(traceId, { durationMs: 999 }), sampling)
+    ).toBe(false);
+  });
+});
+
+describe("canTraceBeKept", () => {
+  it("holds traces only if a later span may keep them", async () => {
+    const traceIds = await createTraceIds(50);
+    const sampling = { ratio: 0.1, alwaysKeepErrors: false };
+    const allowList = [{ domain: "billing.example.com", sampleRate: 0.5 }];
+
+    for (const traceId of traceIds) {
+      expect(canTraceBeKept(traceId, { ratio: 0 })).toBe(true);
+      expect(canTraceBeKept(traceId, { ...sampling, ratio: 0 })).toBe(false);
+      expect(canTraceBeKept(traceId, sampling, allowList)).toBe(
+        isTraceSampled(traceId, 0.5)
+      );
+      expect(
+        canTraceBeKept(traceId, { ...sampling, slowRequestThresholdMs: 1000 })
+      ).toBe(true);
+    }
+  });
+});
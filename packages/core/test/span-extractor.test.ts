@@ -1,8 +1,16 @@
 import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
 import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 import { describe, expect, it } from "vitest";
+import {
+  PINGOPS_HTTP_RESPONSE_BODY_TRUNCATED,
+  PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER,
+  createTruncatedBody,
+} from "../src/filtering/body-truncation";
 import type { DomainRule } from "../src/types";
-import { extractSpanPayload } from "../src/utils/span-extractor";
+import {
+  createSpanPayload,
+  extractSpanPayload,
+} from "../src/utils/span-extractor";
 
 function createSpan(attributes: Record<string, unknown>): ReadableSpan {
   return {
@@ -156,4 +164,107 @@ describe("extractSpanPayload", () => {
     const payload = extractSpanPayload(span);
     expect(payload?.parentSpanId).toBe("0011223344556677");
   });
+  it("redacts JSON bodies with the domain rule overriding the global config", () => {
+    const body = JSON.stringify({ password: "hunter2", account: "acct_1" });
+    const allowList: DomainRule[] = [
+      {
+        domain: "api.stripe.com",
+        bodyRedaction: { sensitiveKeys: [], jsonPaths: ["$.account"] },
+      },
+    ];
+    const extract = (url: string) =>
+      extractSpanPayload(
+        createSpan({ "http.url": url, "http.request.body": body }),
+        allowList,
+        undefined,
+        undefined,
+        true,
+        true,
+        undefined,
+        {}
+      )?.attributes["http.request.body"];
+
+    expect(JSON.parse(extract("https://api.example.com/v1") as string)).toEqual(
+      { password: "[REDACTED]", account: "acct_1" }
+    );
+    expect(JSON.parse(extract("https://api.stripe.com/v1") as string)).toEqual({
+      password: "hunter2",
+      account: "[REDACTED]",
+    });
+  });
+  it("redacts truncated bodies around their marker and flags them", () => {
+    const truncated = createTruncatedBody(
+      "response",
+      '{"password": "hun',
+      'ter2", "ok": true}',
+      100,
+      60
+    );
+    const payload = extractSpanPayload(
+      createSpan({
+        "http.url": "https://api.example.com/v1",
+        "http.response.body": truncated.body,
+        [PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER]: [...truncated.marker],
+      }),
+      undefined,
+      undefined,
+      undefined,
+      true,
+      true,
+      undefined,
+      {}
+    );
+
+    expect(payload?.attributes["http.response.body"]).toBe(
+      '{"password": "[REDACTED]"[truncated response body; size=100; omitted=60]ter2", "ok": true}'
+    );
+    expect(payload?.attributes[PINGOPS_HTTP_RESPONSE_BODY_TRUNCATED]).toBe(
+      true
+    );
+    expect(
+      payload?.attributes[PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER]
+    ).toBeUndefined();
+  });
+  it("filters query parameters with the domain rule overriding the global lists", () => {
+    const allowList: DomainRule[] = [
+      { domain: "api.github.com", queryParamsAllowList: ["page"] },
+    ];
+    const extract = (url: string) =>
+      extractSpanPayload(
+        createSpan({ "url.full": url }),
+        allowList,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        ["debug"]
+      )?.attributes["url.full"];
+
+    expect(extract("https://api.example.com/?page=2&debug=1&sort=asc")).toBe(
+      "https://api.example.com/?page=2&sort=asc"
+    );
+    expect(extract("https://api.github.com/?page=2&debug=1&sort=asc")).toBe(
+      "https://api.github.com/?page=2"
+    );
+  });
+});
+
+describe("createSpanPayload", () => {
+  it("builds payload from the span attributes without filtering", () => {
+    const span = createSpan({
+      "http.url": "https://api.example.com/v1",
+      "http.request.body": "req",
+    });
+
+    const payload = createSpanPayload(span);
+
+    expect(payload.name).toBe("http.client");
+    expect(payload.startTime).toBe("1970-01-01T00:16:40.000Z");
+    expect(payload.duration).toBe(1500);
+    expect(payload.attributes["http.request.body"]).toBe("req");
+  });
 });
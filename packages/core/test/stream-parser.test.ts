@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  StreamEventParser,
+  getStreamFormat,
+  serializeStreamEvent,
+  type StreamEvent,
+} from "../src/utils/stream-parser";
+
+function parse(
+  parser: StreamEventParser,
+  chunks: Array<string | Buffer>
+): StreamEvent[] {
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+}
+
+describe("getStreamFormat", () => {
+  it("detects SSE and NDJSON content types", () => {
+    expect(getStreamFormat("text/event-stream; charset=utf-8")).toBe("sse");
+    expect(getStreamFormat("application/x-ndjson")).toBe("ndjson");
+    expect(getStreamFormat("application/json")).toBeUndefined();
+    expect(getStreamFormat(undefined)).toBeUndefined();
+  });
+});
+
+describe("StreamEventParser", () => {
+  it("parses SSE events split across chunks", () => {
+    const events = parse(new StreamEventParser("sse"), [
+      ": keep-alive\r\nevent: message_start\r",
+      '\ndata: {"type":',
+      '"message_start"}\r\n\r\ndata: line 1\ndata:line 2\nid: 7\nretry: 10\n\n',
+      "event: ping\n\ndata: [DONE]",
+    ]);
+
+    expect(events).toEqual([
+      { event: "message_start", data: '{"type":"message_start"}' },
+      { id: "7", data: "line 1\nline 2" },
+      { data: "[DONE]" },
+    ]);
+  });
+
+  it("parses NDJSON lines and UTF-8 characters split across chunks", () => {
+    const body = Buffer.from('{"text":"é"}\n\n{"done":true}');
+    const split = body.indexOf(0xc3) + 1;
+    expect(
+      parse(new StreamEventParser("ndjson"), [
+        body.subarray(0, split),
+        body.subarray(split),
+      ])
+    ).toEqual([{ data: '{"text":"é"}' }, { data: '{"done":true}' }]);
+  });
+
+  it("cuts events longer than the max event size", () => {
+    const parser = new StreamEventParser("ndjson", 4);
+    expect(parse(parser, ["abcdefgh", "ij\nkl\n"])).toEqual([
+      { data: "abcd" },
+      { data: "kl" },
+    ]);
+  });
+});
+
+describe("serializeStreamEvent", () => {
+  it("serializes events to their wire format", () => {
+    expect(serializeStreamEvent({ event: "delta", data: "a\nb" }, "sse")).toBe(
+      "event: delta\ndata: a\ndata: b\n\n"
+    );
+    expect(serializeStreamEvent({ data: "{}" }, "ndjson")).toBe("{}\n");
+  });
+});
@@ -3,14 +3,26 @@
  * Allows instrumentations to access processor configuration without direct coupling
  */
 
-import type { DomainRule } from "@pingops/core";
+import type {
+  BodyTruncationStrategy,
+  DomainRule,
+  GenAiModelPrice,
+  GenAiSystem,
+} from "@pingops/core";
 
 interface GlobalConfig {
   captureRequestBody?: boolean;
   captureResponseBody?: boolean;
+  bodyContentTypesAllowList?: string[];
+  bodyContentTypesDenyList?: string[];
   domainAllowList?: DomainRule[];
+  domainDenyList?: DomainRule[];
   maxRequestBodySize?: number;
   maxResponseBodySize?: number;
+  truncationStrategy?: BodyTruncationStrategy;
+  decompressBodies?: boolean;
+  genAiHosts?: Record<string, GenAiSystem>;
+  genAiPricing?: Record<string, GenAiModelPrice>;
   exportTraceUrl?: string;
 }
 
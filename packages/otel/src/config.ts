@@ -2,7 +2,18 @@
  * Configuration types for PingopsSpanProcessor
  */
 
-import type { DomainRule, HeaderRedactionConfig } from "@pingops/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import type {
+  BodyRedactionConfig,
+  BodyTruncationStrategy,
+  DomainRule,
+  GenAiModelPrice,
+  GenAiSystem,
+  HeaderRedactionConfig,
+  PiiScrubbingConfig,
+  SamplingConfig,
+  SpanPayload,
+} from "@pingops/core";
 
 /**
  * Span export mode to use.
@@ -11,10 +22,236 @@ import type { DomainRule, HeaderRedactionConfig } from "@pingops/core";
  *   Spans are batched and exported in groups for optimal performance.
  * - **immediate**: Recommended for short-lived environments such as serverless functions.
  *   Spans are exported immediately to prevent data loss when the process terminates / is frozen.
+ * - **file**: For offline and air-gapped environments. Spans are batched and written
+ *   as newline-delimited JSON to a local file instead of being sent to the backend.
  *
- * @defaultValue "batched"
+ * @defaultValue "batched" ("file" when PINGOPS_EXPORT_FILE is set)
  */
-export type PingopsExportMode = "immediate" | "batched";
+export type PingopsExportMode = "immediate" | "batched" | "file";
+
+/**
+ * What to capture of a response body larger than `maxResponseBodySize`:
+ * - **drop**: Record a placeholder with the body size instead of the body.
+ * - **head**: Keep the first `maxResponseBodySize` bytes.
+ * - **head-tail**: Keep the first and last `maxResponseBodySize / 2` bytes.
+ *
+ * Partial bodies are followed (or separated) by a marker with the original size.
+ * Compressed and binary bodies are always dropped, as partial bytes cannot be decoded.
+ *
+ * @defaultValue "drop"
+ */
+export type PingopsBodyTruncationStrategy = BodyTruncationStrategy;
+
+/**
+ * Configuration for the NDJSON file exporter (`exportMode: "file"`).
+ *
+ * Each line is a filtered SpanPayload. Rotated files are gzipped.
+ */
+export interface PingopsFileExportConfig {
+  /**
+   * Path of the NDJSON file. Can also be set via PINGOPS_EXPORT_FILE environment variable.
+   * @defaultValue "pingops-spans.ndjson"
+   */
+  path?: string;
+
+  /**
+   * Size in bytes after which the file is rotated.
+   * @defaultValue 10485760 (10 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Age in milliseconds after which the file is rotated. Set to 0 to only rotate by size.
+   * @defaultValue 86400000 (24 hours)
+   */
+  rotationIntervalMillis?: number;
+}
+
+/**
+ * Configuration for the disk-backed span export queue.
+ *
+ * When enabled, batches that fail to export (backend outage, network errors,
+ * or batches still pending at shutdown) are written to `directory` and replayed
+ * on the next start or once the backend is reachable again.
+ */
+export interface PingopsPersistenceConfig {
+  /**
+   * Directory used to spool span batches. Created if it does not exist.
+   */
+  directory: string;
+
+  /**
+   * Maximum total size of spooled batches on disk (bytes).
+   * When exceeded, the oldest batches are evicted first.
+   * @defaultValue 52428800 (50 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Interval in milliseconds between background replay attempts.
+   * Set to 0 to only replay on start and after a successful export.
+   * @defaultValue 30000
+   */
+  replayIntervalMillis?: number;
+}
+
+/**
+ * Hook called for every span that passed the built-in filtering, before export.
+ *
+ * Receives the filtered payload (header filtering, header redaction and body
+ * capture rules applied) and the original span. Return the payload, possibly
+ * with rewritten `attributes`, to export it, or null to drop the span.
+ * If the hook throws or rejects, the span is dropped.
+ */
+export type PingopsBeforeSendHook = (
+  payload: SpanPayload,
+  span: ReadableSpan
+) => SpanPayload | null | Promise<SpanPayload | null>;
+
+/**
+ * Trace buffered by the tail sampling buffer, passed to tail sampling rules
+ */
+export interface PingopsBufferedTrace {
+  /**
+   * PingOps trace ID (`pingops.trace_id`)
+   */
+  traceId: string;
+
+  /**
+   * Filtered spans of the trace, in the order they ended
+   */
+  spans: ReadableSpan[];
+
+  /**
+   * Root `pingops-trace` span, undefined if the trace timed out or was evicted
+   */
+  rootSpan?: ReadableSpan;
+
+  /**
+   * Duration of the root span in milliseconds, undefined if the trace is incomplete
+   */
+  durationMs?: number;
+
+  /**
+   * False if the decision was forced by the timeout, the memory bounds or shutdown
+   */
+  complete: boolean;
+}
+
+/**
+ * Tail sampling rule. Return true to keep the whole trace.
+ */
+export type PingopsTailSamplingRule = (trace: PingopsBufferedTrace) => boolean;
+
+/**
+ * Configuration for tail-based sampling of `startTrace` traces.
+ *
+ * Spans carrying `pingops.trace_id` are held in memory until the root
+ * `pingops-trace` span ends, then the trace is exported if any rule returns
+ * true and dropped otherwise. Spans outside of `startTrace` are not buffered.
+ */
+export interface PingopsTailSamplingConfig {
+  /**
+   * Rules evaluated when a trace completes. A trace is kept if any rule matches.
+   */
+  rules: PingopsTailSamplingRule[];
+
+  /**
+   * Maximum number of traces buffered at once. When exceeded, the oldest trace
+   * is evaluated as incomplete.
+   * @defaultValue 1000
+   */
+  maxTraces?: number;
+
+  /**
+   * Maximum number of spans buffered per trace. Further spans are dropped.
+   * @defaultValue 1000
+   */
+  maxSpansPerTrace?: number;
+
+  /**
+   * Time in milliseconds after the first buffered span at which a trace whose
+   * root span has not ended is evaluated as incomplete.
+   * @defaultValue 60000
+   */
+  traceTimeoutMillis?: number;
+}
+
+/**
+ * Retry policy for exports to the PingOps backend.
+ *
+ * Throttling responses (429, 502, 503, 504) and network errors are retried
+ * with exponential backoff. A Retry-After header takes precedence over the
+ * computed backoff.
+ */
+export interface PingopsRetryConfig {
+  /**
+   * Maximum number of attempts per batch, including the first one.
+   * @defaultValue 5
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry (milliseconds).
+   * @defaultValue 1000
+   */
+  initialBackoffMillis?: number;
+
+  /**
+   * Upper bound for the backoff delay (milliseconds).
+   * A Retry-After longer than this is not waited for: the batch fails and the
+   * circuit breaker stays open until the Retry-After delay has elapsed.
+   * @defaultValue 10000
+   */
+  maxBackoffMillis?: number;
+
+  /**
+   * Factor applied to the backoff delay after each attempt.
+   * @defaultValue 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Random jitter applied to each backoff delay, as a fraction of the delay.
+   * @defaultValue 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Maximum time of an export including its retries and backoff delays
+   * (milliseconds). No retry is attempted past it, and the last attempt is
+   * cut short to end by then. Keep it below the 30s export timeout of the
+   * batch span processor, after which the batch is dropped.
+   * @defaultValue 25000
+   */
+  maxElapsedMillis?: number;
+}
+
+/**
+ * Circuit breaker for exports to the PingOps backend.
+ *
+ * After `failureThreshold` consecutive failed exports the circuit opens and
+ * exports fail fast for `resetTimeoutMillis`, after which a single probe export
+ * decides whether to close the circuit again.
+ */
+export interface PingopsCircuitBreakerConfig {
+  /**
+   * @defaultValue true
+   */
+  enabled?: boolean;
+
+  /**
+   * Number of consecutive failed exports that opens the circuit.
+   * @defaultValue 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time the circuit stays open before a probe export is attempted (milliseconds).
+   * @defaultValue 30000
+   */
+  resetTimeoutMillis?: number;
+}
 
 /**
  * Configuration parameters for the PingopsSpanProcessor.
@@ -26,9 +263,10 @@ export interface PingopsProcessorConfig {
   apiKey?: string;
 
   /**
-   * PingOps backend base URL (required).
+   * PingOps backend base URL, required unless spans are exported to a file
+   * (`exportMode: "file"`) or the default exporter is disabled.
    */
-  baseUrl: string;
+  baseUrl?: string;
 
   /**
    * Enable debug logging.
@@ -51,6 +289,16 @@ export interface PingopsProcessorConfig {
    */
   headersDenyList?: string[];
 
+  /**
+   * List of query parameters to keep in URLs (case-insensitive). Other parameters are removed.
+   */
+  queryParamsAllowList?: string[];
+
+  /**
+   * List of query parameters to remove from URLs (case-insensitive, takes precedence over allow list).
+   */
+  queryParamsDenyList?: string[];
+
   /**
    * Capture request body.
    */
@@ -61,6 +309,22 @@ export interface PingopsProcessorConfig {
    */
   captureResponseBody?: boolean;
 
+  /**
+   * Media types of bodies to capture (e.g. `application/json`, `text/*`,
+   * `application/*+json`). Other bodies are recorded as a placeholder with
+   * their size and content type. Domain rules can override this list.
+   */
+  bodyContentTypesAllowList?: string[];
+
+  /**
+   * Media types of bodies to never capture (takes precedence over allow list).
+   * Domain rules can override this list.
+   *
+   * Binary bodies (images, PDFs, protobuf...) are always recorded as a
+   * placeholder, whatever these lists contain.
+   */
+  bodyContentTypesDenyList?: string[];
+
   /**
    * Maximum size of request body to capture (bytes).
    * Applies to both `http` and `undici` instrumentations.
@@ -83,6 +347,27 @@ export interface PingopsProcessorConfig {
    */
   maxResponseBodySize?: number;
 
+  /**
+   * What to capture of response bodies larger than `maxResponseBodySize`
+   * (see PingopsBodyTruncationStrategy).
+   *
+   * @defaultValue "drop"
+   */
+  truncationStrategy?: PingopsBodyTruncationStrategy;
+
+  /**
+   * Decompress gzip, br and deflate response bodies before export, so that
+   * body redaction and PII scrubbing apply to their content. Bodies that
+   * cannot be decompressed are sent as base64 with their content-encoding.
+   *
+   * `maxResponseBodySize` and `truncationStrategy` then apply to the
+   * decompressed body, and inflation is bounded by `maxResponseBodySize`. The
+   * tail of larger bodies is unknown, so `"head-tail"` only keeps their head.
+   *
+   * @defaultValue false
+   */
+  decompressBodies?: boolean;
+
   /**
    * Domain allow list rules.
    */
@@ -93,12 +378,84 @@ export interface PingopsProcessorConfig {
    */
   domainDenyList?: DomainRule[];
 
+  /**
+   * Drops requests to private networks: IP literals in private, loopback and
+   * link-local ranges (see PRIVATE_NETWORK_CIDRS) and `localhost`.
+   * Public third-party calls are still captured.
+   *
+   * @defaultValue false
+   */
+  denyPrivateNetworks?: boolean;
+
+  /**
+   * Additional GenAI API hosts (`hostname` or `hostname:port`) and their
+   * provider, e.g. an LLM gateway or proxy. Requests to OpenAI, Anthropic,
+   * Azure OpenAI, Mistral and Gemini APIs are recognized without configuration.
+   *
+   * GenAI requests get OpenTelemetry GenAI attributes (`gen_ai.system`,
+   * `gen_ai.request.model`, `gen_ai.usage.input_tokens`, ...) parsed from
+   * their bodies, whether or not body capture is enabled.
+   */
+  genAiHosts?: Record<string, GenAiSystem>;
+
+  /**
+   * Model prices in USD per million input/output tokens, keyed by model name.
+   * An entry also prices dated snapshots (`gpt-4o` prices `gpt-4o-2024-08-06`).
+   * Spans of other models, including variants such as `o1-pro`, get no cost.
+   * Merged into the built-in table of common models, overriding its entries.
+   *
+   * GenAI spans with token usage and a priced model get `gen_ai.usage.cost`.
+   * In startTrace traces, GenAI spans also get the running totals of the trace
+   * (`pingops.trace.gen_ai.usage.cost`, `.input_tokens`, `.output_tokens`).
+   */
+  genAiPricing?: Record<string, GenAiModelPrice>;
+
   /**
    * Configuration for header value redaction.
    * If not provided, default redaction is enabled for sensitive headers.
    */
   headerRedaction?: HeaderRedactionConfig;
 
+  /**
+   * Configuration for query parameter value redaction.
+   * `sensitivePatterns` defaults to DEFAULT_SENSITIVE_QUERY_PARAM_PATTERNS.
+   * If not provided, default redaction is enabled for sensitive query parameters.
+   */
+  queryParamRedaction?: HeaderRedactionConfig;
+
+  /**
+   * Redaction of sensitive fields in captured JSON request/response bodies,
+   * by key name pattern or JSONPath. Overridden per domain by `DomainRule.bodyRedaction`.
+   * If not provided, captured bodies are exported as is.
+   */
+  bodyRedaction?: BodyRedactionConfig;
+
+  /**
+   * Masking of PII (emails, card numbers, IBANs, phone numbers, JWTs, AWS keys and
+   * custom patterns) in captured bodies, URLs and query strings, for every domain.
+   * If not provided, no PII scrubbing is applied.
+   */
+  piiScrubbing?: PiiScrubbingConfig;
+
+  /**
+   * Sampling of captured spans, decided consistently per trace ID.
+   * Per-domain rates are set with `sampleRate` on domain allow list rules.
+   * If not provided, every captured span is exported.
+   */
+  sampling?: SamplingConfig;
+
+  /**
+   * Tail-based sampling of `startTrace` traces, decided once the trace has ended.
+   * If not provided, spans are exported as soon as they end.
+   */
+  tailSampling?: PingopsTailSamplingConfig;
+
+  /**
+   * Hook to rewrite or drop spans after built-in filtering, e.g. to remove
+   * tenant IDs from URLs. Only changes to `attributes` are exported.
+   */
+  beforeSend?: PingopsBeforeSendHook;
+
   /**
    * Number of spans to batch before flushing (only used in batched mode).
    * @defaultValue 50
@@ -118,8 +475,62 @@ export interface PingopsProcessorConfig {
    *   Spans are batched and exported in groups for optimal performance.
    * - **immediate**: Recommended for short-lived environments such as serverless functions.
    *   Spans are exported immediately to prevent data loss when the process terminates / is frozen.
+   * - **file**: For offline and air-gapped environments. Spans are written as
+   *   newline-delimited JSON to a local file (see `fileExport`).
    *
-   * @defaultValue "batched"
+   * @defaultValue "batched" ("file" when PINGOPS_EXPORT_FILE is set)
    */
   exportMode?: PingopsExportMode;
+
+  /**
+   * File exporter configuration, used when `exportMode` is "file".
+   */
+  fileExport?: PingopsFileExportConfig;
+
+  /**
+   * Opt-in disk persistence for span batches that could not be exported.
+   * If not provided, failed batches are dropped.
+   */
+  persistence?: PingopsPersistenceConfig;
+
+  /**
+   * Timeout of a single export request in milliseconds.
+   * @defaultValue 5000
+   */
+  exportTimeout?: number;
+
+  /**
+   * Retry policy for failed exports.
+   */
+  retry?: PingopsRetryConfig;
+
+  /**
+   * Circuit breaker for exports while the backend is unavailable.
+   */
+  circuitBreaker?: PingopsCircuitBreakerConfig;
+
+  /**
+   * Custom span exporter receiving the filtered spans alongside the default
+   * exporter. Shorthand for `exporters: [exporter]`.
+   */
+  exporter?: SpanExporter;
+
+  /**
+   * Span exporters receiving the filtered spans alongside the default exporter
+   * (the PingOps backend, or the export file with `exportMode: "file"`).
+   * Every exporter gets the same spans after domain filtering, header filtering,
+   * header redaction and body capture rules have been applied.
+   *
+   * `persistence`, `retry` and `circuitBreaker` only apply to the default
+   * PingOps exporter.
+   */
+  exporters?: SpanExporter[];
+
+  /**
+   * Only send spans to `exporter`/`exporters`, without the default exporter.
+   * `baseUrl` is then not required.
+   *
+   * @defaultValue false
+   */
+  disableDefaultExporter?: boolean;
 }
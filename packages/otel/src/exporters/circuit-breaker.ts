@@ -0,0 +1,110 @@
+/**
+ * Circuit breaker for span export
+ *
+ * - **closed**: exports go through; consecutive failures are counted
+ * - **open**: exports fail fast without touching the network
+ * - **half-open**: after the reset timeout a single probe export is let through;
+ *   success closes the circuit, failure opens it again
+ */
+
+import { createLogger } from "@pingops/core";
+
+const logger = createLogger("[PingOps CircuitBreaker]");
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMillis: number;
+}
+
+/**
+ * Tracks export health and decides whether an export may be attempted.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private probeInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Current state, moving from open to half-open once the reset timeout elapsed
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() >= this.openUntil) {
+      this.transition("half-open");
+    }
+    return this.state;
+  }
+
+  /**
+   * Returns true if an export may be attempted now.
+   * In half-open state only a single probe is allowed at a time.
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === "closed") {
+      return true;
+    }
+    if (state === "half-open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      logger.debug("Letting probe export through");
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.open(this.options.resetTimeoutMillis);
+    }
+  }
+
+  /**
+   * Opens the circuit for at least the given duration (e.g. from Retry-After)
+   */
+  open(durationMillis: number): void {
+    this.probeInFlight = false;
+    this.openUntil = Math.max(this.openUntil, Date.now() + durationMillis);
+    if (this.state !== "open") {
+      this.transition("open");
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+
+    const details = {
+      from: previous,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+    if (next === "open") {
+      logger.warn("Circuit opened, pausing span export", {
+        ...details,
+        retryInMillis: Math.max(0, this.openUntil - Date.now()),
+      });
+    } else if (next === "half-open") {
+      logger.info("Circuit half-open, next export will probe", details);
+    } else {
+      logger.info("Circuit closed, span export resumed", details);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Bounded on-disk queue of serialized span batches
+ *
+ * Each batch is stored as a single JSON file. File names start with a
+ * zero-padded timestamp and sequence number so that lexicographic order is
+ * also insertion order, which lets us replay and evict oldest-first.
+ */
+
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { createLogger } from "@pingops/core";
+import type { SerializedSpan } from "./span-serialization";
+
+const logger = createLogger("[PingOps DiskQueue]");
+
+const BATCH_FILE_SUFFIX = ".batch.json";
+
+let sequence = 0;
+
+function createBatchFileName(): string {
+  sequence = (sequence + 1) % 1_000_000;
+  const timestamp = String(Date.now()).padStart(15, "0");
+  const seq = String(sequence).padStart(6, "0");
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${timestamp}-${seq}-${random}${BATCH_FILE_SUFFIX}`;
+}
+
+/**
+ * Persists span batches to a directory, keeping total size under maxBytes
+ */
+export class DiskSpanQueue {
+  private ensureDirectoryPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxBytes: number
+  ) {}
+
+  /**
+   * Writes a batch to disk, evicting the oldest batches if needed.
+   *
+   * @returns true if the batch was written, false if it was dropped
+   */
+  async enqueue(spans: SerializedSpan[]): Promise<boolean> {
+    if (spans.length === 0) {
+      return true;
+    }
+
+    const data = JSON.stringify(spans);
+    const size = Buffer.byteLength(data, "utf8");
+    if (size > this.maxBytes) {
+      logger.warn("Span batch larger than persistence maxBytes, dropping", {
+        batchBytes: size,
+        maxBytes: this.maxBytes,
+        spanCount: spans.length,
+      });
+      return false;
+    }
+
+    await this.ensureDirectory();
+    await this.evict(size);
+
+    const fileName = createBatchFileName();
+    await writeFile(join(this.directory, fileName), data, "utf8");
+    logger.debug("Spooled span batch to disk", {
+      fileName,
+      batchBytes: size,
+      spanCount: spans.length,
+    });
+    return true;
+  }
+
+  /**
+   * Lists spooled batch files, oldest first
+   */
+  async list(): Promise<string[]> {
+    try {
+      const entries = await readdir(this.directory);
+      return entries.filter((name) => name.endsWith(BATCH_FILE_SUFFIX)).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a spooled batch. Unreadable or corrupt files are removed and
+   * reported as null so a single bad file cannot block the queue.
+   */
+  async read(fileName: string): Promise<SerializedSpan[] | null> {
+    try {
+      const content = await readFile(join(this.directory, fileName), "utf8");
+      const parsed: unknown = JSON.parse(content);
+      if (!Array.isArray(parsed)) {
+        throw new Error("batch file does not contain an array");
+      }
+      return parsed as SerializedSpan[];
+    } catch (error) {
+      logger.warn("Discarding unreadable spooled batch", {
+        fileName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.remove(fileName);
+      return null;
+    }
+  }
+
+  /**
+   * Removes a spooled batch
+   */
+  async remove(fileName: string): Promise<void> {
+    await rm(join(this.directory, fileName), { force: true });
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ensureDirectoryPromise) {
+      this.ensureDirectoryPromise = mkdir(this.directory, {
+        recursive: true,
+      }).then(
+        () => undefined,
+        (error: unknown) => {
+          this.ensureDirectoryPromise = null;
+          throw error;
+        }
+      );
+    }
+    return this.ensureDirectoryPromise;
+  }
+
+  /**
+   * Deletes the oldest batches until incomingBytes fits under maxBytes
+   */
+  private async evict(incomingBytes: number): Promise<void> {
+    const files = await this.list();
+    const sizes = await Promise.all(
+      files.map(async (fileName) => {
+        try {
+          return (await stat(join(this.directory, fileName))).size;
+        } catch {
+          return 0;
+        }
+      })
+    );
+
+    let total = sizes.reduce((sum, size) => sum + size, 0);
+    let index = 0;
+    while (total + incomingBytes > this.maxBytes && index < files.length) {
+      await this.remove(files[index]);
+      total -= sizes[index];
+      logger.warn("Evicted oldest spooled span batch to stay under maxBytes", {
+        fileName: files[index],
+        maxBytes: this.maxBytes,
+      });
+      index++;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * NDJSON file exporter for offline and air-gapped environments
+ *
+ * Writes one filtered SpanPayload per line to a local file. When the file
+ * exceeds `maxBytes` or is older than `rotationIntervalMillis`, it is rotated
+ * and the rotated file is gzipped in the background.
+ */
+
+import { createReadStream, createWriteStream } from "node:fs";
+import { appendFile, mkdir, rename, stat, unlink } from "node:fs/promises";
+import { dirname } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { createLogger, createSpanPayload } from "@pingops/core";
+import type { PingopsExportMode, PingopsFileExportConfig } from "../config";
+
+const logger = createLogger("[PingOps FileExporter]");
+
+const DEFAULT_FILE_PATH = "pingops-spans.ndjson";
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ROTATION_INTERVAL = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves the export file path from config or PINGOPS_EXPORT_FILE
+ */
+export function getExportFilePath(config?: PingopsFileExportConfig): string {
+  return config?.path || process.env.PINGOPS_EXPORT_FILE || DEFAULT_FILE_PATH;
+}
+
+/**
+ * Resolves the export mode: the configured mode, else "file" when
+ * PINGOPS_EXPORT_FILE is set, else "batched"
+ */
+export function resolveExportMode(
+  exportMode?: PingopsExportMode
+): PingopsExportMode {
+  return exportMode ?? (process.env.PINGOPS_EXPORT_FILE ? "file" : "batched");
+}
+
+/**
+ * SpanExporter writing SpanPayload objects as newline-delimited JSON
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly rotationIntervalMillis: number;
+  private size: number | undefined;
+  private openedAt = Date.now();
+  private rotationSeq = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly pendingCompressions = new Set<Promise<void>>();
+  private isShutdown = false;
+
+  constructor(config: PingopsFileExportConfig = {}) {
+    this.path = getExportFilePath(config);
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.rotationIntervalMillis =
+      config.rotationIntervalMillis ?? DEFAULT_ROTATION_INTERVAL;
+  }
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    if (this.isShutdown) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("FileSpanExporter is shut down"),
+      });
+      return;
+    }
+
+    // Spans reaching the exporter are already filtered by PingopsSpanProcessor
+    const lines = spans
+      .map((span) => JSON.stringify(createSpanPayload(span)) + "\n")
+      .join("");
+
+    this.writeChain = this.writeChain
+      .then(() => this.write(lines))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error: unknown) => {
+          logger.error("Failed to write spans to file", {
+            path: this.path,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          resultCallback({
+            code: ExportResultCode.FAILED,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      );
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.writeChain;
+    await Promise.all(this.pendingCompressions);
+  }
+
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    await this.forceFlush();
+  }
+
+  private async write(lines: string): Promise<void> {
+    if (this.size === undefined) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.size = await this.getCurrentSize();
+    }
+
+    const bytes = Buffer.byteLength(lines);
+    if (this.size > 0 && this.shouldRotate(bytes)) {
+      await this.rotate();
+    }
+
+    await appendFile(this.path, lines);
+    this.size += bytes;
+  }
+
+  private async getCurrentSize(): Promise<number> {
+    try {
+      return (await stat(this.path)).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  private shouldRotate(incomingBytes: number): boolean {
+    return (
+      (this.size ?? 0) + incomingBytes > this.maxBytes ||
+      (this.rotationIntervalMillis > 0 &&
+        Date.now() - this.openedAt >= this.rotationIntervalMillis)
+    );
+  }
+
+  private async rotate(): Promise<void> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const rotatedPath = `${this.path}.${timestamp}-${this.rotationSeq++}`;
+
+    await rename(this.path, rotatedPath);
+    this.size = 0;
+    this.openedAt = Date.now();
+    logger.debug("Rotated export file", { path: this.path, rotatedPath });
+
+    const compression = this.compress(rotatedPath).finally(() => {
+      this.pendingCompressions.delete(compression);
+    });
+    this.pendingCompressions.add(compression);
+  }
+
+  private async compress(rotatedPath: string): Promise<void> {
+    try {
+      await pipeline(
+        createReadStream(rotatedPath),
+        createGzip(),
+        createWriteStream(`${rotatedPath}.gz`)
+      );
+      await unlink(rotatedPath);
+    } catch (error) {
+      // Keep the uncompressed rotated file rather than losing spans
+      logger.warn("Failed to gzip rotated export file", {
+        rotatedPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
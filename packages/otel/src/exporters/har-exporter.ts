@@ -0,0 +1,158 @@
+/**
+ * HAR 1.2 exporter for captured outbound HTTP traffic
+ *
+ * Keeps the most recent HTTP spans as HAR entries in memory and writes the
+ * archive to `path` every `writeIntervalMillis` if new entries were exported,
+ * and on forceFlush and shutdown, so it can be opened in browser devtools or
+ * Charles. Writing on a timer rather than after every export keeps the I/O
+ * bounded when exports are frequent.
+ */
+
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import {
+  createHar,
+  createLogger,
+  createSpanPayload,
+  spanPayloadToHarEntry,
+  type Har,
+  type HarEntry,
+} from "@pingops/core";
+
+const logger = createLogger("[PingOps HarExporter]");
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_WRITE_INTERVAL = 5000;
+
+export interface HarSpanExporterOptions {
+  /**
+   * Path of the HAR file. If omitted, entries are only kept in memory (see getHar()).
+   */
+  path?: string;
+
+  /**
+   * Maximum number of entries kept in the archive; the oldest are dropped first.
+   * @defaultValue 1000
+   */
+  maxEntries?: number;
+
+  /**
+   * Interval in milliseconds between writes of the HAR file, skipped when no
+   * entry was exported since the last write.
+   * Set to 0 to only write on forceFlush and shutdown.
+   * @defaultValue 5000
+   */
+  writeIntervalMillis?: number;
+}
+
+/**
+ * SpanExporter rendering captured HTTP spans as a HAR 1.2 archive
+ */
+export class HarSpanExporter implements SpanExporter {
+  private readonly maxEntries: number;
+  private entries: HarEntry[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  private writeTimer: NodeJS.Timeout | null = null;
+  private hasUnwrittenEntries = false;
+  private isShutdown = false;
+
+  constructor(private readonly options: HarSpanExporterOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+    const writeInterval = options.writeIntervalMillis ?? DEFAULT_WRITE_INTERVAL;
+    if (options.path && writeInterval > 0) {
+      this.writeTimer = setInterval(() => {
+        void this.scheduleWrite();
+      }, writeInterval);
+      this.writeTimer.unref();
+    }
+  }
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    if (this.isShutdown) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("HarSpanExporter is shut down"),
+      });
+      return;
+    }
+
+    // Spans reaching the exporter are already filtered and redacted by PingopsSpanProcessor
+    for (const span of spans) {
+      const entry = spanPayloadToHarEntry(createSpanPayload(span));
+      if (entry) {
+        this.entries.push(entry);
+      }
+    }
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+    this.hasUnwrittenEntries = true;
+
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  /**
+   * Returns the current archive
+   */
+  getHar(): Har {
+    return createHar([...this.entries]);
+  }
+
+  /**
+   * Writes the entries exported since the last write
+   */
+  async forceFlush(): Promise<void> {
+    await this.scheduleWrite();
+  }
+
+  /**
+   * Stops the write timer and writes the remaining entries
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    if (this.writeTimer) {
+      clearInterval(this.writeTimer);
+      this.writeTimer = null;
+    }
+    await this.forceFlush();
+  }
+
+  /**
+   * Queues a write of the archive if entries were exported since the last one
+   */
+  private scheduleWrite(): Promise<void> {
+    const path = this.options.path;
+    if (!path || !this.hasUnwrittenEntries) {
+      return this.writeChain;
+    }
+    this.hasUnwrittenEntries = false;
+
+    this.writeChain = this.writeChain
+      .then(() => this.write(path))
+      .catch((error: unknown) => {
+        // Entries are still in memory: retry on the next write
+        this.hasUnwrittenEntries = true;
+        logger.error("Failed to write HAR file", {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    return this.writeChain;
+  }
+
+  /**
+   * Writes to a temporary file first so readers never see a partial archive
+   */
+  private async write(path: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, JSON.stringify(this.getHar(), null, 2));
+    await rename(tempPath, path);
+  }
+}
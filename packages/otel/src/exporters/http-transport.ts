@@ -0,0 +1,138 @@
+/**
+ * Minimal OTLP/HTTP transport for the PingOps backend
+ *
+ * Unlike the stock OTLP transport, this one performs no retries of its own and
+ * always reports the Retry-After delay of throttling responses, so that retry
+ * and circuit-breaking decisions can be made by RetryingExportTransport.
+ */
+
+import * as http from "node:http";
+import * as https from "node:https";
+import type {
+  ExportResponse,
+  IExporterTransport,
+} from "@opentelemetry/otlp-exporter-base";
+import { OTLPExporterError } from "@opentelemetry/otlp-exporter-base";
+import {
+  name as packageName,
+  version as packageVersion,
+} from "../../package.json";
+
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+const USER_AGENT = `${packageName}/${packageVersion}`;
+
+/**
+ * Parses a Retry-After header value (delta-seconds or HTTP-date) to milliseconds
+ */
+export function parseRetryAfter(
+  value: string | string[] | undefined
+): number | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (raw === undefined || raw.trim() === "") {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(raw.trim())) {
+    return Number(raw.trim()) * 1000;
+  }
+
+  const date = Date.parse(raw);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+export interface HttpExportTransportConfig {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends serialized OTLP payloads with node:http / node:https, reusing
+ * connections across exports through a keep-alive agent
+ */
+export class HttpExportTransport implements IExporterTransport {
+  private readonly url: URL;
+  private readonly agent: http.Agent;
+
+  constructor(private readonly config: HttpExportTransportConfig) {
+    this.url = new URL(config.url);
+    this.agent =
+      this.url.protocol === "https:"
+        ? new https.Agent({ keepAlive: true })
+        : new http.Agent({ keepAlive: true });
+  }
+
+  send(data: Uint8Array, timeoutMillis: number): Promise<ExportResponse> {
+    const request =
+      this.url.protocol === "https:" ? https.request : http.request;
+
+    return new Promise((resolve) => {
+      let settled = false;
+      // req.setTimeout only fires on socket inactivity: bound the whole
+      // request, including responses trickling in
+      const deadline = setTimeout(() => {
+        done({ status: "failure", error: new Error("Request Timeout") });
+        req.destroy();
+      }, timeoutMillis);
+      const done = (response: ExportResponse) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(deadline);
+          resolve(response);
+        }
+      };
+
+      const req = request(
+        this.url,
+        {
+          method: "POST",
+          agent: this.agent,
+          headers: {
+            "User-Agent": USER_AGENT,
+            ...this.config.headers,
+            "Content-Length": String(data.byteLength),
+          },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("error", (error) => done({ status: "failure", error }));
+          res.on("end", () => {
+            const statusCode = res.statusCode ?? 0;
+            const body = Buffer.concat(chunks);
+            if (statusCode >= 200 && statusCode < 300) {
+              done({ status: "success", data: body });
+            } else if (RETRYABLE_STATUS_CODES.has(statusCode)) {
+              done({
+                status: "retryable",
+                retryInMillis: parseRetryAfter(res.headers["retry-after"]),
+              });
+            } else {
+              done({
+                status: "failure",
+                error: new OTLPExporterError(
+                  res.statusMessage,
+                  statusCode,
+                  body.toString("utf8")
+                ),
+              });
+            }
+          });
+        }
+      );
+
+      req.setTimeout(timeoutMillis, () => {
+        req.destroy(new Error("Request Timeout"));
+      });
+      // Network errors carry no HTTP status; see isTransientFailure
+      req.on("error", (error) => done({ status: "failure", error }));
+      req.end(data);
+    });
+  }
+
+  shutdown(): void {
+    this.agent.destroy();
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * PersistentSpanExporter - spools failed span batches to disk and replays them
+ *
+ * Wraps another SpanExporter. When an export fails (backend outage, network
+ * error, or pending batches flushed during shutdown), the batch is written to
+ * a bounded on-disk queue instead of being dropped. Spooled batches are
+ * replayed oldest-first when the exporter starts, after the next successful
+ * export (the backend has recovered), and periodically in the background.
+ * Once the queue has been drained, replay is skipped until a batch is spooled
+ * again, so successful exports don't list the spool directory.
+ */
+
+import { context } from "@opentelemetry/api";
+import {
+  ExportResultCode,
+  suppressTracing,
+  type ExportResult,
+} from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { createLogger } from "@pingops/core";
+import type { PingopsPersistenceConfig } from "../config";
+import { DiskSpanQueue } from "./disk-queue";
+import { deserializeSpan, serializeSpan } from "./span-serialization";
+
+const logger = createLogger("[PingOps Persistence]");
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024; // 50 MB
+const DEFAULT_REPLAY_INTERVAL = 30_000; // 30 seconds
+
+/**
+ * SpanExporter wrapper that persists failed batches and replays them later.
+ */
+export class PersistentSpanExporter implements SpanExporter {
+  private readonly queue: DiskSpanQueue;
+  private readonly pendingWrites = new Set<Promise<void>>();
+  private replayPromise: Promise<void> | null = null;
+  private replayTimer: NodeJS.Timeout | null = null;
+  // Batches may be left over from a previous run until the first replay
+  private hasSpooledBatches = true;
+  private isShutdown = false;
+
+  /**
+   * Creates a new PersistentSpanExporter instance.
+   *
+   * @param exporter - Exporter that performs the actual export
+   * @param config - Persistence configuration (directory and size bound)
+   */
+  constructor(
+    private readonly exporter: SpanExporter,
+    config: PingopsPersistenceConfig
+  ) {
+    this.queue = new DiskSpanQueue(
+      config.directory,
+      config.maxBytes ?? DEFAULT_MAX_BYTES
+    );
+
+    const replayInterval =
+      config.replayIntervalMillis ?? DEFAULT_REPLAY_INTERVAL;
+    if (replayInterval > 0) {
+      this.replayTimer = setInterval(() => {
+        this.scheduleReplay();
+      }, replayInterval);
+      this.replayTimer.unref();
+    }
+
+    logger.info("Initialized persistent span export queue", {
+      directory: config.directory,
+      maxBytes: config.maxBytes ?? DEFAULT_MAX_BYTES,
+      replayInterval,
+    });
+
+    // Replay batches left behind by a previous run
+    this.scheduleReplay();
+  }
+
+  /**
+   * Exports spans through the wrapped exporter, spooling them to disk on failure
+   */
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    if (this.isShutdown) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("Exporter has been shutdown"),
+      });
+      return;
+    }
+
+    this.exporter.export(spans, (result) => {
+      if (result.code === ExportResultCode.SUCCESS) {
+        resultCallback(result);
+        // Backend is reachable again, drain anything we spooled earlier
+        this.scheduleReplay();
+        return;
+      }
+
+      logger.warn("Span export failed, spooling batch to disk", {
+        spanCount: spans.length,
+        error: result.error?.message,
+      });
+      void this.trackWrite(this.spool(spans)).finally(() =>
+        resultCallback(result)
+      );
+    });
+  }
+
+  /**
+   * Flushes the wrapped exporter and waits for in-flight disk writes and replay
+   */
+  async forceFlush(): Promise<void> {
+    await this.exporter.forceFlush?.();
+    await Promise.all(this.pendingWrites);
+    await this.replayPromise;
+  }
+
+  /**
+   * Stops background replay, waits for in-flight work and shuts down the wrapped exporter
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+    await this.replayPromise;
+    await Promise.all(this.pendingWrites);
+    await this.exporter.shutdown();
+  }
+
+  private async spool(spans: ReadableSpan[]): Promise<void> {
+    try {
+      await this.queue.enqueue(spans.map(serializeSpan));
+      this.hasSpooledBatches = true;
+    } catch (error) {
+      logger.error("Failed to spool span batch to disk", {
+        spanCount: spans.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private trackWrite(write: Promise<void>): Promise<void> {
+    this.pendingWrites.add(write);
+    return write.finally(() => {
+      this.pendingWrites.delete(write);
+    });
+  }
+
+  private scheduleReplay(): void {
+    if (this.replayPromise || this.isShutdown || !this.hasSpooledBatches) {
+      return;
+    }
+
+    // Cleared before listing the queue, so a batch spooled while replaying
+    // triggers another replay
+    this.hasSpooledBatches = false;
+
+    // Exporter traffic must never be instrumented, otherwise replaying would
+    // produce new CLIENT spans for the PingOps backend itself.
+    this.replayPromise = context
+      .with(suppressTracing(context.active()), () => this.replay())
+      .catch((error: unknown) => {
+        this.hasSpooledBatches = true;
+        logger.error("Error replaying spooled span batches", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.replayPromise = null;
+      });
+  }
+
+  private async replay(): Promise<void> {
+    const files = await this.queue.list();
+    if (files.length === 0) {
+      return;
+    }
+
+    logger.info("Replaying spooled span batches", { batchCount: files.length });
+
+    let replayed = 0;
+    for (const fileName of files) {
+      if (this.isShutdown) {
+        this.hasSpooledBatches = true;
+        break;
+      }
+
+      const batch = await this.queue.read(fileName);
+      if (!batch) {
+        continue;
+      }
+
+      const result = await this.exportBatch(batch.map(deserializeSpan));
+      if (result.code !== ExportResultCode.SUCCESS) {
+        logger.debug("Replay stopped, backend still unavailable", {
+          fileName,
+          remaining: files.length - replayed,
+          error: result.error?.message,
+        });
+        this.hasSpooledBatches = true;
+        return;
+      }
+
+      await this.queue.remove(fileName);
+      replayed++;
+    }
+
+    logger.info("Finished replaying spooled span batches", { replayed });
+  }
+
+  private exportBatch(spans: ReadableSpan[]): Promise<ExportResult> {
+    return new Promise((resolve) => {
+      try {
+        this.exporter.export(spans, resolve);
+      } catch (error) {
+        resolve({
+          code: ExportResultCode.FAILED,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * OTLP/HTTP JSON exporter for the PingOps backend
+ *
+ * Built from the public OTLP exporter building blocks so that the transport
+ * can be swapped for one with PingOps retry and circuit-breaking policies.
+ */
+
+import {
+  OTLPExporterBase,
+  createOtlpNetworkExportDelegate,
+} from "@opentelemetry/otlp-exporter-base";
+import { JsonTraceSerializer } from "@opentelemetry/otlp-transformer";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import type {
+  PingopsCircuitBreakerConfig,
+  PingopsRetryConfig,
+} from "../config";
+import { CircuitBreaker } from "./circuit-breaker";
+import { HttpExportTransport } from "./http-transport";
+import { RetryingExportTransport } from "./retrying-transport";
+
+const DEFAULT_EXPORT_TIMEOUT = 5000;
+const DEFAULT_CONCURRENCY_LIMIT = 30;
+
+const DEFAULT_RETRY_CONFIG: Required<PingopsRetryConfig> = {
+  maxAttempts: 5,
+  initialBackoffMillis: 1000,
+  maxBackoffMillis: 10_000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  // Below the 30s export timeout of BatchSpanProcessor
+  maxElapsedMillis: 25_000,
+};
+
+const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<PingopsCircuitBreakerConfig> = {
+  enabled: true,
+  failureThreshold: 5,
+  resetTimeoutMillis: 30_000,
+};
+
+export interface PingopsTraceExporterOptions {
+  /**
+   * Full OTLP traces endpoint, e.g. `${baseUrl}/v1/traces`
+   */
+  url: string;
+  apiKey?: string;
+  timeoutMillis?: number;
+  retry?: PingopsRetryConfig;
+  circuitBreaker?: PingopsCircuitBreakerConfig;
+}
+
+/**
+ * Creates the span exporter that sends spans to the PingOps backend.
+ */
+export function createPingopsTraceExporter(
+  options: PingopsTraceExporterOptions
+): SpanExporter {
+  const retry = { ...DEFAULT_RETRY_CONFIG, ...options.retry };
+  const breakerConfig = {
+    ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    ...options.circuitBreaker,
+  };
+
+  const transport = new RetryingExportTransport(
+    new HttpExportTransport({
+      url: options.url,
+      headers: {
+        Authorization: options.apiKey ? `Bearer ${options.apiKey}` : "",
+        "Content-Type": "application/json",
+      },
+    }),
+    retry,
+    breakerConfig.enabled
+      ? new CircuitBreaker({
+          failureThreshold: breakerConfig.failureThreshold,
+          resetTimeoutMillis: breakerConfig.resetTimeoutMillis,
+        })
+      : undefined
+  );
+
+  return new OTLPExporterBase<ReadableSpan[]>(
+    createOtlpNetworkExportDelegate(
+      {
+        timeoutMillis: options.timeoutMillis ?? DEFAULT_EXPORT_TIMEOUT,
+        concurrencyLimit: DEFAULT_CONCURRENCY_LIMIT,
+        compression: "none",
+      },
+      JsonTraceSerializer,
+      transport
+    )
+  );
+}
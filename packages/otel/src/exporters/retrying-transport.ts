@@ -0,0 +1,166 @@
+/**
+ * Retrying exporter transport with exponential backoff and circuit breaking
+ *
+ * Wraps another IExporterTransport:
+ * - Retries throttling responses (429/502/503/504) and network errors with
+ *   exponential backoff and jitter, honoring Retry-After when present
+ * - Never retries other HTTP failures (e.g. 400, 401)
+ * - Stops retrying once an export would last longer than maxElapsedMillis,
+ *   so that it completes within the export timeout of the span processor
+ * - Feeds the final outcome of each export into a CircuitBreaker and fails
+ *   fast while the circuit is open
+ */
+
+import type {
+  ExportResponse,
+  IExporterTransport,
+} from "@opentelemetry/otlp-exporter-base";
+import { OTLPExporterError } from "@opentelemetry/otlp-exporter-base";
+import { createLogger } from "@pingops/core";
+import type { CircuitBreaker } from "./circuit-breaker";
+
+const logger = createLogger("[PingOps Retry]");
+
+export interface RetryOptions {
+  maxAttempts: number;
+  initialBackoffMillis: number;
+  maxBackoffMillis: number;
+  backoffMultiplier: number;
+  jitter: number;
+  maxElapsedMillis: number;
+}
+
+/**
+ * Network errors (no HTTP status) are transient; HTTP failures are not
+ */
+function isTransientFailure(response: ExportResponse): boolean {
+  return (
+    response.status === "failure" &&
+    !(response.error instanceof OTLPExporterError)
+  );
+}
+
+function sleep(millis: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, millis));
+}
+
+/**
+ * IExporterTransport decorator adding retries and circuit breaking
+ */
+export class RetryingExportTransport implements IExporterTransport {
+  constructor(
+    private readonly transport: IExporterTransport,
+    private readonly retry: RetryOptions,
+    private readonly circuitBreaker?: CircuitBreaker
+  ) {}
+
+  async send(data: Uint8Array, timeoutMillis: number): Promise<ExportResponse> {
+    if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+      return {
+        status: "failure",
+        error: new Error("Circuit breaker is open, export skipped"),
+      };
+    }
+
+    const deadline = Date.now() + this.retry.maxElapsedMillis;
+    let response: ExportResponse = await this.transport.send(
+      data,
+      Math.min(timeoutMillis, this.retry.maxElapsedMillis)
+    );
+
+    for (
+      let attempt = 1;
+      attempt < this.retry.maxAttempts && this.shouldRetry(response);
+      attempt++
+    ) {
+      const retryAfter =
+        response.status === "retryable" ? response.retryInMillis : undefined;
+
+      // The backend asked us to back off for longer than we are willing to
+      // hold this batch: give up now and keep the circuit open until then.
+      if (
+        retryAfter !== undefined &&
+        retryAfter > this.retry.maxBackoffMillis
+      ) {
+        logger.warn("Retry-After exceeds maxBackoffMillis, not retrying", {
+          retryAfter,
+          maxBackoffMillis: this.retry.maxBackoffMillis,
+        });
+        this.circuitBreaker?.open(retryAfter);
+        return this.toFinalResponse(response);
+      }
+
+      const delay = retryAfter ?? this.getBackoff(attempt);
+      // Attempts are cut short rather than started past the deadline
+      const remaining = deadline - Date.now() - delay;
+      if (remaining <= 0) {
+        logger.warn("Export retries exceed maxElapsedMillis, not retrying", {
+          attempt,
+          maxElapsedMillis: this.retry.maxElapsedMillis,
+        });
+        break;
+      }
+
+      logger.debug("Retrying span export", {
+        attempt: attempt + 1,
+        maxAttempts: this.retry.maxAttempts,
+        delay,
+        reason:
+          response.status === "retryable"
+            ? "retryable status"
+            : response.status === "failure"
+              ? response.error.message
+              : undefined,
+      });
+
+      await sleep(delay);
+      response = await this.transport.send(
+        data,
+        Math.min(timeoutMillis, remaining)
+      );
+    }
+
+    if (response.status === "success") {
+      this.circuitBreaker?.recordSuccess();
+      return response;
+    }
+
+    this.circuitBreaker?.recordFailure();
+    return this.toFinalResponse(response);
+  }
+
+  shutdown(): void {
+    this.transport.shutdown();
+  }
+
+  private shouldRetry(response: ExportResponse): boolean {
+    return response.status === "retryable" || isTransientFailure(response);
+  }
+
+  /**
+   * Exponential backoff with +/- jitter, capped at maxBackoffMillis
+   */
+  private getBackoff(attempt: number): number {
+    const base = Math.min(
+      this.retry.initialBackoffMillis *
+        Math.pow(this.retry.backoffMultiplier, attempt - 1),
+      this.retry.maxBackoffMillis
+    );
+    const jitter = base * this.retry.jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + jitter));
+  }
+
+  /**
+   * Retries are handled here, so report exhausted retryable responses as
+   * failures to avoid any further retry higher up the stack.
+   */
+  private toFinalResponse(response: ExportResponse): ExportResponse {
+    if (response.status === "retryable") {
+      return {
+        status: "failure",
+        error: new Error("Export failed with retryable status"),
+      };
+    }
+    return response;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * JSON (de)serialization of ReadableSpan for on-disk persistence
+ *
+ * ReadableSpan instances hold functions (spanContext) and class instances
+ * (Resource), so they cannot be written to disk as-is. These helpers convert
+ * spans to plain JSON records and rebuild ReadableSpan-compatible objects that
+ * any SpanExporter (including the OTLP exporter) can consume on replay.
+ */
+
+import type {
+  Attributes,
+  HrTime,
+  Link,
+  SpanContext,
+  SpanKind,
+  SpanStatus,
+} from "@opentelemetry/api";
+import type { InstrumentationScope } from "@opentelemetry/core";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import type { ReadableSpan, TimedEvent } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Plain JSON representation of a ReadableSpan
+ */
+export interface SerializedSpan {
+  name: string;
+  kind: SpanKind;
+  spanContext: SpanContext;
+  parentSpanContext?: SpanContext;
+  startTime: HrTime;
+  endTime: HrTime;
+  duration: HrTime;
+  status: SpanStatus;
+  attributes: Attributes;
+  links: Link[];
+  events: TimedEvent[];
+  ended: boolean;
+  resource: {
+    attributes: Attributes;
+    schemaUrl?: string;
+  };
+  instrumentationScope: InstrumentationScope;
+  droppedAttributesCount: number;
+  droppedEventsCount: number;
+  droppedLinksCount: number;
+}
+
+/**
+ * Converts a ReadableSpan into a plain JSON-safe record
+ */
+export function serializeSpan(span: ReadableSpan): SerializedSpan {
+  const { traceId, spanId, traceFlags, isRemote } = span.spanContext();
+
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: { traceId, spanId, traceFlags, isRemote },
+    parentSpanContext: span.parentSpanContext
+      ? {
+          traceId: span.parentSpanContext.traceId,
+          spanId: span.parentSpanContext.spanId,
+          traceFlags: span.parentSpanContext.traceFlags,
+          isRemote: span.parentSpanContext.isRemote,
+        }
+      : undefined,
+    startTime: span.startTime,
+    endTime: span.endTime,
+    duration: span.duration,
+    status: span.status,
+    attributes: span.attributes,
+    links: span.links,
+    events: span.events,
+    ended: span.ended,
+    resource: {
+      attributes: span.resource.attributes,
+      schemaUrl: span.resource.schemaUrl,
+    },
+    instrumentationScope: span.instrumentationScope,
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+}
+
+/**
+ * Rebuilds a ReadableSpan from its serialized form
+ */
+export function deserializeSpan(serialized: SerializedSpan): ReadableSpan {
+  const spanContext = serialized.spanContext;
+
+  return {
+    name: serialized.name,
+    kind: serialized.kind,
+    spanContext: () => spanContext,
+    parentSpanContext: serialized.parentSpanContext,
+    startTime: serialized.startTime,
+    endTime: serialized.endTime,
+    duration: serialized.duration,
+    status: serialized.status,
+    attributes: serialized.attributes ?? {},
+    links: serialized.links ?? [],
+    events: serialized.events ?? [],
+    ended: serialized.ended ?? true,
+    resource: resourceFromAttributes(serialized.resource?.attributes ?? {}, {
+      schemaUrl: serialized.resource?.schemaUrl,
+    }),
+    instrumentationScope: serialized.instrumentationScope,
+    droppedAttributesCount: serialized.droppedAttributesCount ?? 0,
+    droppedEventsCount: serialized.droppedEventsCount ?? 0,
+    droppedLinksCount: serialized.droppedLinksCount ?? 0,
+  };
+}
@@ -3,7 +3,30 @@
  */
 
 export { PingopsSpanProcessor } from "./span-processor";
-export type { PingopsProcessorConfig } from "./config";
+export type {
+  PingopsProcessorConfig,
+  PingopsPersistenceConfig,
+  PingopsRetryConfig,
+  PingopsCircuitBreakerConfig,
+  PingopsExportMode,
+  PingopsBodyTruncationStrategy,
+  PingopsFileExportConfig,
+  PingopsBeforeSendHook,
+  PingopsTailSamplingConfig,
+  PingopsTailSamplingRule,
+  PingopsBufferedTrace,
+} from "./config";
+export { keepErroredTraces, keepSlowTraces } from "./trace-buffer";
+export { FileSpanExporter, resolveExportMode } from "./exporters/file-exporter";
+export {
+  HarSpanExporter,
+  type HarSpanExporterOptions,
+} from "./exporters/har-exporter";
+export { PersistentSpanExporter } from "./exporters/persistent-exporter";
+export {
+  createPingopsTraceExporter,
+  type PingopsTraceExporterOptions,
+} from "./exporters/pingops-exporter";
 export {
   setPingopsTracerProvider,
   getPingopsTracerProvider,
@@ -0,0 +1,312 @@
+/**
+ * Body capture helpers shared by the HTTP and undici instrumentations
+ */
+
+import { getEncoding } from "istextorbinary";
+import {
+  createTruncatedBody,
+  decompressBodyHead,
+  getMediaType,
+  isCompressedContentEncoding,
+  isBinaryContentType,
+  isBodyContentTypeAllowed,
+  type BodyTruncationMarker,
+  type DomainPolicy,
+  type TruncatedBody,
+} from "@pingops/core";
+import type { PingopsBodyTruncationStrategy } from "../config";
+
+/**
+ * Returns the placeholder to record instead of a body that must not be
+ * captured as text, or undefined if the body can be captured
+ *
+ * Bodies excluded by the content-type allow/deny lists and binary bodies
+ * (images, PDFs, protobuf...) are replaced with their size and content type.
+ *
+ * @param bodyType - Whether the body is a request or response body
+ * @param body - Raw body bytes
+ * @param contentType - Content-type header of the body
+ * @param policy - Domain policy of the request
+ * @param isEncoded - Whether the body is compressed, in which case its bytes
+ * are not inspected
+ * @param size - Size of the whole body, when `body` is only its beginning,
+ * or null if unknown
+ */
+export function getBodyPlaceholder(
+  bodyType: "request" | "response",
+  body: Buffer,
+  contentType: unknown,
+  policy: Pick<
+    DomainPolicy,
+    "bodyContentTypesAllowList" | "bodyContentTypesDenyList"
+  >,
+  isEncoded = false,
+  size: number | null = body.length
+): string | undefined {
+  const mediaType = getMediaType(contentType) ?? "unknown";
+  if (
+    !isBodyContentTypeAllowed(
+      contentType,
+      policy.bodyContentTypesAllowList,
+      policy.bodyContentTypesDenyList
+    )
+  ) {
+    return `[excluded ${bodyType} body; size=${size ?? "unknown"}; content-type=${mediaType}]`;
+  }
+
+  const isBinary =
+    isBinaryContentType(contentType) ??
+    (!isEncoded && getEncoding(body) === "binary");
+  if (isBinary) {
+    return `[binary ${bodyType} body; size=${size ?? "unknown"}; content-type=${mediaType}]`;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the number of bytes at the end of a UTF-8 buffer that belong to an
+ * incomplete character
+ */
+function incompleteUtf8Suffix(buffer: Buffer): number {
+  // A character is at most 4 bytes, so only the last 3 bytes can be incomplete
+  for (let i = 1; i <= Math.min(3, buffer.length); i++) {
+    const byte = buffer[buffer.length - i];
+    if ((byte & 0xc0) === 0x80) {
+      continue; // continuation byte
+    }
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return length > i ? i : 0;
+  }
+  return 0;
+}
+
+/**
+ * Returns the number of continuation bytes at the start of a UTF-8 buffer
+ * (the end of a character cut by truncation)
+ */
+function leadingUtf8Continuation(buffer: Buffer): number {
+  let count = 0;
+  while (
+    count < Math.min(3, buffer.length) &&
+    (buffer[count] & 0xc0) === 0x80
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Collects body chunks up to a size limit
+ *
+ * Bodies within the limit are kept whole. For larger bodies, only the head
+ * (and tail with the head-tail strategy) is kept, so memory stays bounded by
+ * the limit whatever the body size.
+ */
+export class BodyCollector {
+  private headChunks: Buffer[] = [];
+  private headSize = 0;
+  private tail: Buffer = Buffer.alloc(0);
+  private totalSize = 0;
+  private isSizeKnown = true;
+  private readonly headLimit: number;
+  private readonly tailLimit: number;
+
+  constructor(
+    private readonly maxSize: number,
+    private readonly strategy: PingopsBodyTruncationStrategy = "drop"
+  ) {
+    this.headLimit =
+      strategy === "head-tail" ? Math.ceil(maxSize / 2) : maxSize;
+    this.tailLimit = strategy === "head-tail" ? maxSize - this.headLimit : 0;
+  }
+
+  /**
+   * Adds a chunk of the body
+   */
+  push(chunk: Buffer): void {
+    this.totalSize += chunk.length;
+
+    let rest = chunk;
+    if (this.headSize < this.headLimit) {
+      const head = rest.subarray(0, this.headLimit - this.headSize);
+      this.headChunks.push(head);
+      this.headSize += head.length;
+      rest = rest.subarray(head.length);
+    }
+
+    if (rest.length > 0 && this.tailLimit > 0) {
+      const tail = Buffer.concat([this.tail, rest]);
+      this.tail = tail.subarray(Math.max(0, tail.length - this.tailLimit));
+    }
+  }
+
+  /**
+   * Marks the body as larger than the pushed bytes, when its remaining bytes
+   * are unknown (e.g. a decompressed body whose inflation stopped at the limit)
+   */
+  markTruncated(): void {
+    this.isSizeKnown = false;
+  }
+
+  /**
+   * Size of the whole body, including the bytes that were not kept, or null
+   * if unknown
+   */
+  get size(): number | null {
+    return this.isSizeKnown ? this.totalSize : null;
+  }
+
+  /**
+   * Whether the body exceeded the size limit
+   */
+  get isTruncated(): boolean {
+    return !this.isSizeKnown || this.totalSize > this.maxSize;
+  }
+
+  /**
+   * Returns the whole body, or null if it was truncated or is empty
+   */
+  getBody(): Buffer | null {
+    if (this.isTruncated || this.totalSize === 0) {
+      return null;
+    }
+    return Buffer.concat([...this.headChunks, this.tail]);
+  }
+
+  /**
+   * Returns the kept head of the body
+   */
+  getHead(): Buffer {
+    return Buffer.concat(this.headChunks);
+  }
+
+  /**
+   * Returns the kept head (and tail) of a truncated body as text, separated
+   * by a marker with the original size, or null with the drop strategy
+   */
+  toTruncatedBody(bodyType: "request" | "response"): TruncatedBody | null {
+    if (!this.isTruncated || this.strategy === "drop") {
+      return null;
+    }
+    const head = this.getHead();
+    const headEnd = head.length - incompleteUtf8Suffix(head);
+    const tailStart = leadingUtf8Continuation(this.tail);
+    const omitted = this.isSizeKnown
+      ? this.totalSize - headEnd - (this.tail.length - tailStart)
+      : undefined;
+    return createTruncatedBody(
+      bodyType,
+      head.subarray(0, headEnd).toString("utf8"),
+      this.tail.subarray(tailStart).toString("utf8"),
+      this.size ?? undefined,
+      omitted
+    );
+  }
+}
+
+/**
+ * Collects a compressed body, to decompress it once complete
+ *
+ * The size limit and the truncation strategy apply to the decompressed body:
+ * only the compressed bytes needed to inflate it up to the limit are kept, and
+ * inflation is bounded by the limit.
+ */
+export class CompressedBodyCollector extends BodyCollector {
+  constructor(
+    private readonly decompressedMaxSize: number,
+    private readonly decompressedStrategy: PingopsBodyTruncationStrategy = "drop"
+  ) {
+    // Incompressible data grows by a few bytes per block when compressed
+    super(
+      decompressedMaxSize + Math.ceil(decompressedMaxSize / 100) + 1024,
+      "head"
+    );
+  }
+
+  /**
+   * Decompresses the collected body
+   *
+   * With the head-tail strategy, only the head of a body larger than the limit
+   * is kept, as its tail is not known without inflating the whole body.
+   *
+   * @returns The decompressed body, or null if it is empty or cannot be
+   * decompressed
+   */
+  decompress(contentEncoding: unknown): BodyCollector | null {
+    if (this.size === 0) {
+      return null;
+    }
+    const head = decompressBodyHead(
+      this.getHead(),
+      contentEncoding,
+      this.decompressedMaxSize,
+      this.isTruncated
+    );
+    if (!head) {
+      return null;
+    }
+
+    const decompressed = new BodyCollector(
+      this.decompressedMaxSize,
+      head.isTruncated && this.decompressedStrategy === "head-tail"
+        ? "head"
+        : this.decompressedStrategy
+    );
+    decompressed.push(head.body);
+    if (head.isTruncated) {
+      decompressed.markTruncated();
+    }
+    return decompressed;
+  }
+}
+
+/**
+ * Creates the collector of a response body: compressed bodies to decompress
+ * are collected up to their decompressed size
+ */
+export function createResponseBodyCollector(
+  maxSize: number,
+  strategy: PingopsBodyTruncationStrategy | undefined,
+  contentEncoding: unknown,
+  decompressBodies: boolean | undefined
+): BodyCollector {
+  return decompressBodies && isCompressedContentEncoding(contentEncoding)
+    ? new CompressedBodyCollector(maxSize, strategy)
+    : new BodyCollector(maxSize, strategy);
+}
+
+/**
+ * Returns the partial body to record for a body exceeding the size limit, or
+ * null if nothing of it can be kept (drop strategy, compressed body)
+ *
+ * Binary bodies and bodies excluded by content type get their placeholder,
+ * without truncation marker.
+ */
+export function getTruncatedBody(
+  collector: BodyCollector,
+  bodyType: "request" | "response",
+  contentType: unknown,
+  contentEncoding: unknown,
+  policy: Pick<
+    DomainPolicy,
+    "bodyContentTypesAllowList" | "bodyContentTypesDenyList"
+  >
+): { body: string; marker?: BodyTruncationMarker } | null {
+  // Partial compressed bytes cannot be decoded
+  if (isCompressedContentEncoding(contentEncoding)) {
+    return null;
+  }
+  const truncated = collector.toTruncatedBody(bodyType);
+  if (truncated === null) {
+    return null;
+  }
+  const placeholder = getBodyPlaceholder(
+    bodyType,
+    collector.getHead(),
+    contentType,
+    policy,
+    false,
+    collector.size
+  );
+  return placeholder ? { body: placeholder } : truncated;
+}
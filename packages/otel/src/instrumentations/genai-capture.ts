@@ -0,0 +1,218 @@
+/**
+ * GenAI attribute capture for requests to LLM provider APIs, shared by the
+ * HTTP and undici instrumentations
+ *
+ * Bodies of GenAI requests are parsed whether or not body capture is enabled,
+ * as the model, token usage and finish reasons are only found in them.
+ *
+ * In startTrace traces, GenAI spans also carry the running usage totals of
+ * their trace (`pingops.trace.gen_ai.usage.*`), so the GenAI span ending last
+ * carries the totals of the trace.
+ */
+
+import { context, type Attributes } from "@opentelemetry/api";
+import {
+  GEN_AI_USAGE_COST,
+  GenAiResponseAccumulator,
+  GenAiUsageTotals,
+  PINGOPS_GENAI_USAGE,
+  StreamEventParser,
+  createLogger,
+  decompressBody,
+  estimateGenAiCost,
+  getGenAiPrices,
+  getGenAiRequestAttributes,
+  getGenAiSystem,
+  getStreamFormat,
+  isCompressedContentEncoding,
+  shouldCaptureSpan,
+  type DomainRuleRequest,
+  type GenAiModelPrice,
+  type GenAiSystem,
+} from "@pingops/core";
+import { getGlobalConfig } from "../config-store";
+
+const logger = createLogger("[PingOps GenAI]");
+
+/** Maximum size of a GenAI request or response body parsed (bytes). */
+const MAX_GENAI_BODY_SIZE = 1024 * 1024; // 1 MB
+
+/**
+ * Parses a JSON body, returning undefined if it is not valid JSON
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns true if the span of the request passes the domain allow and deny
+ * lists of the processor
+ */
+function isCapturedByDomainRules(
+  url: string,
+  request: DomainRuleRequest
+): boolean {
+  const config = getGlobalConfig();
+  return shouldCaptureSpan(
+    url,
+    config?.domainAllowList,
+    config?.domainDenyList,
+    request
+  );
+}
+
+/**
+ * Collects the bodies of a GenAI request and extracts its GenAI attributes
+ */
+export class GenAiCapture {
+  private requestChunks: Buffer[] = [];
+  private requestSize = 0;
+  private responseChunks: Buffer[] = [];
+  private responseSize = 0;
+  private responseEncoding?: unknown;
+  private responseStream?: StreamEventParser;
+  private readonly response = new GenAiResponseAccumulator();
+
+  /**
+   * @param url - Request URL
+   * @param genAiHosts - Additional GenAI API hosts
+   * @param prices - Pricing table of the cost estimation
+   * @param traceUsage - Usage totals of the trace of the request, if any
+   */
+  constructor(
+    private readonly url: string,
+    private readonly genAiHosts?: Record<string, GenAiSystem>,
+    private readonly prices?: Readonly<Record<string, GenAiModelPrice>>,
+    private readonly traceUsage?: GenAiUsageTotals
+  ) {}
+
+  /**
+   * Adds a chunk of the request body
+   */
+  pushRequestBody(chunk: Buffer | string): void {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    this.requestSize += buffer.length;
+    if (this.requestSize <= MAX_GENAI_BODY_SIZE) {
+      this.requestChunks.push(buffer);
+    } else {
+      this.requestChunks = [];
+    }
+  }
+
+  /**
+   * Sets the response headers, once received
+   */
+  setResponseHeaders(contentType: unknown, contentEncoding: unknown): void {
+    const format = getStreamFormat(contentType);
+    // Compressed streams are not parsed, partial compressed data is not decodable
+    if (format && !isCompressedContentEncoding(contentEncoding)) {
+      this.responseStream = new StreamEventParser(format);
+    }
+    this.responseEncoding = contentEncoding;
+  }
+
+  /**
+   * Adds a chunk of the response body
+   */
+  pushResponseBody(chunk: Buffer): void {
+    if (this.responseStream) {
+      for (const event of this.responseStream.push(chunk)) {
+        this.response.add(parseJson(event.data));
+      }
+      return;
+    }
+    this.responseSize += chunk.length;
+    if (this.responseSize <= MAX_GENAI_BODY_SIZE) {
+      this.responseChunks.push(chunk);
+    } else {
+      this.responseChunks = [];
+    }
+  }
+
+  /**
+   * Returns the GenAI attributes of the request and of the response received
+   * so far, or undefined if the request is not a GenAI inference request
+   *
+   * @param request - Method and response status code, to match the domain rules
+   */
+  getAttributes(request: DomainRuleRequest = {}): Attributes | undefined {
+    try {
+      const requestBody =
+        this.requestChunks.length > 0
+          ? parseJson(Buffer.concat(this.requestChunks).toString("utf8"))
+          : undefined;
+      const requestAttributes = getGenAiRequestAttributes(
+        this.url,
+        requestBody,
+        this.genAiHosts
+      );
+      if (!requestAttributes) {
+        return undefined;
+      }
+
+      if (this.responseStream) {
+        for (const event of this.responseStream.flush()) {
+          this.response.add(parseJson(event.data));
+        }
+      } else if (this.responseChunks.length > 0) {
+        const body = Buffer.concat(this.responseChunks);
+        const decoded = isCompressedContentEncoding(this.responseEncoding)
+          ? decompressBody(body, this.responseEncoding, MAX_GENAI_BODY_SIZE)
+          : body;
+        if (decoded) {
+          this.response.add(parseJson(decoded.toString("utf8")));
+        }
+      }
+      const attributes: Attributes = {
+        ...requestAttributes,
+        ...this.response.getAttributes(),
+      };
+      const cost = estimateGenAiCost(attributes, this.prices);
+      if (cost !== undefined) {
+        attributes[GEN_AI_USAGE_COST] = cost;
+      }
+      // Requests filtered out by the domain rules are not exported, so they do
+      // not count in the totals of the trace either
+      if (this.traceUsage && isCapturedByDomainRules(this.url, request)) {
+        this.traceUsage.add(attributes);
+        Object.assign(attributes, this.traceUsage.getAttributes());
+      }
+      return attributes;
+    } catch (error) {
+      logger.debug("Failed to extract GenAI attributes", {
+        url: this.url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Creates the GenAI capture of a request, or returns undefined if the URL is
+ * not a GenAI provider API
+ *
+ * Must be called in the context of the request, to add its usage to the
+ * totals of its startTrace trace.
+ */
+export function createGenAiCapture(url?: string): GenAiCapture | undefined {
+  if (!url) {
+    return undefined;
+  }
+  const config = getGlobalConfig();
+  const genAiHosts = config?.genAiHosts;
+  if (!getGenAiSystem(url, genAiHosts)) {
+    return undefined;
+  }
+  const traceUsage = context.active().getValue(PINGOPS_GENAI_USAGE);
+  return new GenAiCapture(
+    url,
+    genAiHosts,
+    getGenAiPrices(config?.genAiPricing),
+    traceUsage instanceof GenAiUsageTotals ? traceUsage : undefined
+  );
+}
@@ -25,6 +25,8 @@ export function createHttpInstrumentation(
     ignoreOutgoingRequestHook: () => false, // Always instrument outgoing requests
     maxRequestBodySize: globalConfig?.maxRequestBodySize,
     maxResponseBodySize: globalConfig?.maxResponseBodySize,
+    truncationStrategy: globalConfig?.truncationStrategy,
+    decompressBodies: globalConfig?.decompressBodies,
     ...config,
   });
 }
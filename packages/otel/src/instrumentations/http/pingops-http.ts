@@ -24,18 +24,41 @@ import {
 import {
   PINGOPS_CAPTURE_REQUEST_BODY,
   PINGOPS_CAPTURE_RESPONSE_BODY,
+  PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER,
   bufferToBodyString,
+  getDomainRuleEngine,
+  getMediaType,
   HTTP_RESPONSE_CONTENT_ENCODING,
   isCompressedContentEncoding,
 } from "@pingops/core";
 import { getGlobalConfig } from "../../config-store";
-import type { DomainRule } from "@pingops/core";
+import type { PingopsBodyTruncationStrategy } from "../../config";
+import type { DomainPolicy, DomainRuleRequest } from "@pingops/core";
 import { resolveOutboundSpanParentContext } from "../suppression-guard";
+import {
+  BodyCollector,
+  CompressedBodyCollector,
+  createResponseBodyCollector,
+  getBodyPlaceholder,
+  getTruncatedBody,
+} from "../body-capture";
+import { createStreamCollector, type StreamCollector } from "../stream-capture";
+import { createGenAiCapture, type GenAiCapture } from "../genai-capture";
 
 // Constants
 const DEFAULT_MAX_REQUEST_BODY_SIZE: number = 4 * 1024; // 4 KB
 const DEFAULT_MAX_RESPONSE_BODY_SIZE: number = 4 * 1024; // 4 KB
 
+/**
+ * Start times of outgoing requests (epoch milliseconds), for stream timings
+ */
+const requestStartTimes = new WeakMap<ClientRequest, number>();
+
+/**
+ * GenAI captures of outgoing requests to LLM provider APIs
+ */
+const genAiCaptures = new WeakMap<ClientRequest, GenAiCapture>();
+
 // Semantic attributes
 export const PingopsSemanticAttributes = {
   HTTP_REQUEST_BODY: "http.request.body",
@@ -54,6 +77,19 @@ export interface PingopsInstrumentationConfig {
    * @defaultValue 4096 (4 KB)
    */
   maxResponseBodySize?: number;
+
+  /**
+   * What to capture of response bodies larger than maxResponseBodySize
+   * @defaultValue "drop"
+   */
+  truncationStrategy?: PingopsBodyTruncationStrategy;
+
+  /**
+   * Decompress gzip, br and deflate response bodies before capturing them,
+   * maxResponseBodySize then applying to the decompressed body
+   * @defaultValue false
+   */
+  decompressBodies?: boolean;
 }
 
 /**
@@ -125,47 +161,33 @@ function setAttributeValue(span: Span, attrName: string, attrValue: any): void {
 }
 
 /**
- * Extracts domain from URL
+ * Resolves the domain policy of a request from the processor configuration
  */
-function extractDomainFromUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    const match = url.match(/^(?:https?:\/\/)?([^/]+)/);
-    return match ? match[1] : "";
-  }
-}
-
-/**
- * Gets domain rule configuration for a given URL
- */
-function getDomainRule(
-  url: string,
-  domainAllowList?: DomainRule[]
-): DomainRule | undefined {
-  if (!domainAllowList) {
-    return undefined;
-  }
-
-  const domain = extractDomainFromUrl(url);
-  for (const rule of domainAllowList) {
-    if (
-      domain === rule.domain ||
-      domain.endsWith(`.${rule.domain}`) ||
-      domain === rule.domain.slice(1)
-    ) {
-      return rule;
+function resolveDomainPolicy(
+  url?: string,
+  request?: DomainRuleRequest
+): DomainPolicy {
+  const globalConfig = getGlobalConfig();
+  return getDomainRuleEngine(globalConfig?.domainAllowList).resolve(
+    url,
+    request,
+    {
+      captureRequestBody: globalConfig?.captureRequestBody,
+      captureResponseBody: globalConfig?.captureResponseBody,
+      bodyContentTypesAllowList: globalConfig?.bodyContentTypesAllowList,
+      bodyContentTypesDenyList: globalConfig?.bodyContentTypesDenyList,
     }
-  }
-  return undefined;
+  );
 }
 
 /**
  * Determines if request body should be captured based on priority:
  * context > domain rule > global config > default (false)
  */
-function shouldCaptureRequestBody(url?: string): boolean {
+function shouldCaptureRequestBody(
+  url?: string,
+  request?: DomainRuleRequest
+): boolean {
   const activeContext = context.active();
 
   // Check context value first (from startTrace)
@@ -176,30 +198,23 @@ function shouldCaptureRequestBody(url?: string): boolean {
     return contextValue;
   }
 
-  // Check domain-specific rule
-  if (url) {
-    const globalConfig = getGlobalConfig();
-    const domainRule = getDomainRule(url, globalConfig?.domainAllowList);
-    if (domainRule?.captureRequestBody !== undefined) {
-      return domainRule.captureRequestBody;
-    }
-  }
-
-  // Fall back to global config
+  // Rules with statusCodes may still match once the response is received
   const globalConfig = getGlobalConfig();
-  if (globalConfig?.captureRequestBody !== undefined) {
-    return globalConfig.captureRequestBody;
-  }
-
-  // Default to false
-  return false;
+  return getDomainRuleEngine(
+    globalConfig?.domainAllowList
+  ).mayCaptureRequestBody(url, request, {
+    captureRequestBody: globalConfig?.captureRequestBody,
+  });
 }
 
 /**
  * Determines if response body should be captured based on priority:
  * context > domain rule > global config > default (false)
  */
-function shouldCaptureResponseBody(url?: string): boolean {
+function shouldCaptureResponseBody(
+  url?: string,
+  request?: DomainRuleRequest
+): boolean {
   const activeContext = context.active();
 
   // Check context value first (from startTrace)
@@ -210,23 +225,16 @@ function shouldCaptureResponseBody(url?: string): boolean {
     return contextValue;
   }
 
-  // Check domain-specific rule
-  if (url) {
-    const globalConfig = getGlobalConfig();
-    const domainRule = getDomainRule(url, globalConfig?.domainAllowList);
-    if (domainRule?.captureResponseBody !== undefined) {
-      return domainRule.captureResponseBody;
-    }
-  }
-
-  // Fall back to global config
-  const globalConfig = getGlobalConfig();
-  if (globalConfig?.captureResponseBody !== undefined) {
-    return globalConfig.captureResponseBody;
-  }
+  return resolveDomainPolicy(url, request).captureResponseBody;
+}
 
-  // Default to false
-  return false;
+/**
+ * Builds the URL of an outgoing request
+ */
+function getClientRequestUrl(request: ClientRequest): string | undefined {
+  return request.path && request.getHeader("host")
+    ? `${request.protocol || "http:"}//${request.getHeader("host")}${request.path}`
+    : undefined;
 }
 
 /**
@@ -237,17 +245,26 @@ function captureRequestBody(
   data: string | Buffer,
   maxSize: number,
   semanticAttr: string,
-  url?: string
+  url?: string,
+  request?: DomainRuleRequest,
+  contentType?: unknown
 ): void {
   // Check if body capture is enabled
-  if (!shouldCaptureRequestBody(url)) {
+  if (!shouldCaptureRequestBody(url, request)) {
     return;
   }
 
   if (data.length && data.length <= maxSize) {
     try {
+      const placeholder = getBodyPlaceholder(
+        "request",
+        typeof data === "string" ? Buffer.from(data) : data,
+        contentType,
+        resolveDomainPolicy(url, request)
+      );
       const requestBody: string =
-        typeof data === "string" ? data : data.toString("utf-8");
+        placeholder ??
+        (typeof data === "string" ? data : data.toString("utf-8"));
       if (requestBody) {
         setAttributeValue(span, semanticAttr, requestBody);
       }
@@ -258,25 +275,69 @@ function captureRequestBody(
 }
 
 /**
- * Captures response body from chunks
+ * Captures response body from collected chunks
  */
 function captureResponseBody(
   span: Span,
-  chunks: Buffer[] | null,
+  body: BodyCollector,
   semanticAttr: string,
   responseHeaders?: Record<string, string | string[] | undefined> | null,
-  url?: string
+  url?: string,
+  request?: DomainRuleRequest,
+  config?: PingopsInstrumentationConfig
 ): void {
   // Check if body capture is enabled
-  if (!shouldCaptureResponseBody(url)) {
+  if (!shouldCaptureResponseBody(url, request)) {
+    return;
+  }
+
+  const contentEncoding = responseHeaders?.["content-encoding"];
+  const contentType = responseHeaders?.["content-type"];
+  // Decompress in process if enabled, otherwise (or on failure) send base64
+  const decompressed =
+    body instanceof CompressedBodyCollector
+      ? body.decompress(contentEncoding)
+      : null;
+  const isEncoded =
+    isCompressedContentEncoding(contentEncoding) && !decompressed;
+  const collector = decompressed ?? body;
+  if (collector.isTruncated) {
+    // Keep the head (and tail) of text bodies if configured, or record a clear
+    // message rather than storing partial (often-undecodable) bytes
+    const truncated = getTruncatedBody(
+      collector,
+      "response",
+      contentType,
+      isEncoded ? contentEncoding : undefined,
+      resolveDomainPolicy(url, request)
+    );
+    if (truncated?.marker) {
+      span.setAttribute(PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER, [
+        ...truncated.marker,
+      ]);
+    }
+    setAttributeValue(
+      span,
+      semanticAttr,
+      truncated?.body ??
+        `[truncated response body; exceeded maxResponseBodySize=${config?.maxResponseBodySize || DEFAULT_MAX_RESPONSE_BODY_SIZE}; content-type=${getMediaType(contentType) ?? "unknown"}; content-encoding=${String(contentEncoding ?? "identity")}]`
+    );
     return;
   }
 
-  if (chunks && chunks.length) {
+  const concatedChunks = collector.getBody();
+  if (concatedChunks) {
     try {
-      const concatedChunks: Buffer = Buffer.concat(chunks);
-      const contentEncoding = responseHeaders?.["content-encoding"];
-      if (isCompressedContentEncoding(contentEncoding)) {
+      const placeholder = getBodyPlaceholder(
+        "response",
+        concatedChunks,
+        contentType,
+        resolveDomainPolicy(url, request),
+        isEncoded
+      );
+      if (placeholder) {
+        setAttributeValue(span, semanticAttr, placeholder);
+      } else if (isEncoded) {
         setAttributeValue(
           span,
           semanticAttr,
@@ -303,6 +364,26 @@ function captureResponseBody(
   }
 }
 
+/**
+ * Captures the stream attributes and the summary of a streamed response body
+ */
+function captureResponseStream(
+  span: Span,
+  stream: StreamCollector,
+  semanticAttr: string
+): void {
+  try {
+    stream.end();
+    span.setAttributes(stream.getAttributes());
+    const summary = stream.getSummary();
+    if (summary) {
+      setAttributeValue(span, semanticAttr, summary);
+    }
+  } catch (e) {
+    console.error("Error occurred while capturing response stream:", e);
+  }
+}
+
 /**
  * Extracts headers from a request object (ClientRequest or IncomingMessage)
  * Handles both types efficiently by checking for available methods/properties
@@ -522,14 +603,18 @@ export class PingopsHttpInstrumentation extends HttpInstrumentation {
         captureRequestHeaders(span, headers);
       }
       if (request instanceof ClientRequest) {
+        requestStartTimes.set(request, Date.now());
         const maxRequestBodySize: number =
           config?.maxRequestBodySize || DEFAULT_MAX_REQUEST_BODY_SIZE;
 
         // Extract URL from request
-        const url =
-          request.path && request.getHeader("host")
-            ? `${request.protocol || "http:"}//${request.getHeader("host")}${request.path}`
-            : undefined;
+        const url = getClientRequestUrl(request);
+        const requestInfo: DomainRuleRequest = { method: request.method };
+
+        const genAi = createGenAiCapture(url);
+        if (genAi) {
+          genAiCaptures.set(request, genAi);
+        }
 
         const originalWrite = request.write.bind(request);
         const originalEnd = request.end.bind(request);
@@ -537,12 +622,15 @@ export class PingopsHttpInstrumentation extends HttpInstrumentation {
         // Capture request body
         request.write = (data: any): boolean => {
           if (typeof data === "string" || data instanceof Buffer) {
+            genAi?.pushRequestBody(data);
             captureRequestBody(
               span,
               data,
               maxRequestBodySize,
               PingopsSemanticAttributes.HTTP_REQUEST_BODY,
-              url
+              url,
+              requestInfo,
+              request.getHeader("content-type")
             );
           }
           return originalWrite(data);
@@ -550,12 +638,15 @@ export class PingopsHttpInstrumentation extends HttpInstrumentation {
 
         request.end = (data: any): ClientRequest => {
           if (typeof data === "string" || data instanceof Buffer) {
+            genAi?.pushRequestBody(data);
             captureRequestBody(
               span,
               data,
               maxRequestBodySize,
               PingopsSemanticAttributes.HTTP_REQUEST_BODY,
-              url
+              url,
+              requestInfo,
+              request.getHeader("content-type")
             );
           }
           return originalEnd(data);
@@ -583,42 +674,90 @@ export class PingopsHttpInstrumentation extends HttpInstrumentation {
         const maxResponseBodySize: number =
           config?.maxResponseBodySize || DEFAULT_MAX_RESPONSE_BODY_SIZE;
 
-        // Extract URL from response (if available via request)
-        // Note: We can't easily get URL from IncomingMessage, so we'll rely on
-        // domain rules matching based on headers or skip domain-specific checks
-        const url = response.url || undefined;
+        // Extract URL from the request of the response, so that domain rules apply
+        const clientRequest = (
+          response as IncomingMessage & { req?: ClientRequest }
+        ).req;
+        const url =
+          (clientRequest && getClientRequestUrl(clientRequest)) ||
+          response.url ||
+          undefined;
+        const requestInfo: DomainRuleRequest = {
+          method: clientRequest?.method,
+          statusCode: response.statusCode,
+        };
 
-        let chunks: Buffer[] | null = [];
-        let totalSize: number = 0;
+        const body = createResponseBodyCollector(
+          maxResponseBodySize,
+          config?.truncationStrategy,
+          headers?.["content-encoding"],
+          config?.decompressBodies
+        );
 
         // Only capture response body if enabled
-        const shouldCapture = shouldCaptureResponseBody(url);
+        const shouldCapture = shouldCaptureResponseBody(url, requestInfo);
+
+        // GenAI responses are parsed whether or not body capture is enabled
+        const genAi = clientRequest && genAiCaptures.get(clientRequest);
+        genAi?.setResponseHeaders(
+          headers?.["content-type"],
+          headers?.["content-encoding"]
+        );
+
+        // Streamed bodies (SSE, NDJSON) are captured event by event
+        const stream = shouldCapture
+          ? createStreamCollector(
+              headers?.["content-type"],
+              headers?.["content-encoding"],
+              resolveDomainPolicy(url, requestInfo),
+              maxResponseBodySize,
+              (clientRequest && requestStartTimes.get(clientRequest)) ??
+                Date.now()
+            )
+          : undefined;
 
         // Capture response body
         response.prependListener("data", (chunk: any): void => {
-          if (!chunk || !shouldCapture) {
+          if (!chunk || (!shouldCapture && !genAi)) {
             return;
           }
           if (typeof chunk === "string" || chunk instanceof Buffer) {
-            totalSize += chunk.length;
-            if (chunks && totalSize <= maxResponseBodySize) {
-              chunks.push(
-                typeof chunk === "string" ? Buffer.from(chunk) : chunk
-              );
+            const buffer: Buffer =
+              typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+            genAi?.pushResponseBody(buffer);
+            if (!shouldCapture) {
+              return;
+            }
+            if (stream) {
+              stream.push(buffer);
             } else {
-              // No need to capture partial response body
-              chunks = null;
+              // Bodies over the max size are kept partially or dropped
+              body.push(buffer);
             }
           }
         });
 
         response.prependOnceListener("end", (): void => {
+          const genAiAttributes = genAi?.getAttributes(requestInfo);
+          if (genAiAttributes) {
+            span.setAttributes(genAiAttributes);
+          }
+          if (stream) {
+            captureResponseStream(
+              span,
+              stream,
+              PingopsSemanticAttributes.HTTP_RESPONSE_BODY
+            );
+            return;
+          }
           captureResponseBody(
             span,
-            chunks,
+            body,
             PingopsSemanticAttributes.HTTP_RESPONSE_BODY,
             headers,
-            url
+            url,
+            requestInfo,
+            config
           );
         });
       }
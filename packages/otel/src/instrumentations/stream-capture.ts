@@ -0,0 +1,154 @@
+/**
+ * Capture of streamed response bodies (Server-Sent Events, NDJSON), shared by
+ * the HTTP and undici instrumentations
+ */
+
+import type { Attributes } from "@opentelemetry/api";
+import {
+  HTTP_RESPONSE_STREAM_EVENT_COUNT,
+  HTTP_RESPONSE_STREAM_FORMAT,
+  HTTP_RESPONSE_STREAM_TIME_TO_FIRST_BYTE,
+  HTTP_RESPONSE_STREAM_TIME_TO_LAST_EVENT,
+  StreamEventParser,
+  getStreamFormat,
+  isBodyContentTypeAllowed,
+  isCompressedContentEncoding,
+  serializeStreamEvent,
+  type DomainPolicy,
+  type StreamEvent,
+  type StreamFormat,
+} from "@pingops/core";
+
+/**
+ * Collects the events of a streamed response body
+ *
+ * The summary keeps the first events that fit in the size limit and the last
+ * event (which often carries the final status or usage), with a marker for
+ * the events in between.
+ */
+export class StreamCollector {
+  private readonly parser: StreamEventParser;
+  private readonly headEvents: string[] = [];
+  private headSize = 0;
+  private lastEvent?: string;
+  private eventCount = 0;
+  private totalSize = 0;
+  private firstByteTime?: number;
+  private lastEventTime?: number;
+
+  /**
+   * @param format - Stream format of the body
+   * @param maxSize - Maximum size of the summary in bytes
+   * @param startTime - Start time of the request (epoch milliseconds)
+   */
+  constructor(
+    private readonly format: StreamFormat,
+    private readonly maxSize: number,
+    private readonly startTime: number
+  ) {
+    this.parser = new StreamEventParser(format, maxSize);
+  }
+
+  /**
+   * Adds a chunk of the body
+   */
+  push(chunk: Buffer, now: number = Date.now()): void {
+    this.firstByteTime ??= now;
+    this.totalSize += chunk.length;
+    for (const event of this.parser.push(chunk)) {
+      this.addEvent(event, now);
+    }
+  }
+
+  /**
+   * Completes the stream, parsing a last event without trailing line ending
+   */
+  end(now: number = Date.now()): void {
+    for (const event of this.parser.flush()) {
+      this.addEvent(event, now);
+    }
+  }
+
+  private addEvent(event: StreamEvent, now: number): void {
+    this.eventCount++;
+    this.lastEventTime = now;
+
+    const serialized = serializeStreamEvent(event, this.format);
+    const size = Buffer.byteLength(serialized);
+    const isContiguous = this.lastEvent === undefined;
+    if (isContiguous && this.headSize + size <= this.maxSize) {
+      this.headEvents.push(serialized);
+      this.headSize += size;
+    } else {
+      this.lastEvent = size <= this.maxSize ? serialized : undefined;
+    }
+  }
+
+  /**
+   * Returns the bounded summary of the stream, or null if it had no event
+   */
+  getSummary(): string | null {
+    if (this.eventCount === 0) {
+      return null;
+    }
+    const omitted =
+      this.eventCount -
+      this.headEvents.length -
+      (this.lastEvent === undefined ? 0 : 1);
+    return (
+      this.headEvents.join("") +
+      (omitted > 0
+        ? `[${omitted} more events omitted; size=${this.totalSize}]\n`
+        : "") +
+      (this.lastEvent ?? "")
+    );
+  }
+
+  /**
+   * Returns the stream span attributes: format, event count and timings
+   */
+  getAttributes(): Attributes {
+    const attributes: Attributes = {
+      [HTTP_RESPONSE_STREAM_FORMAT]: this.format,
+      [HTTP_RESPONSE_STREAM_EVENT_COUNT]: this.eventCount,
+    };
+    if (this.firstByteTime !== undefined) {
+      attributes[HTTP_RESPONSE_STREAM_TIME_TO_FIRST_BYTE] =
+        this.firstByteTime - this.startTime;
+    }
+    if (this.lastEventTime !== undefined) {
+      attributes[HTTP_RESPONSE_STREAM_TIME_TO_LAST_EVENT] =
+        this.lastEventTime - this.startTime;
+    }
+    return attributes;
+  }
+}
+
+/**
+ * Creates a stream collector for a response body, or returns undefined if the
+ * body is not a stream, is compressed or is excluded by its content type
+ */
+export function createStreamCollector(
+  contentType: unknown,
+  contentEncoding: unknown,
+  policy: Pick<
+    DomainPolicy,
+    "bodyContentTypesAllowList" | "bodyContentTypesDenyList"
+  >,
+  maxSize: number,
+  startTime: number
+): StreamCollector | undefined {
+  const format = getStreamFormat(contentType);
+  if (
+    !format ||
+    isCompressedContentEncoding(contentEncoding) ||
+    !isBodyContentTypeAllowed(
+      contentType,
+      policy.bodyContentTypesAllowList,
+      policy.bodyContentTypesDenyList
+    )
+  ) {
+    return undefined;
+  }
+  return new StreamCollector(format, maxSize, startTime);
+}
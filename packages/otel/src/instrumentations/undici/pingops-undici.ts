@@ -55,13 +55,27 @@ import {
 import {
   PINGOPS_CAPTURE_REQUEST_BODY,
   PINGOPS_CAPTURE_RESPONSE_BODY,
+  PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER,
   bufferToBodyString,
+  getDomainRuleEngine,
+  getHttpMethodFromAttributes,
+  getHttpStatusCodeFromAttributes,
   HTTP_RESPONSE_CONTENT_ENCODING,
   isCompressedContentEncoding,
-  type DomainRule,
+  type DomainPolicy,
+  type DomainRuleRequest,
 } from "@pingops/core";
 import { getGlobalConfig } from "../../config-store";
 import { resolveOutboundSpanParentContext } from "../suppression-guard";
+import {
+  BodyCollector,
+  CompressedBodyCollector,
+  createResponseBodyCollector,
+  getBodyPlaceholder,
+  getTruncatedBody,
+} from "../body-capture";
+import { StreamCollector, createStreamCollector } from "../stream-capture";
+import { GenAiCapture, createGenAiCapture } from "../genai-capture";
 
 // Constants
 const DEFAULT_MAX_REQUEST_BODY_SIZE: number = 4 * 1024; // 4 KB
@@ -72,47 +86,45 @@ const HTTP_REQUEST_BODY = "http.request.body";
 const HTTP_RESPONSE_BODY = "http.response.body";
 
 /**
- * Extracts domain from URL
+ * Returns the method and status code of a request, matched by domain rules
  */
-function extractDomainFromUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname;
-  } catch {
-    const match = url.match(/^(?:https?:\/\/)?([^/]+)/);
-    return match ? match[1] : "";
-  }
+function getDomainRuleRequest(attributes?: Attributes): DomainRuleRequest {
+  return attributes
+    ? {
+        method: getHttpMethodFromAttributes(attributes),
+        statusCode: getHttpStatusCodeFromAttributes(attributes),
+      }
+    : {};
 }
 
 /**
- * Gets domain rule configuration for a given URL
+ * Resolves the domain policy of a request from the processor configuration
  */
-function getDomainRule(
-  url: string,
-  domainAllowList?: DomainRule[]
-): DomainRule | undefined {
-  if (!domainAllowList) {
-    return undefined;
-  }
-
-  const domain = extractDomainFromUrl(url);
-  for (const rule of domainAllowList) {
-    if (
-      domain === rule.domain ||
-      domain.endsWith(`.${rule.domain}`) ||
-      domain === rule.domain.slice(1)
-    ) {
-      return rule;
+function resolveDomainPolicy(
+  url?: string,
+  attributes?: Attributes
+): DomainPolicy {
+  const globalConfig = getGlobalConfig();
+  return getDomainRuleEngine(globalConfig?.domainAllowList).resolve(
+    url,
+    getDomainRuleRequest(attributes),
+    {
+      captureRequestBody: globalConfig?.captureRequestBody,
+      captureResponseBody: globalConfig?.captureResponseBody,
+      bodyContentTypesAllowList: globalConfig?.bodyContentTypesAllowList,
+      bodyContentTypesDenyList: globalConfig?.bodyContentTypesDenyList,
     }
-  }
-  return undefined;
+  );
 }
 
 /**
  * Determines if request body should be captured based on priority:
  * context > domain rule > global config > default (false)
  */
-function shouldCaptureRequestBody(url?: string): boolean {
+function shouldCaptureRequestBody(
+  url?: string,
+  attributes?: Attributes
+): boolean {
   const activeContext = context.active();
 
   // Check context value first (from startTrace)
@@ -123,30 +135,23 @@ function shouldCaptureRequestBody(url?: string): boolean {
     return contextValue;
   }
 
-  // Check domain-specific rule
-  if (url) {
-    const globalConfig = getGlobalConfig();
-    const domainRule = getDomainRule(url, globalConfig?.domainAllowList);
-    if (domainRule?.captureRequestBody !== undefined) {
-      return domainRule.captureRequestBody;
-    }
-  }
-
-  // Fall back to global config
+  // Rules with statusCodes may still match once the response is received
   const globalConfig = getGlobalConfig();
-  if (globalConfig?.captureRequestBody !== undefined) {
-    return globalConfig.captureRequestBody;
-  }
-
-  // Default to false
-  return false;
+  return getDomainRuleEngine(
+    globalConfig?.domainAllowList
+  ).mayCaptureRequestBody(url, getDomainRuleRequest(attributes), {
+    captureRequestBody: globalConfig?.captureRequestBody,
+  });
 }
 
 /**
  * Determines if response body should be captured based on priority:
  * context > domain rule > global config > default (false)
  */
-function shouldCaptureResponseBody(url?: string): boolean {
+function shouldCaptureResponseBody(
+  url?: string,
+  attributes?: Attributes
+): boolean {
   const activeContext = context.active();
 
   // Check context value first (from startTrace)
@@ -157,23 +162,7 @@ function shouldCaptureResponseBody(url?: string): boolean {
     return contextValue;
   }
 
-  // Check domain-specific rule
-  if (url) {
-    const globalConfig = getGlobalConfig();
-    const domainRule = getDomainRule(url, globalConfig?.domainAllowList);
-    if (domainRule?.captureResponseBody !== undefined) {
-      return domainRule.captureResponseBody;
-    }
-  }
-
-  // Fall back to global config
-  const globalConfig = getGlobalConfig();
-  if (globalConfig?.captureResponseBody !== undefined) {
-    return globalConfig.captureResponseBody;
-  }
-
-  // Default to false
-  return false;
+  return resolveDomainPolicy(url, attributes).captureResponseBody;
 }
 
 interface InstrumentationRecord {
@@ -181,9 +170,10 @@ interface InstrumentationRecord {
   attributes: Attributes;
   startTime: HrTime;
   requestBodyChunks: Buffer[];
-  responseBodyChunks: Buffer[];
   requestBodySize: number;
-  responseBodySize: number;
+  responseBody: BodyCollector;
+  responseStream?: StreamCollector;
+  genAi?: GenAiCapture;
   url?: string;
 }
 
@@ -484,9 +474,12 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
       attributes,
       startTime,
       requestBodyChunks: [],
-      responseBodyChunks: [],
       requestBodySize: 0,
-      responseBodySize: 0,
+      responseBody: new BodyCollector(
+        config.maxResponseBodySize ?? DEFAULT_MAX_RESPONSE_BODY_SIZE,
+        config.truncationStrategy
+      ),
+      genAi: createGenAiCapture(requestUrl.toString()),
       url: requestUrl.toString(),
     });
   }
@@ -567,6 +560,31 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
           : SpanStatusCode.UNSET,
     });
     record.attributes = Object.assign(attributes, spanAttributes);
+
+    record.genAi?.setResponseHeaders(
+      record.attributes["http.response.header.content-type"],
+      record.attributes["http.response.header.content-encoding"]
+    );
+
+    // Compressed bodies to decompress are collected up to their decompressed
+    // size
+    record.responseBody = createResponseBodyCollector(
+      config.maxResponseBodySize ?? DEFAULT_MAX_RESPONSE_BODY_SIZE,
+      config.truncationStrategy,
+      record.attributes["http.response.header.content-encoding"],
+      config.decompressBodies
+    );
+
+    // Streamed bodies (SSE, NDJSON) are captured event by event
+    if (shouldCaptureResponseBody(record.url, record.attributes)) {
+      record.responseStream = createStreamCollector(
+        record.attributes["http.response.header.content-type"],
+        record.attributes["http.response.header.content-encoding"],
+        resolveDomainPolicy(record.url, record.attributes),
+        config.maxResponseBodySize ?? DEFAULT_MAX_RESPONSE_BODY_SIZE,
+        hrTimeToMilliseconds(record.startTime)
+      );
+    }
   }
 
   // This is the last event we receive if the request went without any errors
@@ -579,8 +597,10 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
 
     const { span, attributes, startTime } = record;
 
+    this.captureGenAiAttributes(record);
+
     // Check if body capture is enabled before setting response body attribute
-    if (shouldCaptureResponseBody(record.url)) {
+    if (shouldCaptureResponseBody(record.url, record.attributes)) {
       const config = this.getConfig();
       const maxResponseBodySize =
         config.maxResponseBodySize ?? DEFAULT_MAX_RESPONSE_BODY_SIZE;
@@ -594,18 +614,52 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
           | string
           | undefined) ?? undefined;
 
-      // If we exceeded the configured max, record a clear message rather than
-      // storing partial (often-undecodable) bytes.
-      if (record.responseBodySize === Infinity) {
+      // Decompress in process if enabled, otherwise (or on failure) send base64
+      const decompressed =
+        record.responseBody instanceof CompressedBodyCollector
+          ? record.responseBody.decompress(contentEncoding)
+          : null;
+      const isEncoded =
+        isCompressedContentEncoding(contentEncoding) && !decompressed;
+      const responseBody = decompressed ?? record.responseBody;
+      const responseBodyBuffer = responseBody.getBody();
+
+      if (record.responseStream) {
+        this.captureResponseStream(record);
+      } else if (responseBody.isTruncated) {
+        // If we exceeded the configured max, keep the head (and tail) of text
+        // bodies if configured, or record a clear message rather than storing
+        // partial (often-undecodable) bytes.
+        const truncated = getTruncatedBody(
+          responseBody,
+          "response",
+          contentType,
+          isEncoded ? contentEncoding : undefined,
+          resolveDomainPolicy(record.url, record.attributes)
+        );
+        if (truncated?.marker) {
+          span.setAttribute(PINGOPS_HTTP_RESPONSE_BODY_TRUNCATION_MARKER, [
+            ...truncated.marker,
+          ]);
+        }
         span.setAttribute(
           HTTP_RESPONSE_BODY,
-          `[truncated response body; exceeded maxResponseBodySize=${maxResponseBodySize}; content-type=${contentType ?? "unknown"}; content-encoding=${contentEncoding ?? "identity"}]`
+          truncated?.body ??
+            `[truncated response body; exceeded maxResponseBodySize=${maxResponseBodySize}; content-type=${contentType ?? "unknown"}; content-encoding=${contentEncoding ?? "identity"}]`
         );
-      } else if (record.responseBodyChunks.length > 0) {
+      } else if (responseBodyBuffer) {
         // Set response body attribute if we have chunks and haven't exceeded max size
         try {
-          const responseBodyBuffer = Buffer.concat(record.responseBodyChunks);
-          if (isCompressedContentEncoding(contentEncoding)) {
+          const placeholder = getBodyPlaceholder(
+            "response",
+            responseBodyBuffer,
+            contentType,
+            resolveDomainPolicy(record.url, record.attributes),
+            isEncoded
+          );
+          if (placeholder) {
+            span.setAttribute(HTTP_RESPONSE_BODY, placeholder);
+          } else if (isEncoded) {
             span.setAttribute(
               HTTP_RESPONSE_BODY,
               responseBodyBuffer.toString("base64")
@@ -653,15 +707,16 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
 
     // Check if body capture is enabled before setting request body attribute
     // (in case body was sent before error occurred)
-    if (shouldCaptureRequestBody(record.url)) {
+    if (shouldCaptureRequestBody(record.url, record.attributes)) {
       // Set request body attribute if we have chunks and haven't exceeded max size
       if (
         record.requestBodyChunks.length > 0 &&
         record.requestBodySize !== Infinity
       ) {
         try {
-          const requestBody = Buffer.concat(record.requestBodyChunks).toString(
-            "utf-8"
+          const requestBody = this.getRequestBodyString(
+            request as UndiciRequest,
+            record
           );
           if (requestBody) {
             span.setAttribute(HTTP_REQUEST_BODY, requestBody);
@@ -672,6 +727,16 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
       }
     }
 
+    // Keep what was received of an aborted stream
+    if (
+      record.responseStream &&
+      shouldCaptureResponseBody(record.url, record.attributes)
+    ) {
+      this.captureResponseStream(record);
+    }
+
+    this.captureGenAiAttributes(record);
+
     // NOTE: in `undici@6.3.0` when request aborted the error type changes from
     // a custom error (`RequestAbortedError`) to a built-in `DOMException` carrying
     // some differences:
@@ -701,8 +766,10 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
       return;
     }
 
+    record.genAi?.pushRequestBody(chunk);
+
     // Check if body capture is enabled
-    if (!shouldCaptureRequestBody(record.url)) {
+    if (!shouldCaptureRequestBody(record.url, record.attributes)) {
       return;
     }
 
@@ -729,7 +796,7 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
     }
 
     // Check if body capture is enabled
-    if (!shouldCaptureRequestBody(record.url)) {
+    if (!shouldCaptureRequestBody(record.url, record.attributes)) {
       // Clear request body chunks to free memory
       record.requestBodyChunks = [];
       return;
@@ -746,9 +813,7 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
       );
     } else if (record.requestBodyChunks.length > 0) {
       try {
-        const requestBody = Buffer.concat(record.requestBodyChunks).toString(
-          "utf-8"
-        );
+        const requestBody = this.getRequestBodyString(request, record);
         if (requestBody) {
           record.span.setAttribute(HTTP_REQUEST_BODY, requestBody);
         }
@@ -761,6 +826,25 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
     record.requestBodyChunks = [];
   }
 
+  /**
+   * Returns the captured request body, or a placeholder if it must not be
+   * captured as text
+   */
+  private getRequestBodyString(
+    request: UndiciRequest,
+    record: InstrumentationRecord
+  ): string {
+    const requestBodyBuffer = Buffer.concat(record.requestBodyChunks);
+    return (
+      getBodyPlaceholder(
+        "request",
+        requestBodyBuffer,
+        this.parseRequestHeaders(request).get("content-type"),
+        resolveDomainPolicy(record.url, record.attributes)
+      ) ?? requestBodyBuffer.toString("utf-8")
+    );
+  }
+
   private onBodyChunkReceived({
     request,
     chunk,
@@ -771,24 +855,49 @@ export class UndiciInstrumentation extends InstrumentationBase<UndiciInstrumenta
       return;
     }
 
+    record.genAi?.pushResponseBody(chunk);
+
     // Check if body capture is enabled
-    if (!shouldCaptureResponseBody(record.url)) {
+    if (!shouldCaptureResponseBody(record.url, record.attributes)) {
       return;
     }
 
-    const config = this.getConfig();
-    const maxResponseBodySize =
-      config.maxResponseBodySize ?? DEFAULT_MAX_RESPONSE_BODY_SIZE;
+    if (record.responseStream) {
+      record.responseStream.push(chunk);
+      return;
+    }
 
-    // Only accumulate chunks if we haven't exceeded the max size
-    if (record.responseBodySize + chunk.length <= maxResponseBodySize) {
-      record.responseBodyChunks.push(chunk);
-      record.responseBodySize += chunk.length;
-    } else {
-      // No need to capture partial response body (especially for compressed bodies
-      // where partial data is not decodable). Mark as exceeded and drop what we have.
-      record.responseBodySize = Infinity;
-      record.responseBodyChunks = [];
+    // Bodies over the max size are kept partially or dropped (especially
+    // compressed bodies, where partial data is not decodable)
+    record.responseBody.push(chunk);
+  }
+
+  /**
+   * Sets the gen_ai.* attributes of a request to an LLM provider API
+   */
+  private captureGenAiAttributes(record: InstrumentationRecord): void {
+    const genAiAttributes = record.genAi?.getAttributes({
+      method: getHttpMethodFromAttributes(record.attributes),
+      statusCode: getHttpStatusCodeFromAttributes(record.attributes),
+    });
+    if (genAiAttributes) {
+      record.span.setAttributes(genAiAttributes);
+    }
+  }
+
+  /**
+   * Sets the stream attributes and the summary of a streamed response body
+   */
+  private captureResponseStream(record: InstrumentationRecord): void {
+    const stream = record.responseStream;
+    if (!stream) {
+      return;
+    }
+    stream.end();
+    record.span.setAttributes(stream.getAttributes());
+    const summary = stream.getSummary();
+    if (summary) {
+      record.span.setAttribute(HTTP_RESPONSE_BODY, summary);
     }
   }
 
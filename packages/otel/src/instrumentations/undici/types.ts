@@ -1,5 +1,6 @@
 import type { InstrumentationConfig } from "@opentelemetry/instrumentation";
 import type { Attributes, Span } from "@opentelemetry/api";
+import type { PingopsBodyTruncationStrategy } from "../../config";
 
 export interface UndiciRequest {
   origin: string;
@@ -80,6 +81,17 @@ export interface UndiciInstrumentationConfig<
    * @defaultValue 4096 (4 KB)
    */
   maxResponseBodySize?: number;
+  /**
+   * What to capture of response bodies larger than maxResponseBodySize
+   * @defaultValue "drop"
+   */
+  truncationStrategy?: PingopsBodyTruncationStrategy;
+  /**
+   * Decompress gzip, br and deflate response bodies before capturing them,
+   * maxResponseBodySize then applying to the decompressed body
+   * @defaultValue false
+   */
+  decompressBodies?: boolean;
 }
 
 export interface ListenerRecord {
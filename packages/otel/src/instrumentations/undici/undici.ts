@@ -19,5 +19,7 @@ export function createUndiciInstrumentation(): UndiciInstrumentation {
     ignoreRequestHook: () => false, // Always instrument requests
     maxRequestBodySize: globalConfig?.maxRequestBodySize,
     maxResponseBodySize: globalConfig?.maxResponseBodySize,
+    truncationStrategy: globalConfig?.truncationStrategy,
+    decompressBodies: globalConfig?.decompressBodies,
   });
 }
@@ -5,7 +5,14 @@
  * This processor provides:
  * - Automatic filtering of spans (CLIENT spans with HTTP/GenAI attributes only)
  * - Domain and header filtering based on configuration
+ * - Trace-consistent sampling (ratio, per-domain, error and latency biased)
+ * - beforeSend hook to rewrite or drop spans after built-in filtering
+ * - Tail-based sampling of startTrace traces once the root span has ended
  * - Batched or immediate export modes using OTLP exporters
+ * - File export mode writing NDJSON for offline / air-gapped environments
+ * - Pluggable exporters to fan out filtered spans to other destinations
+ * - Retries with exponential backoff and a circuit breaker for backend outages
+ * - Optional disk persistence of failed batches (replayed on recovery)
  * - Fire-and-forget transport (never blocks application)
  *
  * @example
@@ -33,6 +40,7 @@
 
 import type {
   SpanProcessor,
+  SpanExporter,
   ReadableSpan,
   Span,
 } from "@opentelemetry/sdk-trace-base";
@@ -40,30 +48,53 @@ import {
   BatchSpanProcessor,
   SimpleSpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
-import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
 import type { Context, Attributes } from "@opentelemetry/api";
 import {
+  canTraceBeKept,
   isSpanEligible,
   shouldCaptureSpan,
+  shouldSampleSpan,
+  PRIVATE_NETWORK_RULES,
+  type SamplingConfig,
   type DomainRule,
   type HeaderRedactionConfig,
+  type BodyRedactionConfig,
+  type PiiScrubbingConfig,
   createLogger,
   getPropagatedAttributesFromContext,
   extractSpanPayload,
   getHttpUrlFromAttributes,
+  getHttpMethodFromAttributes,
+  getHttpStatusCodeFromAttributes,
+  type SpanPayload,
 } from "@pingops/core";
-import type { PingopsProcessorConfig } from "./config";
+import type {
+  PingopsBeforeSendHook,
+  PingopsExportMode,
+  PingopsProcessorConfig,
+} from "./config";
 import { setGlobalConfig } from "./config-store";
+import {
+  FileSpanExporter,
+  getExportFilePath,
+  resolveExportMode,
+} from "./exporters/file-exporter";
+import { PersistentSpanExporter } from "./exporters/persistent-exporter";
+import { createPingopsTraceExporter } from "./exporters/pingops-exporter";
+import { PINGOPS_TRACE_SPAN_NAME, TraceBuffer } from "./trace-buffer";
 
 const logger = createLogger("[PingOps Processor]");
 
+const DEFAULT_SAMPLING_TRACE_TIMEOUT_MILLIS = 30_000;
+const DEFAULT_SAMPLING_MAX_TRACES = 1000;
+const DEFAULT_SAMPLING_MAX_SPANS_PER_TRACE = 100;
+
 /**
- * Creates a filtered span wrapper that applies header filtering to attributes
+ * Creates a filtered span wrapper exposing the attributes of the filtered payload
  *
- * This wrapper applies both domain-specific and global header filtering:
- * - Uses domain allow list to determine domain-specific header rules
- * - Applies global header allow/deny lists
- * - Filters headers from http.request.header and http.response.header attributes
+ * The payload is produced by extractSpanPayload, which applies both domain-specific and
+ * global header filtering, body capture filtering and header redaction, and may have been
+ * rewritten by the beforeSend hook.
  *
  * Uses a Proxy to automatically forward all properties and methods to the original span,
  * except for 'attributes' which returns the filtered version. This approach is future-proof
@@ -73,28 +104,10 @@ const logger = createLogger("[PingOps Processor]");
  */
 function createFilteredSpan(
   span: ReadableSpan,
-  domainAllowList?: DomainRule[],
-  globalHeadersAllowList?: string[],
-  globalHeadersDenyList?: string[],
-  globalCaptureRequestBody?: boolean,
-  globalCaptureResponseBody?: boolean,
-  headerRedaction?: HeaderRedactionConfig
+  payload: SpanPayload | null
 ): ReadableSpan {
-  // Use extractSpanPayload to get filtered attributes
-  // This handles both domain-specific header rules and global header filtering
-  // as well as body capture filtering and header redaction
-  const payload = extractSpanPayload(
-    span,
-    domainAllowList,
-    globalHeadersAllowList,
-    globalHeadersDenyList,
-    globalCaptureRequestBody,
-    globalCaptureResponseBody,
-    headerRedaction
-  );
   const filteredAttributes = (payload?.attributes ??
     span.attributes) as Attributes;
-  logger.debug("Payload", { payload });
 
   // Create a Proxy that intercepts 'attributes' access and forwards everything else
   return new Proxy(span, {
@@ -120,19 +133,30 @@ function createFilteredSpan(
  * OpenTelemetry span processor for sending spans to PingOps backend.
  *
  * This processor wraps OpenTelemetry's built-in processors (BatchSpanProcessor or SimpleSpanProcessor)
- * and applies filtering before passing spans to the OTLP exporter.
+ * and applies filtering before passing spans to the OTLP exporter (or the configured custom exporters).
  */
 export class PingopsSpanProcessor implements SpanProcessor {
-  private processor: SpanProcessor;
+  private processors: SpanProcessor[];
+  private pendingBeforeSend = new Set<Promise<void>>();
+  private traceBuffer?: TraceBuffer;
+  // Spans of traces not kept by sampling yet, see shouldSampleSpan
+  private samplingBuffer?: TraceBuffer;
   private config: {
     debug: boolean;
     headersAllowList?: string[];
     headersDenyList?: string[];
+    queryParamsAllowList?: string[];
+    queryParamsDenyList?: string[];
     domainAllowList?: DomainRule[];
     domainDenyList?: DomainRule[];
     captureRequestBody?: boolean;
     captureResponseBody?: boolean;
     headerRedaction?: HeaderRedactionConfig;
+    queryParamRedaction?: HeaderRedactionConfig;
+    bodyRedaction?: BodyRedactionConfig;
+    piiScrubbing?: PiiScrubbingConfig;
+    beforeSend?: PingopsBeforeSendHook;
+    sampling?: SamplingConfig;
   };
 
   /**
@@ -141,50 +165,82 @@ export class PingopsSpanProcessor implements SpanProcessor {
    * @param config - Configuration parameters for the processor
    */
   constructor(config: PingopsProcessorConfig) {
-    const exportMode = config.exportMode ?? "batched";
+    const exportMode = resolveExportMode(config.exportMode);
 
-    // Get API key from config or environment
-    const apiKey = config.apiKey || process.env.PINGOPS_API_KEY || "";
+    const exporters = this.createExporters(config, exportMode);
 
-    // Create OTLP exporter pointing to PingOps backend
-    const exporter = new OTLPTraceExporter({
-      url: `${config.baseUrl}/v1/traces`,
-      headers: {
-        Authorization: apiKey ? `Bearer ${apiKey}` : "",
-        "Content-Type": "application/json",
-      },
-      timeoutMillis: 5000,
-    });
+    // Create one underlying processor per exporter based on export mode
+    this.processors = exporters.map((exporter) =>
+      exportMode === "immediate"
+        ? new SimpleSpanProcessor(exporter)
+        : new BatchSpanProcessor(exporter, {
+            maxExportBatchSize: config.batchSize ?? 50,
+            scheduledDelayMillis: config.batchTimeout ?? 5000,
+          })
+    );
 
-    // Create underlying processor based on export mode
-    if (exportMode === "immediate") {
-      this.processor = new SimpleSpanProcessor(exporter);
-    } else {
-      this.processor = new BatchSpanProcessor(exporter, {
-        maxExportBatchSize: config.batchSize ?? 50,
-        scheduledDelayMillis: config.batchTimeout ?? 5000,
-      });
+    if (config.sampling) {
+      // Traces not kept within the window are dropped: no rule keeps them.
+      // Dropped traces stay dropped, so a trace is never exported partially.
+      this.samplingBuffer = new TraceBuffer(
+        {
+          rules: [],
+          traceTimeoutMillis:
+            config.sampling.traceTimeoutMillis ??
+            DEFAULT_SAMPLING_TRACE_TIMEOUT_MILLIS,
+          maxTraces: config.sampling.maxTraces ?? DEFAULT_SAMPLING_MAX_TRACES,
+          maxSpansPerTrace:
+            config.sampling.maxSpansPerTrace ??
+            DEFAULT_SAMPLING_MAX_SPANS_PER_TRACE,
+        },
+        (spans) => spans.forEach((span) => this.processSampledSpan(span)),
+        true
+      );
+    }
+
+    if (config.tailSampling) {
+      this.traceBuffer = new TraceBuffer(config.tailSampling, (spans) =>
+        this.passToProcessors(spans)
+      );
     }
 
     this.config = {
       debug: config.debug ?? false,
       headersAllowList: config.headersAllowList,
       headersDenyList: config.headersDenyList,
+      queryParamsAllowList: config.queryParamsAllowList,
+      queryParamsDenyList: config.queryParamsDenyList,
       domainAllowList: config.domainAllowList,
-      domainDenyList: config.domainDenyList,
+      domainDenyList: config.denyPrivateNetworks
+        ? [...(config.domainDenyList ?? []), ...PRIVATE_NETWORK_RULES]
+        : config.domainDenyList,
       captureRequestBody: config.captureRequestBody,
       captureResponseBody: config.captureResponseBody,
       headerRedaction: config.headerRedaction,
+      queryParamRedaction: config.queryParamRedaction,
+      bodyRedaction: config.bodyRedaction,
+      piiScrubbing: config.piiScrubbing,
+      beforeSend: config.beforeSend,
+      sampling: config.sampling,
     };
 
     // Register global config for instrumentations to access
     setGlobalConfig({
       captureRequestBody: config.captureRequestBody,
       captureResponseBody: config.captureResponseBody,
+      bodyContentTypesAllowList: config.bodyContentTypesAllowList,
+      bodyContentTypesDenyList: config.bodyContentTypesDenyList,
       domainAllowList: config.domainAllowList,
+      domainDenyList: this.config.domainDenyList,
       maxRequestBodySize: config.maxRequestBodySize,
       maxResponseBodySize: config.maxResponseBodySize,
-      exportTraceUrl: `${config.baseUrl}/v1/traces`,
+      truncationStrategy: config.truncationStrategy,
+      decompressBodies: config.decompressBodies,
+      genAiHosts: config.genAiHosts,
+      genAiPricing: config.genAiPricing,
+      exportTraceUrl: config.baseUrl
+        ? `${config.baseUrl}/v1/traces`
+        : undefined,
     });
 
     logger.info("Initialized PingopsSpanProcessor", {
@@ -192,10 +248,21 @@ export class PingopsSpanProcessor implements SpanProcessor {
       exportMode,
       batchSize: config.batchSize,
       batchTimeout: config.batchTimeout,
+      persistenceDirectory: config.persistence?.directory,
+      exportFile:
+        exportMode === "file"
+          ? getExportFilePath(config.fileExport)
+          : undefined,
+      exporterCount: this.processors.length,
+      hasCustomExporters: !!(config.exporter || config.exporters),
+      disableDefaultExporter: config.disableDefaultExporter ?? false,
+      samplingRatio: config.sampling?.ratio,
+      hasTailSampling: !!config.tailSampling,
       hasDomainAllowList:
         !!config.domainAllowList && config.domainAllowList.length > 0,
       hasDomainDenyList:
         !!config.domainDenyList && config.domainDenyList.length > 0,
+      denyPrivateNetworks: config.denyPrivateNetworks ?? false,
       hasHeadersAllowList:
         !!config.headersAllowList && config.headersAllowList.length > 0,
       hasHeadersDenyList:
@@ -203,6 +270,75 @@ export class PingopsSpanProcessor implements SpanProcessor {
     });
   }
 
+  /**
+   * Returns the default exporter for the export mode, unless disabled, and the
+   * configured custom exporters
+   */
+  private createExporters(
+    config: PingopsProcessorConfig,
+    exportMode: PingopsExportMode
+  ): SpanExporter[] {
+    const customExporters = [
+      ...(config.exporter ? [config.exporter] : []),
+      ...(config.exporters ?? []),
+    ];
+    if (!config.disableDefaultExporter) {
+      return [
+        this.createDefaultExporter(config, exportMode),
+        ...customExporters,
+      ];
+    }
+
+    if (customExporters.length === 0) {
+      throw new Error(
+        "PingopsSpanProcessor requires exporter or exporters when disableDefaultExporter is set"
+      );
+    }
+    if (config.persistence || config.retry || config.circuitBreaker) {
+      logger.warn(
+        "persistence, retry and circuitBreaker only apply to the default exporter, which is disabled"
+      );
+    }
+    return customExporters;
+  }
+
+  /**
+   * Returns the exporter of the export mode: the export file, or the PingOps
+   * backend
+   */
+  private createDefaultExporter(
+    config: PingopsProcessorConfig,
+    exportMode: PingopsExportMode
+  ): SpanExporter {
+    // Write spans to a local NDJSON file instead of the backend
+    if (exportMode === "file") {
+      return new FileSpanExporter(config.fileExport);
+    }
+
+    if (!config.baseUrl) {
+      throw new Error(
+        'PingopsSpanProcessor requires baseUrl unless exportMode is "file" or disableDefaultExporter is set'
+      );
+    }
+
+    // Get API key from config or environment
+    const apiKey = config.apiKey || process.env.PINGOPS_API_KEY || "";
+
+    // Create OTLP exporter pointing to PingOps backend, with retries and circuit breaking
+    const otlpExporter = createPingopsTraceExporter({
+      url: `${config.baseUrl}/v1/traces`,
+      apiKey,
+      timeoutMillis: config.exportTimeout,
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+    });
+
+    // Optionally spool failed batches to disk so they survive outages and restarts
+    return config.persistence
+      ? new PersistentSpanExporter(otlpExporter, config.persistence)
+      : otlpExporter;
+  }
+
   /**
    * Called when a span starts - extracts parent attributes from context and adds them to the span
    */
@@ -230,7 +366,9 @@ export class PingopsSpanProcessor implements SpanProcessor {
       });
     }
 
-    this.processor.onStart(span, parentContext);
+    for (const processor of this.processors) {
+      processor.onStart(span, parentContext);
+    }
   }
   /**
    * Called when a span ends. Filters the span and passes it to the underlying processor if eligible.
@@ -238,8 +376,11 @@ export class PingopsSpanProcessor implements SpanProcessor {
    * This method:
    * 1. Checks if the span is eligible (CLIENT + HTTP/GenAI attributes)
    * 2. Applies domain filtering (determines if span should be exported)
-   * 3. Applies header filtering via FilteredSpan wrapper (domain-specific and global rules)
-   * 4. If eligible, passes filtered span to underlying OTLP processor for export
+   * 3. Applies sampling, if configured, holding spans until their trace is kept
+   * 4. Applies header filtering via FilteredSpan wrapper (domain-specific and global rules)
+   * 5. Runs the beforeSend hook, if configured, which may rewrite or drop the payload
+   * 6. If eligible, passes filtered span to the underlying processor of every exporter,
+   *    or to the tail sampling buffer for spans of startTrace traces
    */
   onEnd(span: ReadableSpan): void {
     const spanContext = span.spanContext();
@@ -251,6 +392,12 @@ export class PingopsSpanProcessor implements SpanProcessor {
     });
 
     try {
+      // The root span of a startTrace trace completes the buffered trace
+      if (this.traceBuffer && span.name === PINGOPS_TRACE_SPAN_NAME) {
+        this.traceBuffer.endTrace(spanContext.traceId, span);
+        return;
+      }
+
       // Step 1: Check if span is eligible (CLIENT + HTTP/GenAI attributes)
       if (!isSpanEligible(span)) {
         logger.debug("Span not eligible, skipping", {
@@ -278,7 +425,11 @@ export class PingopsSpanProcessor implements SpanProcessor {
         const shouldCapture = shouldCaptureSpan(
           url,
           this.config.domainAllowList,
-          this.config.domainDenyList
+          this.config.domainDenyList,
+          {
+            method: getHttpMethodFromAttributes(attributes),
+            statusCode: getHttpStatusCodeFromAttributes(attributes),
+          }
         );
 
         if (!shouldCapture) {
@@ -295,48 +446,202 @@ export class PingopsSpanProcessor implements SpanProcessor {
         });
       }
 
-      // Step 4: Apply filtering (header filtering with domain-specific rules) by wrapping the span
-      const filteredSpan = createFilteredSpan(
+      this.sampleSpan(span);
+    } catch (error) {
+      // Defensive error handling - never crash the app
+      logger.error("Error processing span", {
+        spanName: span.name,
+        spanId: spanContext.spanId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Applies sampling to a span, then processes it if its trace is kept
+   */
+  private sampleSpan(span: ReadableSpan): void {
+    const spanContext = span.spanContext();
+    // Step 4: Apply sampling, one decision per trace: a span keeping its
+    // trace (ratio, error or slow request) releases the held spans of the trace
+    if (this.samplingBuffer) {
+      if (
+        !shouldSampleSpan(
+          span,
+          this.config.sampling,
+          this.config.domainAllowList
+        )
+      ) {
+        // Only hold spans of traces that a later span may still keep
+        if (
+          !canTraceBeKept(
+            spanContext.traceId,
+            this.config.sampling,
+            this.config.domainAllowList
+          )
+        ) {
+          logger.debug("Span dropped by sampling", {
+            spanName: span.name,
+            spanId: spanContext.spanId,
+            traceId: spanContext.traceId,
+          });
+          return;
+        }
+        logger.debug("Span held by sampling until its trace is kept", {
+          spanName: span.name,
+          spanId: spanContext.spanId,
+          traceId: spanContext.traceId,
+        });
+        this.samplingBuffer.addSpan(spanContext.traceId, span);
+        return;
+      }
+      if (!this.samplingBuffer.keepTrace(spanContext.traceId)) {
+        logger.debug("Span dropped, its trace was already dropped", {
+          spanName: span.name,
+          spanId: spanContext.spanId,
+          traceId: spanContext.traceId,
+        });
+        return;
+      }
+    }
+
+    this.processSampledSpan(span);
+  }
+
+  /**
+   * Filters a span kept by sampling, runs the beforeSend hook and exports it
+   */
+  private processSampledSpan(span: ReadableSpan): void {
+    const url = getHttpUrlFromAttributes(span.attributes) ?? "";
+    try {
+      // Step 5: Apply filtering (header filtering with domain-specific rules, query parameters, body capture, redaction, PII scrubbing)
+      const payload = extractSpanPayload(
         span,
         this.config.domainAllowList,
         this.config.headersAllowList,
         this.config.headersDenyList,
         this.config.captureRequestBody,
         this.config.captureResponseBody,
-        this.config.headerRedaction
+        this.config.headerRedaction,
+        this.config.bodyRedaction,
+        this.config.piiScrubbing,
+        this.config.queryParamsAllowList,
+        this.config.queryParamsDenyList,
+        this.config.queryParamRedaction
       );
+      logger.debug("Payload", { payload });
 
-      // Step 5: Span passed all filters, pass filtered span to underlying processor for export
-      this.processor.onEnd(filteredSpan);
+      // Step 6: Run the user beforeSend hook, which may rewrite or drop the payload
+      const beforeSend = this.config.beforeSend;
+      if (!beforeSend || !payload) {
+        this.exportSpan(span, payload, url);
+        return;
+      }
 
-      logger.info("Span passed all filters and queued for export", {
-        spanName: span.name,
-        spanId: spanContext.spanId,
-        traceId: spanContext.traceId,
-        url,
-        hasHeaderFiltering: !!(
-          this.config.headersAllowList || this.config.headersDenyList
-        ),
-      });
+      let result: ReturnType<PingopsBeforeSendHook>;
+      try {
+        result = beforeSend(payload, span);
+      } catch (error) {
+        this.onBeforeSendError(span, error);
+        return;
+      }
+      if (result instanceof Promise) {
+        const pending = result
+          .then((resolved) => this.exportSpan(span, resolved, url))
+          .catch((error: unknown) => this.onBeforeSendError(span, error))
+          .finally(() => this.pendingBeforeSend.delete(pending));
+        this.pendingBeforeSend.add(pending);
+      } else {
+        this.exportSpan(span, result, url);
+      }
     } catch (error) {
       // Defensive error handling - never crash the app
       logger.error("Error processing span", {
         spanName: span.name,
-        spanId: spanContext.spanId,
+        spanId: span.spanContext().spanId,
         error: error instanceof Error ? error.message : String(error),
       });
     }
   }
 
+  /**
+   * Passes the filtered span to the underlying processors, unless the payload was dropped
+   */
+  private exportSpan(
+    span: ReadableSpan,
+    payload: SpanPayload | null,
+    url: string
+  ): void {
+    const spanContext = span.spanContext();
+    if (this.config.beforeSend && payload === null) {
+      logger.debug("Span dropped by beforeSend", {
+        spanName: span.name,
+        spanId: spanContext.spanId,
+      });
+      return;
+    }
+
+    const filteredSpan = createFilteredSpan(span, payload);
+
+    // Spans of startTrace traces wait for the tail sampling decision
+    const pingopsTraceId = span.attributes["pingops.trace_id"];
+    if (this.traceBuffer && typeof pingopsTraceId === "string") {
+      this.traceBuffer.addSpan(pingopsTraceId, filteredSpan);
+      logger.debug("Span buffered for tail sampling", {
+        spanName: span.name,
+        spanId: spanContext.spanId,
+        traceId: pingopsTraceId,
+      });
+      return;
+    }
+
+    // Step 7: Span passed all filters, pass filtered span to underlying processors for export
+    this.passToProcessors([filteredSpan]);
+
+    logger.info("Span passed all filters and queued for export", {
+      spanName: span.name,
+      spanId: spanContext.spanId,
+      traceId: spanContext.traceId,
+      url,
+      hasHeaderFiltering: !!(
+        this.config.headersAllowList || this.config.headersDenyList
+      ),
+    });
+  }
+
+  private passToProcessors(spans: ReadableSpan[]): void {
+    for (const span of spans) {
+      for (const processor of this.processors) {
+        processor.onEnd(span);
+      }
+    }
+  }
+
+  /**
+   * A failing beforeSend hook drops the span: it may have been meant to scrub it
+   */
+  private onBeforeSendError(span: ReadableSpan, error: unknown): void {
+    logger.error("beforeSend hook failed, dropping span", {
+      spanName: span.name,
+      spanId: span.spanContext().spanId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   /**
    * Forces an immediate flush of all pending spans.
+   * Traces held for tail sampling stay buffered until their root span ends.
    *
    * @returns Promise that resolves when all pending operations are complete
    */
   public async forceFlush(): Promise<void> {
     logger.info("Force flushing spans");
     try {
-      await this.processor.forceFlush();
+      // Spans still in an async beforeSend hook have not reached the processors yet
+      await Promise.all(this.pendingBeforeSend);
+      await Promise.all(
+        this.processors.map((processor) => processor.forceFlush())
+      );
       logger.info("Force flush complete");
     } catch (error) {
       logger.error("Error during force flush", {
@@ -354,7 +659,14 @@ export class PingopsSpanProcessor implements SpanProcessor {
   public async shutdown(): Promise<void> {
     logger.info("Shutting down processor");
     try {
-      await this.processor.shutdown();
+      // Traces not kept by sampling yet are dropped
+      this.samplingBuffer?.flushAll();
+      await Promise.all(this.pendingBeforeSend);
+      // Decide on traces still buffered, their root span will not end anymore
+      this.traceBuffer?.flushAll();
+      await Promise.all(
+        this.processors.map((processor) => processor.shutdown())
+      );
       logger.info("Processor shutdown complete");
     } catch (error) {
       logger.error("Error during processor shutdown", {
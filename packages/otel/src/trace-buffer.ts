@@ -0,0 +1,224 @@
+/**
+ * Tail sampling buffer for startTrace traces
+ *
+ * Holds filtered spans keyed by `pingops.trace_id` until the root
+ * `pingops-trace` span ends, then evaluates the tail sampling rules to export
+ * or drop the whole trace. Memory is bounded by the number of traces, the
+ * number of spans per trace and a per-trace timeout.
+ *
+ * Also holds the spans of traces not kept by sampling yet, see
+ * PingopsSpanProcessor.
+ */
+
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { createLogger, isErrorSpan } from "@pingops/core";
+import type {
+  PingopsBufferedTrace,
+  PingopsTailSamplingConfig,
+  PingopsTailSamplingRule,
+} from "./config";
+
+const logger = createLogger("[PingOps TraceBuffer]");
+
+const DEFAULT_MAX_TRACES = 1000;
+const DEFAULT_MAX_SPANS_PER_TRACE = 1000;
+const DEFAULT_TRACE_TIMEOUT_MILLIS = 60_000;
+
+/**
+ * Name of the root span created by startTrace
+ */
+export const PINGOPS_TRACE_SPAN_NAME = "pingops-trace";
+
+type PendingTrace = {
+  spans: ReadableSpan[];
+  timer: NodeJS.Timeout;
+};
+
+/**
+ * Keeps traces containing at least one failed request
+ */
+export function keepErroredTraces(): PingopsTailSamplingRule {
+  return (trace) => trace.spans.some(isErrorSpan);
+}
+
+/**
+ * Keeps traces whose root span took at least `thresholdMs` milliseconds.
+ * Incomplete traces never match.
+ */
+export function keepSlowTraces(thresholdMs: number): PingopsTailSamplingRule {
+  return (trace) =>
+    trace.durationMs !== undefined && trace.durationMs >= thresholdMs;
+}
+
+/**
+ * Bounded in-memory buffer deciding whether to keep whole traces
+ */
+export class TraceBuffer {
+  private readonly maxTraces: number;
+  private readonly maxSpansPerTrace: number;
+  private readonly traceTimeoutMillis: number;
+  private traces = new Map<string, PendingTrace>();
+  // Recent decisions, so spans ending after their root (e.g. async beforeSend) follow them
+  private decisions = new Map<string, boolean>();
+
+  /**
+   * @param config - Rules and limits of the buffer
+   * @param exportSpans - Called with the spans of kept traces
+   * @param dropPartialTraces - Drops traces exceeding `maxSpansPerTrace`
+   * instead of their extra spans, so a trace is never exported partially
+   */
+  constructor(
+    private readonly config: PingopsTailSamplingConfig,
+    private readonly exportSpans: (spans: ReadableSpan[]) => void,
+    private readonly dropPartialTraces = false
+  ) {
+    this.maxTraces = config.maxTraces ?? DEFAULT_MAX_TRACES;
+    this.maxSpansPerTrace =
+      config.maxSpansPerTrace ?? DEFAULT_MAX_SPANS_PER_TRACE;
+    this.traceTimeoutMillis =
+      config.traceTimeoutMillis ?? DEFAULT_TRACE_TIMEOUT_MILLIS;
+  }
+
+  /**
+   * Buffers a filtered span of the given trace
+   */
+  addSpan(traceId: string, span: ReadableSpan): void {
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) {
+        this.exportSpans([span]);
+      }
+      return;
+    }
+
+    let trace = this.traces.get(traceId);
+    if (!trace) {
+      if (this.traces.size >= this.maxTraces) {
+        const oldestTraceId = this.traces.keys().next().value as string;
+        logger.warn("Trace buffer full, evaluating oldest trace", {
+          traceId: oldestTraceId,
+          maxTraces: this.maxTraces,
+        });
+        this.decide(oldestTraceId);
+      }
+      const timer = setTimeout(() => {
+        logger.debug("Trace timed out, evaluating", { traceId });
+        this.decide(traceId);
+      }, this.traceTimeoutMillis);
+      timer.unref();
+      trace = { spans: [], timer };
+      this.traces.set(traceId, trace);
+    }
+
+    if (trace.spans.length >= this.maxSpansPerTrace && this.dropPartialTraces) {
+      logger.debug("Trace span limit reached, dropping trace", {
+        traceId,
+        maxSpansPerTrace: this.maxSpansPerTrace,
+      });
+      clearTimeout(trace.timer);
+      this.traces.delete(traceId);
+      this.rememberDecision(traceId, false);
+      return;
+    }
+    if (trace.spans.length >= this.maxSpansPerTrace) {
+      logger.debug("Trace span limit reached, dropping span", {
+        traceId,
+        spanName: span.name,
+        maxSpansPerTrace: this.maxSpansPerTrace,
+      });
+      return;
+    }
+    trace.spans.push(span);
+  }
+
+  /**
+   * Called when the root span of a trace ends
+   */
+  endTrace(traceId: string, rootSpan: ReadableSpan): void {
+    this.decide(traceId, rootSpan);
+  }
+
+  /**
+   * Keeps a trace not decided yet: exports its buffered spans and the spans
+   * added later
+   *
+   * @returns false if the trace was already dropped (evicted, timed out or
+   * over the span limit), in which case it stays dropped
+   */
+  keepTrace(traceId: string): boolean {
+    const decision = this.decisions.get(traceId);
+    if (decision === undefined) {
+      this.decide(traceId, undefined, true);
+      return true;
+    }
+    return decision;
+  }
+
+  /**
+   * Evaluates every buffered trace as incomplete
+   */
+  flushAll(): void {
+    for (const traceId of [...this.traces.keys()]) {
+      this.decide(traceId);
+    }
+  }
+
+  private decide(
+    traceId: string,
+    rootSpan?: ReadableSpan,
+    forceKeep = false
+  ): void {
+    const pending = this.traces.get(traceId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.traces.delete(traceId);
+    }
+
+    const trace: PingopsBufferedTrace = {
+      traceId,
+      spans: pending?.spans ?? [],
+      rootSpan,
+      durationMs: rootSpan
+        ? hrTimeToMilliseconds(rootSpan.duration)
+        : undefined,
+      complete: rootSpan !== undefined,
+    };
+    const keep = forceKeep || this.evaluate(trace);
+    this.rememberDecision(traceId, keep);
+
+    logger.debug("Tail sampling decision", {
+      traceId,
+      keep,
+      spanCount: trace.spans.length,
+      durationMs: trace.durationMs,
+      complete: trace.complete,
+    });
+    if (keep && trace.spans.length > 0) {
+      this.exportSpans(trace.spans);
+    }
+  }
+
+  private evaluate(trace: PingopsBufferedTrace): boolean {
+    return this.config.rules.some((rule) => {
+      try {
+        return rule(trace);
+      } catch (error) {
+        logger.error("Tail sampling rule failed", {
+          traceId: trace.traceId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return false;
+      }
+    });
+  }
+
+  private rememberDecision(traceId: string, keep: boolean): void {
+    this.decisions.delete(traceId);
+    this.decisions.set(traceId, keep);
+    if (this.decisions.size > this.maxTraces) {
+      const oldestTraceId = this.decisions.keys().next().value as string;
+      this.decisions.delete(oldestTraceId);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { redactJsonBody } from "@pingops/core";
+import {
+  BodyCollector,
+  CompressedBodyCollector,
+  createResponseBodyCollector,
+  getBodyPlaceholder,
+  getTruncatedBody,
+} from "../src/instrumentations/body-capture";
+
+function collect(
+  chunks: string[],
+  maxSize: number,
+  strategy?: "drop" | "head" | "head-tail"
+): BodyCollector {
+  const collector = new BodyCollector(maxSize, strategy);
+  for (const chunk of chunks) {
+    collector.push(Buffer.from(chunk));
+  }
+  return collector;
+}
+
+describe("BodyCollector", () => {
+  it("keeps bodies within the limit whole", () => {
+    for (const strategy of ["drop", "head", "head-tail"] as const) {
+      const collector = collect(["hello ", "world"], 11, strategy);
+      expect(collector.isTruncated).toBe(false);
+      expect(collector.getBody()?.toString()).toBe("hello world");
+      expect(collector.toTruncatedBody("response")).toBeNull();
+    }
+  });
+
+  it("drops larger bodies with the drop strategy", () => {
+    const collector = collect(["hello ", "world"], 8);
+    expect(collector.isTruncated).toBe(true);
+    expect(collector.size).toBe(11);
+    expect(collector.getBody()).toBeNull();
+    expect(collector.toTruncatedBody("response")).toBeNull();
+  });
+
+  it("keeps the head and tail of larger bodies", () => {
+    expect(
+      collect(
+        ['{"error": ', '"rate limited"', "}"],
+        10,
+        "head"
+      ).toTruncatedBody("response")?.body
+    ).toBe('{"error": [truncated response body; size=25; omitted=15]');
+    expect(
+      collect(
+        ["abcdefgh", "ijklmnop", "qrstuvwxyz"],
+        6,
+        "head-tail"
+      ).toTruncatedBody("response")
+    ).toEqual({
+      body: "abc[truncated response body; size=26; omitted=20]xyz",
+      marker: [3, 49],
+    });
+  });
+
+  it("keeps sensitive keys of truncated JSON bodies redactable", () => {
+    const body = JSON.stringify({
+      access_token: "secret-token-value",
+      data: "x".repeat(100),
+      password: "hunter2",
+    });
+    const truncated = collect([body], 64, "head-tail").toTruncatedBody(
+      "response"
+    );
+    expect(truncated?.body).toContain("secret-token");
+    expect(truncated?.body).toContain("hunter2");
+
+    const redacted = redactJsonBody(
+      truncated?.body ?? "",
+      {},
+      truncated?.marker
+    );
+    expect(redacted).not.toContain("secret-token");
+    expect(redacted).not.toContain("hunter2");
+    expect(redacted).toContain('"password":"[REDACTED]"');
+  });
+
+  it("does not cut UTF-8 characters", () => {
+    expect(
+      collect(["ééé", "ééé"], 5, "head-tail").toTruncatedBody("request")?.body
+    ).toBe("é[truncated request body; size=12; omitted=8]é");
+  });
+});
+
+describe("CompressedBodyCollector", () => {
+  it("applies the size limit to the decompressed body", () => {
+    const body = JSON.stringify({ items: "x".repeat(200) });
+    const compressed = gzipSync(body);
+    expect(compressed.length).toBeLessThan(100);
+
+    const collector = createResponseBodyCollector(100, "drop", "gzip", true);
+    expect(collector).toBeInstanceOf(CompressedBodyCollector);
+    collector.push(compressed);
+    expect(collector.isTruncated).toBe(false);
+    const decompressed = (collector as CompressedBodyCollector).decompress(
+      "gzip"
+    );
+    expect(decompressed?.isTruncated).toBe(true);
+    expect(decompressed?.getBody()).toBeNull();
+    expect(decompressed?.toTruncatedBody("response")).toBeNull();
+
+    const whole = new CompressedBodyCollector(1000);
+    whole.push(compressed);
+    expect(whole.decompress("gzip")?.getBody()?.toString()).toBe(body);
+  });
+
+  it("keeps the head of bodies larger than the limit", () => {
+    const collector = new CompressedBodyCollector(20, "head-tail");
+    collector.push(
+      gzipSync(`{"password":"hunter2","items":"${"x".repeat(1000)}"}`)
+    );
+    const truncated = collector.decompress("gzip")?.toTruncatedBody("response");
+    expect(truncated?.body).toBe(
+      '{"password":"hunter2[truncated response body; size=unknown; omitted=unknown]'
+    );
+    expect(
+      redactJsonBody(
+        truncated!.body,
+        { sensitiveKeys: ["password"] },
+        truncated!.marker
+      )
+    ).toBe(
+      '{"password":"[REDACTED]"[truncated response body; size=unknown; omitted=unknown]'
+    );
+  });
+
+  it("returns null for bodies that cannot be decompressed", () => {
+    const collector = new CompressedBodyCollector(100);
+    collector.push(Buffer.from("not gzip"));
+    expect(collector.decompress("gzip")).toBeNull();
+    expect(
+      createResponseBodyCollector(100, "head", "gzip", false)
+    ).not.toBeInstanceOf(CompressedBodyCollector);
+  });
+});
+
+describe("getTruncatedBody", () => {
+  it("drops compressed bodies and replaces binary bodies", () => {
+    const collector = collect(["x".repeat(20)], 10, "head");
+    expect(
+      getTruncatedBody(collector, "response", "text/plain", "gzip", {})
+    ).toBeNull();
+    expect(
+      getTruncatedBody(collector, "response", "image/png", undefined, {})
+    ).toEqual({
+      body: "[binary response body; size=20; content-type=image/png]",
+    });
+  });
+});
+
+describe("getBodyPlaceholder", () => {
+  it("replaces binary and excluded bodies", () => {
+    const png = Buffer.from([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0,
+    ]);
+    expect(getBodyPlaceholder("response", png, undefined, {})).toBe(
+      "[binary response body; size=9; content-type=unknown]"
+    );
+    expect(
+      getBodyPlaceholder("request", Buffer.from("a=1"), "text/plain", {
+        bodyContentTypesAllowList: ["application/json"],
+      })
+    ).toBe("[excluded request body; size=3; content-type=text/plain]");
+    expect(
+      getBodyPlaceholder("response", Buffer.from("{}"), "application/json", {})
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import type { SpanPayload } from "@pingops/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileSpanExporter } from "../src/exporters/file-exporter";
+
+function createSpan(spanId: string): ReadableSpan {
+  return {
+    name: "GET",
+    kind: SpanKind.CLIENT,
+    spanContext: () => ({
+      traceId: "1234567890abcdef1234567890abcdef",
+      spanId,
+      traceFlags: 1,
+    }),
+    startTime: [1000, 0],
+    endTime: [1001, 0],
+    duration: [1, 0],
+    status: { code: SpanStatusCode.UNSET },
+    attributes: { "http.url": "https://api.example.com/v1" },
+    links: [],
+    events: [],
+    ended: true,
+    resource: resourceFromAttributes({ "service.name": "test" }),
+    instrumentationScope: { name: "test" },
+    droppedAttributesCount: 0,
+    droppedEventsCount: 0,
+    droppedLinksCount: 0,
+  };
+}
+
+function exportSpans(
+  exporter: SpanExporter,
+  spans: ReadableSpan[]
+): Promise<ExportResult> {
+  return new Promise((resolve) => exporter.export(spans, resolve));
+}
+
+function parseLines(content: string): SpanPayload[] {
+  return content
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as SpanPayload);
+}
+
+describe("FileSpanExporter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "pingops-file-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("writes one SpanPayload per line", async () => {
+    const path = join(directory, "spans.ndjson");
+    const exporter = new FileSpanExporter({ path });
+
+    const result = await exportSpans(exporter, [
+      createSpan("aaaaaaaaaaaaaaaa"),
+      createSpan("bbbbbbbbbbbbbbbb"),
+    ]);
+    await exporter.shutdown();
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    const payloads = parseLines(await readFile(path, "utf8"));
+    expect(payloads.map((payload) => payload.spanId)).toEqual([
+      "aaaaaaaaaaaaaaaa",
+      "bbbbbbbbbbbbbbbb",
+    ]);
+    expect(payloads[0].attributes["http.url"]).toBe(
+      "https://api.example.com/v1"
+    );
+    expect(payloads[0].duration).toBe(1000);
+  });
+
+  it("rotates by size and gzips rotated files", async () => {
+    const path = join(directory, "spans.ndjson");
+    const exporter = new FileSpanExporter({ path, maxBytes: 400 });
+
+    for (const spanId of ["1111111111111111", "2222222222222222"]) {
+      await exportSpans(exporter, [createSpan(spanId)]);
+    }
+    await exporter.shutdown();
+
+    const files = await readdir(directory);
+    const rotated = files.filter((file) => file.endsWith(".gz"));
+    expect(rotated).toHaveLength(1);
+    expect(files).toHaveLength(2);
+
+    const rotatedPayloads = parseLines(
+      gunzipSync(await readFile(join(directory, rotated[0]))).toString("utf8")
+    );
+    expect(rotatedPayloads[0].spanId).toBe("1111111111111111");
+
+    const current = parseLines(await readFile(path, "utf8"));
+    expect(current[0].spanId).toBe("2222222222222222");
+  });
+
+  it("rotates by time", async () => {
+    const path = join(directory, "spans.ndjson");
+    const exporter = new FileSpanExporter({ path, rotationIntervalMillis: 20 });
+
+    await exportSpans(exporter, [createSpan("1111111111111111")]);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await exportSpans(exporter, [createSpan("2222222222222222")]);
+    await exporter.shutdown();
+
+    const files = await readdir(directory);
+    expect(files.filter((file) => file.endsWith(".gz"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,139 @@
+import { gzipSync } from "zlib";
+import { afterEach, describe, expect, it } from "vitest";
+import { GenAiUsageTotals } from "@pingops/core";
+import { clearGlobalConfig, setGlobalConfig } from "../src/config-store";
+import {
+  GenAiCapture,
+  createGenAiCapture,
+} from "../src/instrumentations/genai-capture";
+
+const chatRequest = JSON.stringify({
+  model: "gpt-4o-mini",
+  max_tokens: 64,
+  messages: [{ role: "user", content: "Hi" }],
+});
+
+describe("GenAiCapture", () => {
+  afterEach(() => {
+    clearGlobalConfig();
+  });
+
+  it("extracts attributes from a JSON chat completion", () => {
+    const capture = new GenAiCapture(
+      "https://api.openai.com/v1/chat/completions"
+    );
+    capture.pushRequestBody(chatRequest.slice(0, 10));
+    capture.pushRequestBody(Buffer.from(chatRequest.slice(10)));
+    capture.setResponseHeaders("application/json", "gzip");
+    capture.pushResponseBody(
+      gzipSync(
+        JSON.stringify({
+          id: "chatcmpl-1",
+          model: "gpt-4o-mini-2024-07-18",
+          choices: [{ index: 0, finish_reason: "stop" }],
+          usage: { prompt_tokens: 9, completion_tokens: 3 },
+        })
+      )
+    );
+
+    expect(capture.getAttributes()).toEqual({
+      "gen_ai.system": "openai",
+      "gen_ai.operation.name": "chat",
+      "gen_ai.request.model": "gpt-4o-mini",
+      "gen_ai.request.max_tokens": 64,
+      "gen_ai.response.id": "chatcmpl-1",
+      "gen_ai.response.model": "gpt-4o-mini-2024-07-18",
+      "gen_ai.response.finish_reasons": ["stop"],
+      "gen_ai.usage.input_tokens": 9,
+      "gen_ai.usage.output_tokens": 3,
+      "gen_ai.usage.cost": 0.00000315,
+    });
+  });
+
+  it("adds the usage to the running totals of the trace", () => {
+    const totals = new GenAiUsageTotals();
+    const url = "https://api.openai.com/v1/chat/completions";
+    const prices = { "gpt-4o-mini": { input: 1, output: 2 } };
+    const runningCosts: unknown[] = [];
+    for (const tokens of [1000, 2000]) {
+      const capture = new GenAiCapture(url, undefined, prices, totals);
+      capture.pushRequestBody(chatRequest);
+      capture.setResponseHeaders("application/json", undefined);
+      capture.pushResponseBody(
+        Buffer.from(
+          JSON.stringify({
+            usage: { prompt_tokens: tokens, completion_tokens: tokens },
+          })
+        )
+      );
+      runningCosts.push(
+        capture.getAttributes()?.["pingops.trace.gen_ai.usage.cost"]
+      );
+    }
+
+    expect(runningCosts).toEqual([0.003, 0.009]);
+    expect(totals.getAttributes()).toEqual({
+      "pingops.trace.gen_ai.usage.cost": 0.009,
+      "pingops.trace.gen_ai.usage.input_tokens": 3000,
+      "pingops.trace.gen_ai.usage.output_tokens": 3000,
+    });
+  });
+
+  it("does not count requests excluded by the domain rules", () => {
+    setGlobalConfig({ domainDenyList: [{ domain: "api.openai.com" }] });
+    const totals = new GenAiUsageTotals();
+    const capture = new GenAiCapture(
+      "https://api.openai.com/v1/chat/completions",
+      undefined,
+      undefined,
+      totals
+    );
+    capture.pushRequestBody(chatRequest);
+    capture.setResponseHeaders("application/json", undefined);
+    capture.pushResponseBody(
+      Buffer.from(
+        JSON.stringify({ usage: { prompt_tokens: 9, completion_tokens: 3 } })
+      )
+    );
+
+    expect(capture.getAttributes({ method: "POST" })).not.toHaveProperty(
+      "pingops.trace.gen_ai.usage.cost"
+    );
+    expect(totals.getAttributes()).toEqual({});
+  });
+
+  it("extracts attributes from a streamed Anthropic message", () => {
+    const capture = new GenAiCapture("https://api.anthropic.com/v1/messages");
+    capture.pushRequestBody(
+      JSON.stringify({ model: "claude-3-5-haiku-latest", stream: true })
+    );
+    capture.setResponseHeaders("text/event-stream", undefined);
+    const events = [
+      `event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"claude-3-5-haiku-20241022","usage":{"input_tokens":12,"output_tokens":1}}}\n\n`,
+      `event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":"Hi"}}\n\n`,
+      `event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":5}}\n\n`,
+    ].join("");
+    capture.pushResponseBody(Buffer.from(events.slice(0, 70)));
+    capture.pushResponseBody(Buffer.from(events.slice(70)));
+
+    expect(capture.getAttributes()).toMatchObject({
+      "gen_ai.system": "anthropic",
+      "gen_ai.request.model": "claude-3-5-haiku-latest",
+      "gen_ai.response.id": "msg_1",
+      "gen_ai.response.finish_reasons": ["end_turn"],
+      "gen_ai.usage.input_tokens": 12,
+      "gen_ai.usage.output_tokens": 5,
+    });
+  });
+
+  it("ignores requests that are not inference requests", () => {
+    expect(
+      new GenAiCapture("https://api.openai.com/v1/models").getAttributes()
+    ).toBeUndefined();
+    expect(createGenAiCapture("https://api.github.com/repos")).toBeUndefined();
+    expect(createGenAiCapture(undefined)).toBeUndefined();
+    expect(
+      createGenAiCapture("https://api.mistral.ai/v1/chat/completions")
+    ).toBeInstanceOf(GenAiCapture);
+  });
+});
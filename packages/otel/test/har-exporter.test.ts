@@ -0,0 +1,118 @@
+import { access, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SpanKind } from "@opentelemetry/api";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-base";
+import type { Har } from "@pingops/core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HarSpanExporter } from "../src/exporters/har-exporter";
+import { PingopsSpanProcessor } from "../src/span-processor";
+
+describe("HarSpanExporter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "pingops-har-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createTracer(exporter: HarSpanExporter) {
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+    });
+    return new BasicTracerProvider({
+      spanProcessors: [processor],
+    }).getTracer("test");
+  }
+
+  function endSpan(tracer: ReturnType<typeof createTracer>, route: string) {
+    tracer
+      .startSpan("GET", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.request.method": "GET",
+          "url.full": `https://api.example.com${route}`,
+          "http.response.status_code": 200,
+        },
+      })
+      .end();
+  }
+
+  async function readHar(path: string): Promise<Har> {
+    return JSON.parse(await readFile(path, "utf8")) as Har;
+  }
+
+  it("writes filtered and redacted spans as a HAR archive", async () => {
+    const path = join(directory, "traffic.har");
+    const exporter = new HarSpanExporter({ path, maxEntries: 2 });
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+    });
+    const tracer = new BasicTracerProvider({
+      spanProcessors: [processor],
+    }).getTracer("test");
+
+    for (const route of ["/first", "/second", "/third"]) {
+      tracer
+        .startSpan("GET", {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            "http.request.method": "GET",
+            "url.full": `https://api.example.com${route}`,
+            "http.response.status_code": 200,
+            "http.request.header.authorization": "Bearer secret-token",
+          },
+        })
+        .end();
+    }
+    await processor.shutdown();
+
+    const har = JSON.parse(await readFile(path, "utf8")) as Har;
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries.map((entry) => entry.request.url)).toEqual([
+      "https://api.example.com/second",
+      "https://api.example.com/third",
+    ]);
+    const authorization = har.log.entries[0].request.headers.find(
+      (header) => header.name === "authorization"
+    );
+    expect(authorization?.value).not.toContain("secret-token");
+    expect(exporter.getHar().log.entries).toHaveLength(2);
+  });
+
+  it("writes the archive on forceFlush rather than after every export", async () => {
+    const path = join(directory, "traffic.har");
+    const exporter = new HarSpanExporter({ path, writeIntervalMillis: 0 });
+    const tracer = createTracer(exporter);
+
+    endSpan(tracer, "/first");
+    endSpan(tracer, "/second");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await expect(access(path)).rejects.toThrow();
+
+    await exporter.forceFlush();
+    expect((await readHar(path)).log.entries).toHaveLength(2);
+    await exporter.shutdown();
+  });
+
+  it("writes new entries every writeIntervalMillis", async () => {
+    const path = join(directory, "traffic.har");
+    const exporter = new HarSpanExporter({ path, writeIntervalMillis: 20 });
+    const tracer = createTracer(exporter);
+
+    endSpan(tracer, "/first");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect((await readHar(path)).log.entries).toHaveLength(1);
+    await exporter.shutdown();
+  });
+});
@@ -0,0 +1,187 @@
+import { mkdtemp, readdir, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DiskSpanQueue } from "../src/exporters/disk-queue";
+import { PersistentSpanExporter } from "../src/exporters/persistent-exporter";
+
+function createSpan(spanId: string): ReadableSpan {
+  return {
+    name: "GET",
+    kind: SpanKind.CLIENT,
+    spanContext: () => ({
+      traceId: "1234567890abcdef1234567890abcdef",
+      spanId,
+      traceFlags: 1,
+    }),
+    startTime: [1000, 0],
+    endTime: [1001, 0],
+    duration: [1, 0],
+    status: { code: SpanStatusCode.UNSET },
+    attributes: { "http.url": "https://api.example.com/v1" },
+    links: [],
+    events: [],
+    ended: true,
+    resource: resourceFromAttributes({ "service.name": "test" }),
+    instrumentationScope: { name: "test" },
+    droppedAttributesCount: 0,
+    droppedEventsCount: 0,
+    droppedLinksCount: 0,
+  };
+}
+
+class FakeExporter implements SpanExporter {
+  available = false;
+  exported: ReadableSpan[][] = [];
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    if (!this.available) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("backend unavailable"),
+      });
+      return;
+    }
+    this.exported.push(spans);
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+function exportSpans(
+  exporter: SpanExporter,
+  spans: ReadableSpan[]
+): Promise<ExportResult> {
+  return new Promise((resolve) => exporter.export(spans, resolve));
+}
+
+async function waitFor(condition: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) return;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error("condition not met");
+}
+
+describe("PersistentSpanExporter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "pingops-persistence-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("spools failed batches and replays them after the backend recovers", async () => {
+    const fake = new FakeExporter();
+    const exporter = new PersistentSpanExporter(fake, {
+      directory,
+      replayIntervalMillis: 0,
+    });
+
+    const result = await exportSpans(exporter, [
+      createSpan("aaaaaaaaaaaaaaaa"),
+    ]);
+    expect(result.code).toBe(ExportResultCode.FAILED);
+    expect(await readdir(directory)).toHaveLength(1);
+
+    fake.available = true;
+    await exportSpans(exporter, [createSpan("bbbbbbbbbbbbbbbb")]);
+    await exporter.forceFlush();
+    expect(await readdir(directory)).toHaveLength(0);
+
+    const replayed = fake.exported.flat();
+    expect(replayed.map((span) => span.spanContext().spanId)).toEqual([
+      "bbbbbbbbbbbbbbbb",
+      "aaaaaaaaaaaaaaaa",
+    ]);
+    const restored = replayed[1];
+    expect(restored.attributes["http.url"]).toBe("https://api.example.com/v1");
+    expect(restored.resource.attributes["service.name"]).toBe("test");
+
+    await exporter.shutdown();
+  });
+
+  it("replays batches left over from a previous run on start", async () => {
+    const first = new PersistentSpanExporter(new FakeExporter(), {
+      directory,
+      replayIntervalMillis: 0,
+    });
+    await exportSpans(first, [createSpan("cccccccccccccccc")]);
+    await first.shutdown();
+
+    const fake = new FakeExporter();
+    fake.available = true;
+    const second = new PersistentSpanExporter(fake, {
+      directory,
+      replayIntervalMillis: 0,
+    });
+    await waitFor(async () => (await readdir(directory)).length === 0);
+
+    expect(fake.exported).toHaveLength(1);
+    expect(fake.exported[0][0].spanContext().spanId).toBe("cccccccccccccccc");
+    await second.shutdown();
+  });
+
+  it("only lists the queue after successful exports once a batch was spooled", async () => {
+    const list = vi.spyOn(DiskSpanQueue.prototype, "list");
+    const fake = new FakeExporter();
+    fake.available = true;
+    const exporter = new PersistentSpanExporter(fake, {
+      directory,
+      replayIntervalMillis: 0,
+    });
+    await exporter.forceFlush();
+    expect(list).toHaveBeenCalledTimes(1);
+
+    await exportSpans(exporter, [createSpan("aaaaaaaaaaaaaaaa")]);
+    await exportSpans(exporter, [createSpan("bbbbbbbbbbbbbbbb")]);
+    await exporter.forceFlush();
+    expect(list).toHaveBeenCalledTimes(1);
+
+    fake.available = false;
+    await exportSpans(exporter, [createSpan("cccccccccccccccc")]);
+    fake.available = true;
+    await exportSpans(exporter, [createSpan("dddddddddddddddd")]);
+    await exporter.forceFlush();
+    expect(await readdir(directory)).toHaveLength(0);
+    expect(fake.exported.flat()).toHaveLength(4);
+
+    list.mockRestore();
+    await exporter.shutdown();
+  });
+
+  it("evicts the oldest batches to stay under maxBytes", async () => {
+    const exporter = new PersistentSpanExporter(new FakeExporter(), {
+      directory,
+      maxBytes: 1500,
+      replayIntervalMillis: 0,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      await exportSpans(exporter, [createSpan(`${i}`.repeat(16))]);
+    }
+
+    const files = (await readdir(directory)).sort();
+    const sizes = await Promise.all(
+      files.map(async (file) => (await stat(join(directory, file))).size)
+    );
+    expect(files.length).toBeLessThan(5);
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBeLessThanOrEqual(
+      1500
+    );
+    const newest = await readFile(join(directory, files[files.length - 1]));
+    expect(newest.toString()).toContain("4444444444444444");
+    await exporter.shutdown();
+  });
+});
@@ -0,0 +1,244 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CircuitBreaker } from "../src/exporters/circuit-breaker";
+import {
+  HttpExportTransport,
+  parseRetryAfter,
+} from "../src/exporters/http-transport";
+import {
+  RetryingExportTransport,
+  type RetryOptions,
+} from "../src/exporters/retrying-transport";
+
+type StubResponse = { status: number; headers?: Record<string, string> };
+
+const retryOptions: RetryOptions = {
+  maxAttempts: 5,
+  initialBackoffMillis: 10,
+  maxBackoffMillis: 100,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  maxElapsedMillis: 10_000,
+};
+
+const payload = new TextEncoder().encode('{"resourceSpans":[]}');
+
+describe("RetryingExportTransport", () => {
+  let server: Server;
+  let url: string;
+  let requests: number;
+  let responses: StubResponse[];
+
+  /**
+   * Stub backend answering with the queued responses, then 200
+   */
+  beforeEach(async () => {
+    requests = 0;
+    responses = [];
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        requests++;
+        const next = responses.shift() ?? { status: 200 };
+        res.writeHead(next.status, next.headers);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function createTransport(circuitBreaker?: CircuitBreaker) {
+    return new RetryingExportTransport(
+      new HttpExportTransport({ url, headers: {} }),
+      retryOptions,
+      circuitBreaker
+    );
+  }
+
+  it("retries 429/503 responses honoring Retry-After", async () => {
+    responses = [
+      { status: 503, headers: { "Retry-After": "0" } },
+      { status: 429 },
+    ];
+
+    const response = await createTransport().send(payload, 1000);
+
+    expect(response.status).toBe("success");
+    expect(requests).toBe(3);
+  });
+
+  it("does not retry non-retryable statuses", async () => {
+    responses = [{ status: 400 }];
+
+    const response = await createTransport().send(payload, 1000);
+
+    expect(response.status).toBe("failure");
+    expect(requests).toBe(1);
+  });
+
+  it("gives up when Retry-After exceeds maxBackoffMillis and opens the circuit", async () => {
+    responses = [{ status: 503, headers: { "Retry-After": "60" } }];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 5,
+      resetTimeoutMillis: 10,
+    });
+    const transport = createTransport(breaker);
+
+    const response = await transport.send(payload, 1000);
+
+    expect(response.status).toBe("failure");
+    expect(requests).toBe(1);
+    expect(breaker.getState()).toBe("open");
+
+    // Still open: fails fast without reaching the backend
+    expect((await transport.send(payload, 1000)).status).toBe("failure");
+    expect(requests).toBe(1);
+  });
+
+  it("opens the circuit after consecutive failures and probes after the reset timeout", async () => {
+    responses = [{ status: 500 }, { status: 500 }];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMillis: 50,
+    });
+    const transport = createTransport(breaker);
+
+    await transport.send(payload, 1000);
+    expect(breaker.getState()).toBe("closed");
+    await transport.send(payload, 1000);
+    expect(breaker.getState()).toBe("open");
+    expect(requests).toBe(2);
+
+    const skipped = await transport.send(payload, 1000);
+    expect(skipped.status).toBe("failure");
+    expect(requests).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(breaker.getState()).toBe("half-open");
+
+    const probe = await transport.send(payload, 1000);
+    expect(probe.status).toBe("success");
+    expect(requests).toBe(3);
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("stops retrying once the export would exceed maxElapsedMillis", async () => {
+    responses = [
+      { status: 503, headers: { "Retry-After": "0" } },
+      { status: 503 },
+      { status: 503 },
+    ];
+    const transport = new RetryingExportTransport(
+      new HttpExportTransport({ url, headers: {} }),
+      {
+        ...retryOptions,
+        initialBackoffMillis: 100,
+        maxBackoffMillis: 1000,
+        jitter: 0,
+        maxElapsedMillis: 400,
+      }
+    );
+
+    const response = await transport.send(payload, 1000);
+
+    expect(response.status).toBe("failure");
+    expect(requests).toBe(3);
+  });
+
+  it("retries network errors", async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMillis: 1000,
+    });
+
+    const response = await createTransport(breaker).send(payload, 1000);
+
+    expect(response.status).toBe("failure");
+    expect(breaker.getState()).toBe("open");
+
+    // Restart so afterEach can close it
+    server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+});
+
+describe("HttpExportTransport", () => {
+  it("reuses connections and sends a User-Agent", async () => {
+    const userAgents: (string | undefined)[] = [];
+    let connections = 0;
+    const server = createServer((req, res) => {
+      userAgents.push(req.headers["user-agent"]);
+      req.resume();
+      req.on("end", () => res.end());
+    });
+    server.on("connection", () => connections++);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const port = (server.address() as AddressInfo).port;
+    const transport = new HttpExportTransport({
+      url: `http://127.0.0.1:${port}/v1/traces`,
+      headers: {},
+    });
+
+    try {
+      await transport.send(payload, 1000);
+      await transport.send(payload, 1000);
+
+      expect(connections).toBe(1);
+      expect(userAgents).toEqual([
+        expect.stringMatching(/^@pingops\/otel\/\d+\.\d+\.\d+/),
+        expect.stringMatching(/^@pingops\/otel\/\d+\.\d+\.\d+/),
+      ]);
+    } finally {
+      transport.shutdown();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("times out responses that keep trickling in", async () => {
+    const server = createServer((req, res) => {
+      res.writeHead(200);
+      const interval = setInterval(() => res.write("x"), 10);
+      req.on("close", () => clearInterval(interval));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const port = (server.address() as AddressInfo).port;
+
+    try {
+      const response = await new HttpExportTransport({
+        url: `http://127.0.0.1:${port}/v1/traces`,
+        headers: {},
+      }).send(payload, 100);
+
+      expect(response.status).toBe("failure");
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const millis = parseRetryAfter(date);
+    expect(millis).toBeGreaterThan(3000);
+    expect(millis).toBeLessThanOrEqual(5000);
+  });
+});
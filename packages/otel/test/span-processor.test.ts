@@ -0,0 +1,395 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SpanKind, context, trace } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { describe, expect, it } from "vitest";
+import { PingopsSpanProcessor } from "../src/span-processor";
+
+function createProvider(processor: PingopsSpanProcessor) {
+  return new BasicTracerProvider({ spanProcessors: [processor] });
+}
+
+describe("PingopsSpanProcessor exporters", () => {
+  it("fans out filtered spans to every configured exporter", async () => {
+    const first = new InMemorySpanExporter();
+    const second = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter: first,
+      exporters: [second],
+      domainDenyList: [{ domain: "internal.example.com" }],
+    });
+    const tracer = createProvider(processor).getTracer("test");
+
+    tracer
+      .startSpan("GET", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.method": "GET",
+          "url.full": "https://api.example.com/users",
+          "http.request.header.authorization": "Bearer secret-token",
+        },
+      })
+      .end();
+    tracer
+      .startSpan("GET", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.method": "GET",
+          "url.full": "https://internal.example.com/health",
+        },
+      })
+      .end();
+    await processor.forceFlush();
+
+    for (const exporter of [first, second]) {
+      const spans = exporter.getFinishedSpans();
+      expect(spans).toHaveLength(1);
+      expect(spans[0].attributes["url.full"]).toBe(
+        "https://api.example.com/users"
+      );
+      expect(spans[0].attributes["http.request.header.authorization"]).not.toBe(
+        "Bearer secret-token"
+      );
+    }
+  });
+
+  it("shuts down every configured exporter", async () => {
+    const exporters = [new InMemorySpanExporter(), new InMemorySpanExporter()];
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exporters,
+    });
+
+    await processor.shutdown();
+
+    for (const exporter of exporters) {
+      // InMemorySpanExporter rejects exports once stopped
+      await new Promise<void>((resolve) =>
+        exporter.export([], (result) => {
+          expect(result.error).toBeDefined();
+          resolve();
+        })
+      );
+    }
+  });
+
+  it("sends spans to custom exporters alongside the default exporter", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "pingops-exporters-"));
+    const path = join(directory, "spans.ndjson");
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      serviceName: "test",
+      exportMode: "file",
+      fileExport: { path },
+      exporter,
+    });
+
+    createProvider(processor)
+      .getTracer("test")
+      .startSpan("GET", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.method": "GET",
+          "url.full": "https://api.example.com/users",
+        },
+      })
+      .end();
+    await processor.forceFlush();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect((await readFile(path, "utf8")).trim().split("\n")).toHaveLength(1);
+    await processor.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("requires an exporter when the default exporter is disabled", () => {
+    expect(
+      () =>
+        new PingopsSpanProcessor({
+          serviceName: "test",
+          disableDefaultExporter: true,
+        })
+    ).toThrow(/exporter or exporters/);
+  });
+
+  it("requires baseUrl unless spans are exported to a file", async () => {
+    expect(() => new PingopsSpanProcessor({ serviceName: "test" })).toThrow(
+      /baseUrl/
+    );
+
+    const processor = new PingopsSpanProcessor({
+      serviceName: "test",
+      exportMode: "file",
+      fileExport: {
+        path: join(tmpdir(), `pingops-spans-${process.pid}.ndjson`),
+      },
+    });
+    await processor.shutdown();
+  });
+});
+
+describe("PingopsSpanProcessor beforeSend", () => {
+  function startClientSpan(processor: PingopsSpanProcessor, url: string) {
+    createProvider(processor)
+      .getTracer("test")
+      .startSpan("GET", {
+        kind: SpanKind.CLIENT,
+        attributes: { "http.method": "GET", "url.full": url },
+      })
+      .end();
+  }
+
+  it("exports rewritten attributes and drops spans for null", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      beforeSend: (payload) => {
+        const url = String(payload.attributes["url.full"]);
+        if (url.endsWith("/health")) {
+          return null;
+        }
+        return {
+          ...payload,
+          attributes: {
+            ...payload.attributes,
+            "url.full": url.replace(/\/tenants\/[^/]+/, "/tenants/:id"),
+          },
+        };
+      },
+    });
+
+    startClientSpan(processor, "https://api.example.com/tenants/acme/users");
+    startClientSpan(processor, "https://api.example.com/health");
+    await processor.forceFlush();
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes["url.full"]).toBe(
+      "https://api.example.com/tenants/:id/users"
+    );
+  });
+
+  it("waits for async hooks on forceFlush", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      beforeSend: async (payload) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return payload;
+      },
+    });
+
+    startClientSpan(processor, "https://api.example.com/users");
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    await processor.forceFlush();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it("drops spans when the hook throws or rejects", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      beforeSend: (payload) => {
+        if (String(payload.attributes["url.full"]).endsWith("/sync")) {
+          throw new Error("sync failure");
+        }
+        return Promise.reject(new Error("async failure"));
+      },
+    });
+
+    startClientSpan(processor, "https://api.example.com/sync");
+    startClientSpan(processor, "https://api.example.com/async");
+    await processor.forceFlush();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
+
+describe("PingopsSpanProcessor sampling", () => {
+  it("drops unsampled spans and keeps errors", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      sampling: { ratio: 0 },
+    });
+    const tracer = createProvider(processor).getTracer("test");
+
+    for (const statusCode of [200, 500]) {
+      tracer
+        .startSpan("GET", {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            "http.method": "GET",
+            "url.full": "https://api.example.com/users",
+            "http.response.status_code": statusCode,
+          },
+        })
+        .end();
+    }
+    await processor.forceFlush();
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes["http.response.status_code"]).toBe(500);
+  });
+
+  it("keeps or drops every span of a trace together", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      sampling: { ratio: 0 },
+      domainAllowList: [
+        { domain: "api.example.com" },
+        { domain: "billing.example.com", sampleRate: 1 },
+      ],
+    });
+    const tracer = createProvider(processor).getTracer("test");
+    const endSpansInTrace = (requests: Array<[string, number]>) => {
+      const parent = tracer.startSpan("parent");
+      const parentContext = trace.setSpan(context.active(), parent);
+      for (const [url, statusCode] of requests) {
+        tracer
+          .startSpan(
+            "GET",
+            {
+              kind: SpanKind.CLIENT,
+              attributes: {
+                "http.method": "GET",
+                "url.full": url,
+                "http.response.status_code": statusCode,
+              },
+            },
+            parentContext
+          )
+          .end();
+      }
+      return parent.spanContext().traceId;
+    };
+
+    const erroredTrace = endSpansInTrace([
+      ["https://api.example.com/users", 200],
+      ["https://api.example.com/orders", 503],
+      ["https://api.example.com/retry", 200],
+    ]);
+    const sampledDomainTrace = endSpansInTrace([
+      ["https://api.example.com/users", 200],
+      ["https://billing.example.com/invoices", 200],
+    ]);
+    endSpansInTrace([["https://api.example.com/users", 200]]);
+    await processor.forceFlush();
+
+    const exportedTraces = exporter
+      .getFinishedSpans()
+      .map((span) => span.spanContext().traceId);
+    expect(exportedTraces).toEqual([
+      erroredTrace,
+      erroredTrace,
+      erroredTrace,
+      sampledDomainTrace,
+      sampledDomainTrace,
+    ]);
+  });
+  it("does not export part of a trace dropped from a full buffer", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      sampling: { ratio: 0, maxTraces: 1 },
+    });
+    const tracer = createProvider(processor).getTracer("test");
+    const parents = [tracer.startSpan("first"), tracer.startSpan("second")];
+    const endRequest = (parentIndex: number, statusCode: number) =>
+      tracer
+        .startSpan(
+          "GET",
+          {
+            kind: SpanKind.CLIENT,
+            attributes: {
+              "http.method": "GET",
+              "url.full": "https://api.example.com/users",
+              "http.response.status_code": statusCode,
+            },
+          },
+          trace.setSpan(context.active(), parents[parentIndex])
+        )
+        .end();
+
+    endRequest(0, 200);
+    // Evicts the first trace
+    endRequest(1, 200);
+    endRequest(0, 500);
+    endRequest(1, 500);
+    await processor.forceFlush();
+
+    const exportedTraces = exporter
+      .getFinishedSpans()
+      .map((span) => span.spanContext().traceId);
+    const secondTrace = parents[1].spanContext().traceId;
+    expect(exportedTraces).toEqual([secondTrace, secondTrace]);
+  });
+});
+
+describe("PingopsSpanProcessor GenAI usage", () => {
+  it("does not export the root span when the allow list excludes its GenAI hosts", async () => {
+    const exporter = new InMemorySpanExporter();
+    const processor = new PingopsSpanProcessor({
+      disableDefaultExporter: true,
+      serviceName: "test",
+      exportMode: "immediate",
+      exporter,
+      domainAllowList: [{ domain: "api.example.com" }],
+    });
+    const tracer = createProvider(processor).getTracer("test");
+    const totals = {
+      "pingops.trace.gen_ai.usage.cost": 0.012,
+      "pingops.trace.gen_ai.usage.input_tokens": 1200,
+      "pingops.trace.gen_ai.usage.output_tokens": 300,
+    };
+
+    tracer
+      .startSpan("POST", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.method": "POST",
+          "url.full": "https://api.openai.com/v1/chat/completions",
+          "gen_ai.system": "openai",
+          ...totals,
+        },
+      })
+      .end();
+    tracer
+      .startSpan("pingops-trace", {
+        attributes: { "pingops.user_id": "user-1", ...totals },
+      })
+      .end();
+    await processor.forceFlush();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
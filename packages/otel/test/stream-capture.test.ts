@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  StreamCollector,
+  createStreamCollector,
+} from "../src/instrumentations/stream-capture";
+
+describe("StreamCollector", () => {
+  it("records event count and timings", () => {
+    const stream = new StreamCollector("sse", 1024, 1000);
+    stream.push(Buffer.from("data: a\n\ndata: b"), 1200);
+    stream.push(Buffer.from("\n\n"), 1500);
+    stream.end(1600);
+
+    expect(stream.getAttributes()).toEqual({
+      "http.response.stream.format": "sse",
+      "http.response.stream.event_count": 2,
+      "http.response.stream.time_to_first_byte_ms": 200,
+      "http.response.stream.time_to_last_event_ms": 500,
+    });
+    expect(stream.getSummary()).toBe("data: a\n\ndata: b\n\n");
+  });
+
+  it("keeps the first events and the last event within the limit", () => {
+    const stream = new StreamCollector("ndjson", 12, 0);
+    for (let i = 1; i <= 6; i++) {
+      stream.push(Buffer.from(`{"i":${i}}\n`), i);
+    }
+    stream.end(7);
+
+    expect(stream.getAttributes()).toMatchObject({
+      "http.response.stream.event_count": 6,
+      "http.response.stream.time_to_last_event_ms": 6,
+    });
+    expect(stream.getSummary()).toBe(
+      '{"i":1}\n[4 more events omitted; size=48]\n{"i":6}\n'
+    );
+  });
+
+  it("returns no summary for streams without events", () => {
+    const stream = new StreamCollector("sse", 1024, 0);
+    stream.push(Buffer.from(": keep-alive\n\n"));
+    stream.end();
+    expect(stream.getSummary()).toBeNull();
+  });
+});
+
+describe("createStreamCollector", () => {
+  it("only collects uncompressed allowed streams", () => {
+    expect(
+      createStreamCollector("text/event-stream", undefined, {}, 1024, 0)
+    ).toBeInstanceOf(StreamCollector);
+    expect(
+      createStreamCollector("application/json", undefined, {}, 1024, 0)
+    ).toBeUndefined();
+    expect(
+      createStreamCollector("text/event-stream", "gzip", {}, 1024, 0)
+    ).toBeUndefined();
+    expect(
+      createStreamCollector(
+        "application/x-ndjson",
+        undefined,
+        { bodyContentTypesDenyList: ["application/x-ndjson"] },
+        1024,
+        0
+      )
+    ).toBeUndefined();
+  });
+});
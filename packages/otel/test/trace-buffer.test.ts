@@ -0,0 +1,152 @@
+import { SpanKind, context, trace, type Tracer } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PingopsTailSamplingConfig } from "../src/config";
+import { PingopsSpanProcessor } from "../src/span-processor";
+import { keepErroredTraces, keepSlowTraces } from "../src/trace-buffer";
+
+function setup(tailSampling: PingopsTailSamplingConfig) {
+  const exporter = new InMemorySpanExporter();
+  const processor = new PingopsSpanProcessor({
+    disableDefaultExporter: true,
+    serviceName: "test",
+    exportMode: "immediate",
+    exporter,
+    tailSampling,
+  });
+  const tracer = new BasicTracerProvider({
+    spanProcessors: [processor],
+  }).getTracer("test");
+  return { exporter, processor, tracer };
+}
+
+function endHttpSpan(tracer: Tracer, traceId: string, statusCode: number) {
+  tracer
+    .startSpan("GET", {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "http.method": "GET",
+        "url.full": `https://api.example.com/${statusCode}`,
+        "http.response.status_code": statusCode,
+        "pingops.trace_id": traceId,
+      },
+    })
+    .end();
+}
+
+/**
+ * Mimics startTrace: a root `pingops-trace` span with the PingOps trace ID as trace ID
+ */
+function startRootSpan(tracer: Tracer, traceId: string) {
+  const ctx = trace.setSpanContext(context.active(), {
+    traceId,
+    spanId: "0123456789abcdef",
+    traceFlags: 1,
+  });
+  return tracer.startSpan("pingops-trace", {}, ctx);
+}
+
+const TRACE_A = "a".repeat(32);
+const TRACE_B = "b".repeat(32);
+
+describe("tail sampling", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("exports whole traces matching a rule once the root span ends", async () => {
+    const { exporter, processor, tracer } = setup({
+      rules: [keepErroredTraces()],
+    });
+
+    const rootA = startRootSpan(tracer, TRACE_A);
+    endHttpSpan(tracer, TRACE_A, 200);
+    endHttpSpan(tracer, TRACE_A, 500);
+    const rootB = startRootSpan(tracer, TRACE_B);
+    endHttpSpan(tracer, TRACE_B, 200);
+    await processor.forceFlush();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    rootA.end();
+    rootB.end();
+    await processor.forceFlush();
+
+    const urls = exporter
+      .getFinishedSpans()
+      .map((span) => span.attributes["url.full"]);
+    expect(urls).toEqual([
+      "https://api.example.com/200",
+      "https://api.example.com/500",
+    ]);
+  });
+
+  it("keeps slow traces and exports spans outside of traces immediately", async () => {
+    const { exporter, processor, tracer } = setup({
+      rules: [keepSlowTraces(1000)],
+    });
+
+    tracer
+      .startSpan("GET", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.method": "GET",
+          "url.full": "https://api.example.com/untraced",
+        },
+      })
+      .end();
+    const root = startRootSpan(tracer, TRACE_A);
+    endHttpSpan(tracer, TRACE_A, 200);
+    root.end([Date.now() / 1000 + 2, 0]);
+    await processor.forceFlush();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  it("evaluates forgotten traces after the timeout", () => {
+    vi.useFakeTimers();
+    const rule = vi.fn(() => true);
+    const { exporter, tracer } = setup({
+      rules: [rule],
+      traceTimeoutMillis: 1000,
+    });
+
+    endHttpSpan(tracer, TRACE_A, 200);
+    vi.advanceTimersByTime(999);
+    expect(rule).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(rule).toHaveBeenCalledWith(
+      expect.objectContaining({ traceId: TRACE_A, complete: false })
+    );
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it("bounds the number of buffered traces and spans", async () => {
+    const rule = vi.fn(() => true);
+    const { exporter, processor, tracer } = setup({
+      rules: [rule],
+      maxTraces: 1,
+      maxSpansPerTrace: 2,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      endHttpSpan(tracer, TRACE_A, 200);
+    }
+    await processor.forceFlush();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    // A second trace evicts the first one, which is evaluated
+    endHttpSpan(tracer, TRACE_B, 200);
+    await processor.forceFlush();
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+
+    // Traces still buffered at shutdown are evaluated as incomplete
+    await processor.shutdown();
+    expect(rule).toHaveBeenLastCalledWith(
+      expect.objectContaining({ traceId: TRACE_B, complete: false })
+    );
+  });
+});
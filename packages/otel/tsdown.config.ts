@@ -12,9 +12,10 @@ export default defineConfig({
   external: [
     "@opentelemetry/api",
     "@opentelemetry/core",
-    "@opentelemetry/exporter-trace-otlp-http",
     "@opentelemetry/instrumentation",
     "@opentelemetry/instrumentation-http",
+    "@opentelemetry/otlp-exporter-base",
+    "@opentelemetry/otlp-transformer",
     "@opentelemetry/resources",
     "@opentelemetry/sdk-trace-base",
     "@opentelemetry/sdk-trace-node",
@@ -5,7 +5,7 @@
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
 import { load as loadYaml } from "js-yaml";
-import type { PingopsProcessorConfig } from "@pingops/otel";
+import { resolveExportMode, type PingopsProcessorConfig } from "@pingops/otel";
 
 /**
  * Loads configuration from a JSON or YAML file
@@ -39,6 +39,9 @@ export function loadConfigFromFile(
  * Merges configuration from file and environment variables.
  * Environment variables take precedence over file config.
  *
+ * PINGOPS_EXPORT_FILE sets the path of the export file. It only selects the
+ * "file" export mode when neither the file nor PINGOPS_EXPORT_MODE sets one.
+ *
  * @param fileConfig - Configuration loaded from file
  * @returns Merged configuration with env vars taking precedence
  */
@@ -69,7 +72,14 @@ export function mergeConfigWithEnv(
   if (process.env.PINGOPS_EXPORT_MODE) {
     envConfig.exportMode = process.env.PINGOPS_EXPORT_MODE as
       | "batched"
-      | "immediate";
+      | "immediate"
+      | "file";
+  }
+  if (process.env.PINGOPS_EXPORT_FILE) {
+    envConfig.fileExport = {
+      ...fileConfig.fileExport,
+      path: process.env.PINGOPS_EXPORT_FILE,
+    };
   }
 
   // Merge: env vars override file config
@@ -78,3 +88,52 @@ export function mergeConfigWithEnv(
     ...envConfig,
   };
 }
+
+/**
+ * Returns the required options missing from a configuration: serviceName, and
+ * baseUrl unless spans are exported to a file
+ */
+export function getMissingConfigOptions(
+  config: Partial<PingopsProcessorConfig>
+): Array<"baseUrl" | "serviceName"> {
+  const missing: Array<"baseUrl" | "serviceName"> = [];
+  if (!config.baseUrl && resolveExportMode(config.exportMode) !== "file") {
+    missing.push("baseUrl");
+  }
+  if (!config.serviceName) {
+    missing.push("serviceName");
+  }
+  return missing;
+}
+
+/**
+ * Loads the configuration of auto-initialization (`@pingops/sdk/register`):
+ * the config file, if any, merged with environment variables. Every option of
+ * the config file is kept.
+ *
+ * @param configFilePath - Path to the config file (JSON or YAML), optional
+ * @returns Configuration, or null if a required option is missing (see
+ * getMissingConfigOptions)
+ */
+export function loadRegisterConfig(
+  configFilePath?: string
+): PingopsProcessorConfig | null {
+  let fileConfig: Partial<PingopsProcessorConfig> = {};
+  if (configFilePath) {
+    try {
+      fileConfig = loadConfigFromFile(configFilePath);
+    } catch (error) {
+      console.error(
+        `[PingOps] Failed to load config from file ${configFilePath}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      // Fall back to environment variables only
+    }
+  }
+
+  const config = mergeConfigWithEnv(fileConfig);
+  if (getMissingConfigOptions(config).length > 0) {
+    return null;
+  }
+  return config as PingopsProcessorConfig;
+}
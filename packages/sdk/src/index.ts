@@ -10,4 +10,8 @@ export {
   getActiveTraceId,
   getActiveSpanId,
 } from "./pingops";
-export type { PingopsTraceAttributes } from "@pingops/core";
+export { getSecretValueDetectionReport } from "@pingops/core";
+export type {
+  PingopsTraceAttributes,
+  SecretValueDetection,
+} from "@pingops/core";
@@ -11,7 +11,11 @@ import { NodeSDK } from "@opentelemetry/sdk-node";
 import { resourceFromAttributes } from "@opentelemetry/resources";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
 import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
-import type { PingopsProcessorConfig } from "@pingops/otel";
+import {
+  resolveExportMode,
+  type PingopsExportMode,
+  type PingopsProcessorConfig,
+} from "@pingops/otel";
 import {
   setPingopsTracerProvider,
   shutdownTracerProvider,
@@ -20,6 +24,7 @@ import {
 import {
   createLogger,
   createTraceId,
+  GenAiUsageTotals,
   uint8ArrayToHex,
   type PingopsTraceAttributes,
 } from "@pingops/core";
@@ -31,8 +36,13 @@ import {
   PINGOPS_METADATA,
   PINGOPS_CAPTURE_REQUEST_BODY,
   PINGOPS_CAPTURE_RESPONSE_BODY,
+  PINGOPS_GENAI_USAGE,
 } from "@pingops/core";
-import { loadConfigFromFile, mergeConfigWithEnv } from "./config-loader";
+import {
+  getMissingConfigOptions,
+  loadConfigFromFile,
+  mergeConfigWithEnv,
+} from "./config-loader";
 import { setSdkInitialized } from "./init-state";
 import { getPingopsTracerProvider } from "@pingops/otel";
 import { getInstrumentations } from "@pingops/otel";
@@ -159,11 +169,13 @@ function resolveConfigFromFile(configFilePath: string): PingopsProcessorConfig {
   const fileConfig = loadConfigFromFile(configFilePath);
   const mergedConfig = mergeConfigWithEnv(fileConfig);
 
-  if (!mergedConfig.baseUrl || !mergedConfig.serviceName) {
-    const missing = [
-      !mergedConfig.baseUrl && "baseUrl (or PINGOPS_BASE_URL)",
-      !mergedConfig.serviceName && "serviceName (or PINGOPS_SERVICE_NAME)",
-    ].filter(Boolean);
+  const missingOptions = getMissingConfigOptions(mergedConfig);
+  if (missingOptions.length > 0) {
+    const missing = missingOptions.map((option) =>
+      option === "baseUrl"
+        ? "baseUrl (or PINGOPS_BASE_URL)"
+        : "serviceName (or PINGOPS_SERVICE_NAME)"
+    );
 
     throw new Error(
       `initializePingops(configFile) requires ${missing.join(" and ")}. ` +
@@ -241,18 +253,24 @@ async function ensureInitialized(): Promise<void> {
     const baseUrl = process.env.PINGOPS_BASE_URL;
     const serviceName = process.env.PINGOPS_SERVICE_NAME;
     const debug = process.env.PINGOPS_DEBUG === "true";
+    const exportMode = process.env.PINGOPS_EXPORT_MODE as
+      | PingopsExportMode
+      | undefined;
+    // Spans exported to a file need neither the backend URL nor the API key
+    const isFileExport = resolveExportMode(exportMode) === "file";
 
     logger.debug("Reading environment variables", {
       hasApiKey: !!apiKey,
       hasBaseUrl: !!baseUrl,
       hasServiceName: !!serviceName,
+      isFileExport,
       debug,
     });
 
-    if (!apiKey || !baseUrl || !serviceName) {
+    if (!serviceName || (!isFileExport && (!apiKey || !baseUrl))) {
       const missing = [
-        !apiKey && "PINGOPS_API_KEY",
-        !baseUrl && "PINGOPS_BASE_URL",
+        !isFileExport && !apiKey && "PINGOPS_API_KEY",
+        !isFileExport && !baseUrl && "PINGOPS_BASE_URL",
         !serviceName && "PINGOPS_SERVICE_NAME",
       ].filter(Boolean);
 
@@ -264,7 +282,7 @@ async function ensureInitialized(): Promise<void> {
       );
 
       throw new Error(
-        `PingOps SDK auto-initialization requires PINGOPS_API_KEY, PINGOPS_BASE_URL, and PINGOPS_SERVICE_NAME environment variables. Missing: ${missing.join(", ")}`
+        `PingOps SDK auto-initialization requires the PINGOPS_SERVICE_NAME environment variable, and PINGOPS_API_KEY and PINGOPS_BASE_URL unless spans are exported to a file (PINGOPS_EXPORT_FILE). Missing: ${missing.join(", ")}`
       );
     }
 
@@ -273,11 +291,13 @@ async function ensureInitialized(): Promise<void> {
       baseUrl,
       serviceName,
       debug,
+      exportMode,
     };
 
     logger.info("Initializing SDK with config", {
       baseUrl,
       serviceName,
+      exportMode,
       debug,
     });
 
@@ -386,49 +406,50 @@ export async function startTrace<T>(
 
   const tracer = getPingopsTracerProvider().getTracer("pingops-sdk", "1.0.0");
 
+  // Set before the root span starts, so it carries the trace attributes too
+  let traceContext = contextWithSpanContext;
+  const attrs = options.attributes;
+  if (attrs) {
+    traceContext = setAttributesInContext(traceContext, attrs);
+  }
+  traceContext = traceContext.setValue(PINGOPS_TRACE_ID, traceId);
+
+  // GenAI requests of the trace add their token usage and cost, recorded on
+  // the GenAI spans as running totals and on the root span for tail sampling
+  const genAiUsage = new GenAiUsageTotals();
+  traceContext = traceContext.setValue(PINGOPS_GENAI_USAGE, genAiUsage);
+
   return new Promise((resolve, reject) => {
-    tracer.startActiveSpan(
-      "pingops-trace",
-      {},
-      contextWithSpanContext,
-      (span) => {
-        let contextWithAttributes = context.active();
-        const attrs = options.attributes;
-        if (attrs) {
-          contextWithAttributes = setAttributesInContext(
-            contextWithAttributes,
-            attrs
-          );
-        }
-        contextWithAttributes = contextWithAttributes.setValue(
-          PINGOPS_TRACE_ID,
-          traceId
-        );
-
-        const run = () => fn();
-
-        try {
-          const result = context.with(contextWithAttributes, run);
-          if (result instanceof Promise) {
-            result
-              .then((v) => {
-                span.end();
-                resolve(v);
-              })
-              .catch((err) => {
-                span.end();
-                reject(err instanceof Error ? err : new Error(String(err)));
-              });
-          } else {
-            span.end();
-            resolve(result);
-          }
-        } catch (err) {
-          span.end();
-          reject(err instanceof Error ? err : new Error(String(err)));
+    tracer.startActiveSpan("pingops-trace", {}, traceContext, (span) => {
+      const contextWithAttributes = context.active();
+      const endSpan = () => {
+        span.setAttributes(genAiUsage.getAttributes());
+        span.end();
+      };
+
+      const run = () => fn();
+
+      try {
+        const result = context.with(contextWithAttributes, run);
+        if (result instanceof Promise) {
+          result
+            .then((v) => {
+              endSpan();
+              resolve(v);
+            })
+            .catch((err) => {
+              endSpan();
+              reject(err instanceof Error ? err : new Error(String(err)));
+            });
+        } else {
+          endSpan();
+          resolve(result);
         }
+      } catch (err) {
+        endSpan();
+        reject(err instanceof Error ? err : new Error(String(err)));
       }
-    );
+    });
   });
 }
 
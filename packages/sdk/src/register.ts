@@ -12,18 +12,21 @@
  *   node --require @pingops/sdk/register your-app.js
  *
  * Configuration can be provided via:
- * 1. Config file (JSON or YAML) - Set PINGOPS_CONFIG_FILE environment variable
+ * 1. Config file (JSON or YAML) - Set PINGOPS_CONFIG_FILE environment variable.
+ *    Any PingopsProcessorConfig option can be set there (e.g. domainAllowList,
+ *    genAiPricing).
  * 2. Environment variables (takes precedence over config file)
  *
  * Environment variables:
  *   - PINGOPS_CONFIG_FILE: Path to JSON or YAML config file (optional)
  *   - PINGOPS_API_KEY: Your API key
- *   - PINGOPS_BASE_URL: Base URL for PingOps API (required)
+ *   - PINGOPS_BASE_URL: Base URL for PingOps API (required unless spans are exported to a file)
  *   - PINGOPS_SERVICE_NAME: Service name (required)
  *   - PINGOPS_DEBUG: Set to 'true' to enable debug logging
  *   - PINGOPS_BATCH_SIZE: Batch size for span export (optional)
  *   - PINGOPS_BATCH_TIMEOUT: Batch timeout in ms (optional)
- *   - PINGOPS_EXPORT_MODE: Export mode - 'batched' or 'immediate' (optional)
+ *   - PINGOPS_EXPORT_MODE: Export mode - 'batched', 'immediate' or 'file' (optional)
+ *   - PINGOPS_EXPORT_FILE: NDJSON file path, enables 'file' export mode when no export mode is set (optional)
  *
  * Config file format (JSON example):
  *   {
@@ -47,49 +50,10 @@
  */
 
 import { initializePingops } from "./pingops.js";
-import { loadConfigFromFile, mergeConfigWithEnv } from "./config-loader.js";
+import { loadRegisterConfig } from "./config-loader.js";
 
-let config: {
-  apiKey?: string;
-  baseUrl?: string;
-  serviceName?: string;
-  debug?: boolean;
-  batchSize?: number;
-  batchTimeout?: number;
-  exportMode?: "batched" | "immediate";
-} = {};
-
-// Try to load config from file if PINGOPS_CONFIG_FILE is set
-const configFilePath = process.env.PINGOPS_CONFIG_FILE;
-if (configFilePath) {
-  try {
-    const fileConfig = loadConfigFromFile(configFilePath);
-    config = mergeConfigWithEnv(fileConfig);
-  } catch (error) {
-    console.error(
-      `[PingOps] Failed to load config from file ${configFilePath}:`,
-      error instanceof Error ? error.message : String(error)
-    );
-    // Fall back to environment variables only
-    config = mergeConfigWithEnv({});
-  }
-} else {
-  // No config file, use environment variables only
-  config = mergeConfigWithEnv({});
-}
-
-// Only auto-initialize if required config values are present
-const baseUrl = config.baseUrl;
-const serviceName = config.serviceName;
-
-if (baseUrl && serviceName) {
-  initializePingops({
-    apiKey: config.apiKey,
-    baseUrl,
-    serviceName,
-    debug: config.debug,
-    batchSize: config.batchSize,
-    batchTimeout: config.batchTimeout,
-    exportMode: config.exportMode,
-  });
+// Auto-initialize only if required config values are present
+const config = loadRegisterConfig(process.env.PINGOPS_CONFIG_FILE);
+if (config) {
+  initializePingops(config);
 }
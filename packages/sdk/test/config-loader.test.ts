@@ -0,0 +1,79 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadRegisterConfig } from "../src/config-loader";
+
+function writeConfigFile(name: string, content: string): string {
+  const filePath = join(mkdtempSync(join(tmpdir(), "pingops-config-")), name);
+  writeFileSync(filePath, content);
+  return filePath;
+}
+
+describe("loadRegisterConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("keeps every option of the config file", () => {
+    const filePath = writeConfigFile(
+      "pingops.yaml",
+      [
+        "baseUrl: https://api.pingops.test",
+        "serviceName: checkout",
+        "genAiPricing:",
+        "  my-fine-tune: { input: 3, output: 12 }",
+        "domainAllowList:",
+        "  - domain: api.openai.com",
+      ].join("\n")
+    );
+
+    expect(loadRegisterConfig(filePath)).toMatchObject({
+      baseUrl: "https://api.pingops.test",
+      serviceName: "checkout",
+      genAiPricing: { "my-fine-tune": { input: 3, output: 12 } },
+      domainAllowList: [{ domain: "api.openai.com" }],
+    });
+  });
+
+  it("returns null without the required options", () => {
+    const filePath = writeConfigFile(
+      "pingops.json",
+      JSON.stringify({ serviceName: "checkout" })
+    );
+
+    expect(loadRegisterConfig(filePath)).toBeNull();
+  });
+
+  it("does not require baseUrl when spans are exported to a file", () => {
+    const filePath = writeConfigFile(
+      "pingops.json",
+      JSON.stringify({ serviceName: "checkout", exportMode: "file" })
+    );
+    expect(loadRegisterConfig(filePath)).toMatchObject({
+      serviceName: "checkout",
+      exportMode: "file",
+    });
+
+    vi.stubEnv("PINGOPS_SERVICE_NAME", "checkout");
+    vi.stubEnv("PINGOPS_EXPORT_FILE", "/tmp/pingops-spans.ndjson");
+    expect(loadRegisterConfig()).toMatchObject({
+      serviceName: "checkout",
+      fileExport: { path: "/tmp/pingops-spans.ndjson" },
+    });
+  });
+
+  it("keeps the export mode of the config file over PINGOPS_EXPORT_FILE", () => {
+    const filePath = writeConfigFile(
+      "pingops.json",
+      JSON.stringify({
+        baseUrl: "https://api.pingops.test",
+        serviceName: "checkout",
+        exportMode: "immediate",
+      })
+    );
+    vi.stubEnv("PINGOPS_EXPORT_FILE", "/tmp/pingops-spans.ndjson");
+
+    expect(loadRegisterConfig(filePath)?.exportMode).toBe("immediate");
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * In-memory PingOps test harness
+ *
+ * Initializes PingopsSpanProcessor with an in-memory exporter and the PingOps
+ * HTTP/undici instrumentations, so tests can assert on outbound requests made
+ * by the application without a PingOps backend.
+ */
+
+import { registerInstrumentations } from "@opentelemetry/instrumentation";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import {
+  createLogger,
+  getHttpUrlFromAttributes,
+  type SpanPayload,
+} from "@pingops/core";
+import {
+  PingopsSpanProcessor,
+  createHttpInstrumentation,
+  createUndiciInstrumentation,
+  setPingopsTracerProvider,
+  type PingopsProcessorConfig,
+} from "@pingops/otel";
+import { InMemoryPayloadExporter } from "./in-memory-exporter";
+
+const logger = createLogger("[PingOps Testing]");
+
+const DEFAULT_WAIT_TIMEOUT = 5000;
+
+/**
+ * Filtering, redaction and body capture options of PingopsProcessorConfig.
+ * Export related options are managed by the harness.
+ */
+export type PingopsTestingConfig = Omit<
+  PingopsProcessorConfig,
+  | "baseUrl"
+  | "serviceName"
+  | "apiKey"
+  | "exportMode"
+  | "exporter"
+  | "exporters"
+  | "disableDefaultExporter"
+  | "persistence"
+  | "fileExport"
+  | "exportTimeout"
+  | "retry"
+  | "circuitBreaker"
+  | "batchSize"
+  | "batchTimeout"
+> & {
+  serviceName?: string;
+};
+
+/**
+ * Outbound HTTP request captured by the harness
+ */
+export interface CapturedRequest {
+  method: string;
+  url: string;
+  status?: number;
+  requestHeaders: Record<string, string | string[] | undefined>;
+  responseHeaders: Record<string, string | string[] | undefined>;
+  requestBody?: string;
+  responseBody?: string;
+  duration: number;
+  /**
+   * Filtered span payload, as it would be sent to PingOps
+   */
+  span: SpanPayload;
+}
+
+/**
+ * Criteria for expectRequest. Omitted fields match any request.
+ */
+export interface ExpectedRequest {
+  method?: string;
+  /**
+   * Exact URL or pattern
+   */
+  url?: string | RegExp;
+  status?: number;
+}
+
+type HarnessState = {
+  provider: NodeTracerProvider;
+  processor: PingopsSpanProcessor;
+  exporter: InMemoryPayloadExporter;
+  disableInstrumentations: () => void;
+};
+
+let state: HarnessState | null = null;
+
+function getState(): HarnessState {
+  if (!state) {
+    throw new Error(
+      "PingOps testing harness is not initialized. Call initializePingopsTesting() first."
+    );
+  }
+  return state;
+}
+
+function getHeaders(
+  value: unknown
+): Record<string, string | string[] | undefined> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, string | string[] | undefined>)
+    : {};
+}
+
+function getOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function toCapturedRequest(payload: SpanPayload): CapturedRequest | null {
+  const attributes = payload.attributes;
+  const method = getOptionalString(
+    attributes["http.request.method"] ?? attributes["http.method"]
+  );
+  const url = getHttpUrlFromAttributes(attributes);
+  if (!method || !url) {
+    return null;
+  }
+
+  const status = Number(
+    attributes["http.response.status_code"] ?? attributes["http.status_code"]
+  );
+
+  return {
+    method: method.toUpperCase(),
+    url,
+    status: Number.isNaN(status) ? undefined : status,
+    requestHeaders: getHeaders(attributes["http.request.header"]),
+    responseHeaders: getHeaders(attributes["http.response.header"]),
+    requestBody: getOptionalString(attributes["http.request.body"]),
+    responseBody: getOptionalString(attributes["http.response.body"]),
+    duration: payload.duration,
+    span: payload,
+  };
+}
+
+function matches(request: CapturedRequest, expected: ExpectedRequest): boolean {
+  if (
+    expected.method !== undefined &&
+    request.method !== expected.method.toUpperCase()
+  ) {
+    return false;
+  }
+  if (expected.url !== undefined) {
+    const urlMatches =
+      typeof expected.url === "string"
+        ? request.url === expected.url
+        : expected.url.test(request.url);
+    if (!urlMatches) {
+      return false;
+    }
+  }
+  return expected.status === undefined || request.status === expected.status;
+}
+
+function describeRequest(request: ExpectedRequest): string {
+  const url =
+    request.url instanceof RegExp ? request.url.toString() : request.url;
+  return [request.method ?? "*", url ?? "*", request.status ?? "*"].join(" ");
+}
+
+/**
+ * Initializes the harness: registers a tracer provider with PingopsSpanProcessor
+ * exporting to memory, and enables the PingOps HTTP/undici instrumentations.
+ *
+ * @param config - Filtering, redaction and body capture options, as in production
+ */
+export function initializePingopsTesting(
+  config: PingopsTestingConfig = {}
+): void {
+  if (state) {
+    logger.warn("PingOps testing harness already initialized, skipping");
+    return;
+  }
+
+  const exporter = new InMemoryPayloadExporter();
+  const processor = new PingopsSpanProcessor({
+    ...config,
+    serviceName: config.serviceName ?? "pingops-test",
+    exportMode: "immediate",
+    // All spans go to the in-memory exporter only
+    exporter,
+    disableDefaultExporter: true,
+  });
+  const provider = new NodeTracerProvider({ spanProcessors: [processor] });
+  provider.register();
+  setPingopsTracerProvider(provider);
+
+  // Created for each harness, as instrumentations read their body capture
+  // options from the config of the processor when created
+  const disableInstrumentations = registerInstrumentations({
+    instrumentations: [
+      createHttpInstrumentation(),
+      createUndiciInstrumentation(),
+    ],
+    tracerProvider: provider,
+  });
+
+  state = { provider, processor, exporter, disableInstrumentations };
+}
+
+/**
+ * Disables the instrumentations and shuts down the tracer provider
+ */
+export async function shutdownPingopsTesting(): Promise<void> {
+  if (!state) {
+    return;
+  }
+  const { provider, disableInstrumentations } = state;
+  state = null;
+
+  disableInstrumentations();
+  setPingopsTracerProvider(null);
+  await provider.shutdown();
+}
+
+/**
+ * Returns all captured span payloads, including non-HTTP spans
+ */
+export function getCapturedSpans(): SpanPayload[] {
+  return getState().exporter.getPayloads();
+}
+
+/**
+ * Returns captured outbound HTTP requests in export order
+ */
+export function getCapturedRequests(): CapturedRequest[] {
+  return getCapturedSpans()
+    .map(toCapturedRequest)
+    .filter((request): request is CapturedRequest => request !== null);
+}
+
+/**
+ * Returns the first captured request matching `expected`.
+ *
+ * @throws Error listing the captured requests if none matches
+ */
+export function expectRequest(expected: ExpectedRequest): CapturedRequest {
+  const requests = getCapturedRequests();
+  const match = requests.find((request) => matches(request, expected));
+  if (!match) {
+    const captured = requests.length
+      ? requests.map((request) => `  - ${describeRequest(request)}`).join("\n")
+      : "  (none)";
+    throw new Error(
+      `Expected request ${describeRequest(expected)} was not captured. Captured requests:\n${captured}`
+    );
+  }
+  return match;
+}
+
+/**
+ * Waits until at least `count` spans have been captured since the last reset.
+ *
+ * @throws Error if fewer spans were captured within `timeoutMillis`
+ */
+export async function waitForSpans(
+  count: number,
+  timeoutMillis: number = DEFAULT_WAIT_TIMEOUT
+): Promise<SpanPayload[]> {
+  return getState().exporter.waitFor(count, timeoutMillis);
+}
+
+/**
+ * Clears all captured spans
+ */
+export function reset(): void {
+  getState().exporter.reset();
+}
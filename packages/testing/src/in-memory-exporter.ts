@@ -0,0 +1,87 @@
+/**
+ * In-memory exporter collecting filtered SpanPayload objects
+ */
+
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { createSpanPayload, type SpanPayload } from "@pingops/core";
+
+type Waiter = {
+  count: number;
+  resolve: (payloads: SpanPayload[]) => void;
+  timer?: NodeJS.Timeout;
+};
+
+/**
+ * SpanExporter keeping every exported span in memory.
+ *
+ * Spans reaching the exporter have been filtered by PingopsSpanProcessor
+ * (extractSpanPayload), so payloads reflect production filtering and redaction.
+ */
+export class InMemoryPayloadExporter implements SpanExporter {
+  private payloads: SpanPayload[] = [];
+  private waiters: Waiter[] = [];
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    for (const span of spans) {
+      this.payloads.push(createSpanPayload(span));
+    }
+    this.notifyWaiters();
+    resultCallback({ code: ExportResultCode.SUCCESS });
+  }
+
+  getPayloads(): SpanPayload[] {
+    return [...this.payloads];
+  }
+
+  /**
+   * Resolves once at least `count` payloads have been exported
+   *
+   * @param timeoutMillis - Time after which the wait is abandoned and the
+   * promise rejected, unlimited if omitted
+   */
+  waitFor(count: number, timeoutMillis?: number): Promise<SpanPayload[]> {
+    if (this.payloads.length >= count) {
+      return Promise.resolve(this.getPayloads());
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { count, resolve };
+      if (timeoutMillis !== undefined) {
+        waiter.timer = setTimeout(() => {
+          this.waiters = this.waiters.filter((other) => other !== waiter);
+          reject(
+            new Error(
+              `Timed out after ${timeoutMillis}ms waiting for ${count} spans (captured ${this.payloads.length})`
+            )
+          );
+        }, timeoutMillis);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  reset(): void {
+    this.payloads = [];
+  }
+
+  async forceFlush(): Promise<void> {}
+
+  shutdown(): Promise<void> {
+    this.reset();
+    return Promise.resolve();
+  }
+
+  private notifyWaiters(): void {
+    this.waiters = this.waiters.filter((waiter) => {
+      if (this.payloads.length < waiter.count) {
+        return true;
+      }
+      clearTimeout(waiter.timer);
+      waiter.resolve(this.getPayloads());
+      return false;
+    });
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * @pingops/testing - In-memory test harness for PingOps
+ */
+
+export {
+  initializePingopsTesting,
+  shutdownPingopsTesting,
+  getCapturedSpans,
+  getCapturedRequests,
+  expectRequest,
+  waitForSpans,
+  reset,
+  type PingopsTestingConfig,
+  type CapturedRequest,
+  type ExpectedRequest,
+} from "./harness";
+export { InMemoryPayloadExporter } from "./in-memory-exporter";
@@ -0,0 +1,166 @@
+import { createServer, type Server } from "node:http";
+import { createRequire } from "node:module";
+import type { AddressInfo } from "node:net";
+import { SpanKind, trace } from "@opentelemetry/api";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  InMemoryPayloadExporter,
+  expectRequest,
+  getCapturedRequests,
+  initializePingopsTesting,
+  reset,
+  shutdownPingopsTesting,
+  waitForSpans,
+} from "../src";
+
+describe("@pingops/testing", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    initializePingopsTesting({
+      captureRequestBody: true,
+      captureResponseBody: true,
+      headersDenyList: ["x-internal-token"],
+    });
+
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        res.writeHead(req.url === "/missing" ? 404 : 200, {
+          "content-type": "application/json",
+        });
+        res.end('{"ok":true}');
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await shutdownPingopsTesting();
+  });
+
+  beforeEach(() => {
+    reset();
+  });
+
+  it("captures outbound requests with production filtering", async () => {
+    await fetch(`${baseUrl}/users`, {
+      method: "POST",
+      headers: {
+        authorization: "Bearer secret-token",
+        "x-internal-token": "internal",
+      },
+    });
+    await waitForSpans(1);
+
+    const request = expectRequest({
+      method: "post",
+      url: `${baseUrl}/users`,
+      status: 200,
+    });
+    expect(request.requestHeaders.authorization).not.toBe(
+      "Bearer secret-token"
+    );
+    expect(request.requestHeaders["x-internal-token"]).toBeUndefined();
+  });
+
+  it("applies body capture config to captured spans", async () => {
+    trace
+      .getTracer("test")
+      .startSpan("POST", {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.request.method": "POST",
+          "url.full": "https://api.example.com/users",
+          "http.response.status_code": 201,
+          "http.request.body": '{"name":"Ada"}',
+          "http.response.body": '{"id":1}',
+        },
+      })
+      .end();
+    await waitForSpans(1);
+
+    const request = expectRequest({ url: "https://api.example.com/users" });
+    expect(request.status).toBe(201);
+    expect(request.requestBody).toBe('{"name":"Ada"}');
+    expect(request.responseBody).toBe('{"id":1}');
+  });
+
+  it("matches URL patterns and reports captured requests on mismatch", async () => {
+    await fetch(`${baseUrl}/missing`);
+    await waitForSpans(1);
+
+    expect(expectRequest({ url: /\/missing$/ }).status).toBe(404);
+    expect(() => expectRequest({ method: "DELETE" })).toThrow(
+      /Expected request DELETE \* \* was not captured[\s\S]*GET .*\/missing 404/
+    );
+  });
+
+  it("resets captured requests", async () => {
+    await fetch(`${baseUrl}/users`);
+    await waitForSpans(1);
+    reset();
+
+    expect(getCapturedRequests()).toHaveLength(0);
+  });
+
+  it("times out when not enough spans are captured", async () => {
+    await fetch(`${baseUrl}/users`);
+
+    await expect(waitForSpans(2, 50)).rejects.toThrow(
+      /waiting for 2 spans \(captured 1\)/
+    );
+  });
+});
+
+describe("@pingops/testing reinitialization", () => {
+  it("applies the config of each harness", async () => {
+    const server = createServer((_req, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end('{"ok":true,"items":[1,2,3]}');
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/items`;
+
+    try {
+      initializePingopsTesting({
+        captureResponseBody: true,
+        maxResponseBodySize: 8,
+        truncationStrategy: "head",
+      });
+      // Required once instrumented, as ES module imports are not patched
+      const http = createRequire(import.meta.url)(
+        "http"
+      ) as typeof import("node:http");
+      await new Promise<void>((resolve, reject) =>
+        http
+          .get(url, (res) => res.resume().on("end", resolve))
+          .on("error", reject)
+      );
+      await waitForSpans(1);
+
+      expect(expectRequest({ url }).responseBody).toMatch(
+        /^\{"ok":tr\[truncated response body; size=27; omitted=19\]$/
+      );
+    } finally {
+      await shutdownPingopsTesting();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
+
+describe("InMemoryPayloadExporter", () => {
+  it("stops waiting for spans on timeout", async () => {
+    const exporter = new InMemoryPayloadExporter();
+
+    await expect(exporter.waitFor(1, 10)).rejects.toThrow(/Timed out/);
+    expect((exporter as unknown as { waiters: unknown[] }).waiters).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { createServer, type Server } from "node:http";
+import { createRequire } from "node:module";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  expectRequest,
+  initializePingopsTesting,
+  shutdownPingopsTesting,
+  waitForSpans,
+} from "../src";
+
+// In its own file: http is only instrumented by the first harness requiring it
+describe("@pingops/testing status code rules", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    initializePingopsTesting({
+      domainAllowList: [
+        { domain: "127.0.0.1", statusCodes: ["5xx"], captureRequestBody: true },
+        { domain: "127.0.0.1" },
+      ],
+    });
+
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        res.writeHead(req.url === "/fail" ? 503 : 200);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await shutdownPingopsTesting();
+  });
+
+  it("captures request bodies of requests matched by statusCodes", async () => {
+    // Required once instrumented, as ES module imports are not patched
+    const http = createRequire(import.meta.url)(
+      "http"
+    ) as typeof import("node:http");
+    for (const path of ["/fail", "/ok"]) {
+      await new Promise<void>((resolve, reject) =>
+        http
+          .request(`${baseUrl}${path}`, { method: "POST" }, (res) =>
+            res.resume().on("end", resolve)
+          )
+          .on("error", reject)
+          .end('{"job":1}')
+      );
+    }
+    await waitForSpans(2);
+
+    expect(expectRequest({ url: `${baseUrl}/fail` }).requestBody).toBe(
+      '{"job":1}'
+    );
+    expect(expectRequest({ url: `${baseUrl}/ok` }).requestBody).toBeUndefined();
+  });
+});